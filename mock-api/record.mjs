@@ -0,0 +1,95 @@
+// Records the fixtures that mock-api/server.mjs serves from the real API
+//
+//   yarn mock-api:record
+//   MOCK_API_SOURCE=https://api.langaracourses.ca MOCK_API_SEMESTERS=3 yarn mock-api:record
+//
+// The responses are trimmed to the courses in COURSES (and their subjects in the index) for the latest
+// MOCK_API_SEMESTERS semesters, so the fixtures stay small enough to commit. Everything in fixtures/v1 is replaced
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const SOURCE = (process.env.MOCK_API_SOURCE || 'https://api.langaracourses.ca').replace(/\/$/, '');
+const SEMESTERS = Number(process.env.MOCK_API_SEMESTERS) || 3;
+
+// a few courses with prerequisites between them, plus some from other subjects for the search filters
+const COURSES = [
+  'CPSC 1030', 'CPSC 1045', 'CPSC 1050', 'CPSC 1150', 'CPSC 1160', 'CPSC 1181', 'CPSC 2150',
+  'ENGL 1123', 'ENGL 1127',
+  'MATH 1150', 'MATH 1171', 'MATH 1271',
+  'PSYC 1115'
+];
+const TRANSFER_DESTINATIONS = ['SFU', 'UBCV', 'UVIC'];
+
+const keep = new Set(COURSES);
+const keepSubjects = new Set(COURSES.map(course => course.split(' ')[0]));
+const isKept = (item) => keep.has(`${item.subject} ${item.course_code}`);
+
+async function get(path) {
+  const response = await fetch(SOURCE + path);
+  if (!response.ok) throw new Error(`${path}: ${response.status} ${response.statusText}`);
+  return response.json();
+}
+
+// route -> trimmed response, written out once everything was fetched
+const recordedFixtures = new Map();
+
+function save(path, data) {
+  recordedFixtures.set(path, data);
+  console.log(`recorded ${path}`);
+}
+
+function writeFixtures() {
+  rmSync(join(FIXTURES, 'v1'), { recursive: true, force: true });
+  for (const [path, data] of recordedFixtures) {
+    const file = join(FIXTURES, `${path}.json`);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(data, null, 2) + '\n');
+  }
+}
+
+async function record() {
+  const { semesters: allSemesters } = await get('/v1/index/semesters');
+  const semesters = [...allSemesters]
+    .sort((a, b) => b.year - a.year || b.term - a.term)
+    .slice(0, SEMESTERS);
+  const recorded = new Set(semesters.map(s => `${s.year}-${s.term}`));
+  const inRecordedSemester = (item) => recorded.has(`${item.year}-${item.term}`);
+
+  save('/v1/index/semesters', { count: semesters.length, semesters });
+  save('/v1/index/latest_semester', await get('/v1/index/latest_semester'));
+  save('/v1/index/transfer_destinations', await get('/v1/index/transfer_destinations'));
+
+  const subjects = (await get('/v1/index/subjects')).subjects.filter(subject => keepSubjects.has(subject));
+  save('/v1/index/subjects', { count: subjects.length, subjects });
+
+  const courses = (await get('/v1/index/courses')).courses.filter(isKept);
+  save('/v1/index/courses', { subject_count: subjects.length, course_count: courses.length, courses });
+
+  for (const { year, term } of semesters) {
+    const semesterCourses = await get(`/v1/semester/${year}/${term}/courses`);
+    save(`/v1/semester/${year}/${term}/courses`, { ...semesterCourses, courses: semesterCourses.courses.filter(isKept) });
+
+    const sections = await get(`/v1/semester/${year}/${term}/sections`);
+    save(`/v1/semester/${year}/${term}/sections`, { ...sections, sections: sections.sections.filter(isKept) });
+  }
+
+  for (const course of COURSES) {
+    const [subject, code] = course.split(' ');
+    const details = await get(`/v1/courses/${subject}/${code}`);
+    save(`/v1/courses/${subject}/${code}`, { ...details, sections: (details.sections ?? []).filter(inRecordedSemester) });
+  }
+
+  // transfers are listed by their source, e.g. "LANG CPSC 1030"
+  for (const destination of TRANSFER_DESTINATIONS) {
+    const { transfers, ...rest } = await get(`/v1/transfers/${destination}`);
+    save(`/v1/transfers/${destination}`, { ...rest, transfers: transfers.filter(t => keep.has(t.source.replace(/^LANG\s+/, ''))) });
+  }
+}
+
+record().then(writeFixtures).catch((error) => {
+  console.error('Failed to record the fixtures:', error);
+  process.exit(1);
+});
@@ -0,0 +1,209 @@
+// Local stand-in for api.langaracourses.ca, for working offline and for end-to-end tests
+//
+//   yarn mock-api                    (listens on http://localhost:8000)
+//   MOCK_API_PORT=9000 yarn mock-api
+//   MOCK_API_DELAY=300 yarn mock-api (adds latency to every response, in ms)
+//
+// Then point the app at it with NEXT_PUBLIC_API_BASE_URL=http://localhost:8000 in .env.local
+//
+// Fixed responses are served straight from fixtures/<path>.json, e.g. /v1/index/subjects -> fixtures/v1/index/subjects.json
+// The search endpoints are answered from the same fixtures so that their filters and pagination work
+
+import { createServer } from 'node:http';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { dirname, join, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const PORT = Number(process.env.MOCK_API_PORT) || 8000;
+const DELAY = Number(process.env.MOCK_API_DELAY) || 0;
+
+// '/v1/index/subjects' -> parsed json, everything is small enough to keep in memory
+const fixtures = new Map();
+
+function loadFixtures(dir) {
+  for (const name of readdirSync(dir)) {
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) {
+      loadFixtures(path);
+    } else if (name.endsWith('.json')) {
+      const route = '/' + relative(FIXTURES, path).split(sep).join('/').replace(/\.json$/, '');
+      fixtures.set(route, JSON.parse(readFileSync(path, 'utf8')));
+    }
+  }
+}
+
+loadFixtures(FIXTURES);
+
+const allSections = [...fixtures.entries()]
+  .filter(([route]) => /^\/v1\/semester\/\d+\/\d+\/sections$/.test(route))
+  .flatMap(([, data]) => data.sections)
+  .sort((a, b) => b.year - a.year || b.term - a.term || a.subject.localeCompare(b.subject) || a.course_code.localeCompare(b.course_code) || a.section.localeCompare(b.section));
+
+const allCourses = [...fixtures.entries()]
+  .filter(([route]) => /^\/v1\/courses\/[^/]+\/[^/]+$/.test(route))
+  .map(([, data]) => data)
+  .sort((a, b) => a.subject.localeCompare(b.subject) || a.course_code.localeCompare(b.course_code));
+
+const courseAttributes = new Map(allCourses.map(course => [`${course.subject}-${course.course_code}`, course.attributes]));
+
+// Filters
+
+const ATTRIBUTES = ['attr_ar', 'attr_sc', 'attr_hum', 'attr_lsc', 'attr_sci', 'attr_soc', 'attr_ut'];
+
+const includes = (text, search) => (text ?? '').toLowerCase().includes(search.toLowerCase());
+const isTrue = (params, key) => params.get(key) === 'true';
+
+// the same check the planner uses
+const isOnline = (section) => section.section.endsWith('W')
+  || section.schedule.filter(s => s.type !== 'Exam').every(s => s.days === '-------');
+
+function matchesCourseFields(attributes, subject, courseCode, params) {
+  const subjects = params.getAll('subject').filter(Boolean).map(s => s.toUpperCase());
+  if (subjects.length > 0 && !subjects.includes(subject)) return false;
+
+  const code = params.get('course_code');
+  if (code && !courseCode.startsWith(code)) return false;
+
+  const title = params.get('title_search');
+  if (title && !includes(attributes?.title, title) && !includes(attributes?.abbreviated_title, title)) return false;
+
+  return ATTRIBUTES.every(attr => !isTrue(params, attr) || attributes?.[attr] === true);
+}
+
+function searchCourses(params) {
+  const credits = params.get('credits');
+  const destinations = params.getAll('transfer_destinations').filter(Boolean);
+
+  const courses = allCourses.filter(course => {
+    const attributes = course.attributes;
+    if (!matchesCourseFields(attributes, course.subject, course.course_code, params)) return false;
+    if (credits && attributes.credits !== Number(credits)) return false;
+    if (params.has('on_langara_website') && attributes.on_langara_website !== isTrue(params, 'on_langara_website')) return false;
+    if (isTrue(params, 'offered_online') && !attributes.offered_online) return false;
+    // the course has to transfer to every destination that was picked
+    return destinations.every(destination => (attributes.transfer_destinations ?? '').includes(`,${destination},`));
+  });
+
+  return {
+    courses: courses.map(course => ({
+      ...course.attributes,
+      id: `CMAX-${course.subject}-${course.course_code}`,
+      subject: course.subject,
+      course_code: course.course_code,
+      id_course: course.id
+    }))
+  };
+}
+
+function filterSections(params) {
+  const year = params.get('year');
+  const term = params.get('term');
+  const instructor = params.get('instructor_search');
+
+  return allSections.filter(section => {
+    if (year && section.year !== Number(year)) return false;
+    if (term && section.term !== Number(term)) return false;
+
+    const attributes = courseAttributes.get(`${section.subject}-${section.course_code}`);
+    if (!matchesCourseFields(attributes, section.subject, section.course_code, params)) return false;
+
+    if (instructor && !section.schedule.some(s => includes(s.instructor, instructor))) return false;
+    if (isTrue(params, 'online') && !isOnline(section)) return false;
+    if (isTrue(params, 'filter_not_cancelled') && section.seats === 'Cancel') return false;
+    if (isTrue(params, 'filter_open_seats') && !(Number(section.seats) > 0)) return false;
+    if (isTrue(params, 'filter_no_waitlist') && section.waitlist !== null && section.waitlist.trim() !== '' && section.waitlist !== '0') return false;
+    return true;
+  });
+}
+
+function searchSections(params) {
+  const sections = filterSections(params);
+  const perPage = Math.max(1, Number(params.get('sections_per_page')) || 50);
+  const page = Math.max(1, Number(params.get('page')) || 1);
+
+  return {
+    page,
+    sections_per_page: perPage,
+    total_sections: sections.length,
+    total_pages: Math.ceil(sections.length / perPage),
+    sections: sections.slice((page - 1) * perPage, page * perPage)
+  };
+}
+
+// v1 search only returns section ids, the query is matched against the course, title, crn and instructors
+function searchSectionIds(params) {
+  const words = (params.get('query') ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  const sections = filterSections(new URLSearchParams({ year: params.get('year') ?? '', term: params.get('term') ?? '' }));
+
+  return {
+    sections: sections
+      .filter(section => {
+        const text = [
+          `${section.subject} ${section.course_code}`,
+          `${section.subject}${section.course_code}`,
+          section.abbreviated_title,
+          String(section.crn),
+          ...section.schedule.map(s => s.instructor)
+        ].join(' ').toLowerCase();
+        return words.every(word => text.includes(word));
+      })
+      .map(section => section.id)
+  };
+}
+
+const SEARCHES = {
+  '/v1/search/sections': searchSectionIds,
+  '/v2/search/courses': searchCourses,
+  '/v2/search/sections': searchSections
+};
+
+// Server
+
+// mimic fastapi-cache: the first request for a url is a MISS, repeats are a HIT
+const seen = new Set();
+
+function send(res, status, body, cache) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Expose-Headers': 'x-fastapi-cache',
+    ...(cache ? { 'x-fastapi-cache': cache } : {})
+  });
+  res.end(body === null ? undefined : JSON.stringify(body));
+}
+
+function handle(req, res) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const path = url.pathname.replace(/\/+$/, '') || '/';
+
+  if (req.method === 'OPTIONS') return send(res, 204, null);
+  if (req.method !== 'GET') return send(res, 405, { detail: 'Method Not Allowed' });
+
+  const cache = seen.has(req.url) ? 'HIT' : 'MISS';
+  seen.add(req.url);
+
+  const search = SEARCHES[path];
+  if (search) return send(res, 200, search(url.searchParams), cache);
+
+  // subjects, course codes and institutions are upper case in the fixtures
+  const fixture = fixtures.get(path.replace(/^\/v1\/(courses|transfers)\/(.+)$/, (_, kind, rest) => `/v1/${kind}/${rest.toUpperCase()}`));
+  if (fixture) return send(res, 200, fixture, cache);
+
+  send(res, 404, { detail: 'Not Found' });
+}
+
+createServer((req, res) => {
+  const started = Date.now();
+  setTimeout(() => {
+    try {
+      handle(req, res);
+    } catch (error) {
+      console.error(error);
+      send(res, 500, { detail: 'Internal Server Error' });
+    }
+    console.log(`${req.method} ${req.url} ${res.statusCode} ${Date.now() - started}ms`);
+  }, DELAY);
+}).listen(PORT, () => {
+  console.log(`Mock api serving ${fixtures.size} fixtures on http://localhost:${PORT}`);
+});
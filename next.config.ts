@@ -2,6 +2,16 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
     // output: 'standalone'
+
+    // the service worker has to be re-checked on every visit, otherwise updates to it take a day to arrive
+    async headers() {
+        return [
+            {
+                source: '/sw.js',
+                headers: [{ key: 'Cache-Control', value: 'no-cache, no-store, must-revalidate' }],
+            },
+        ];
+    },
 };
 
 export default nextConfig;
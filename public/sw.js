@@ -0,0 +1,124 @@
+// Service worker that keeps /planner working without a connection
+// The course data is cached in IndexedDB by the page itself (src/lib/offline-cache.ts) and the saved
+// schedules live in localStorage, so this only has to cache the page and the scripts / styles it loads
+
+const CACHE = 'langara-planner-v2';
+const OFFLINE_PAGES = ['/planner'];
+
+const isStaticAsset = (url) => url.pathname.startsWith('/_next/static/') || url.pathname === '/favicon.ico';
+
+// The scripts and styles a page loads, e.g. /_next/static/chunks/app/planner/page-1a2b3c.js
+function staticAssetsIn(html) {
+  const urls = new Set();
+  for (const match of html.matchAll(/\/_next\/static\/[^"'\s)\\]+/g)) {
+    urls.add(match[0]);
+  }
+  return [...urls];
+}
+
+// Cache the pages and everything they load up front, otherwise the first offline visit would have no scripts
+async function precache() {
+  const cache = await caches.open(CACHE);
+  await Promise.all(OFFLINE_PAGES.map(async (page) => {
+    const response = await fetch(page);
+    if (!response.ok) throw new Error(`${page} returned ${response.status}`);
+
+    const html = await response.clone().text();
+    await cache.put(page, response);
+    await cacheAssets(cache, staticAssetsIn(html));
+  }));
+}
+
+// Assets that are already cached are skipped, their names change whenever their content does
+async function cacheAssets(cache, urls) {
+  await Promise.all(urls.map(async (url) => {
+    if (await cache.match(url)) return;
+    try {
+      const response = await fetch(url);
+      if (response.ok) await cache.put(url, response);
+    } catch (error) {
+      console.error(`Failed to cache ${url}:`, error);
+    }
+  }));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    precache()
+      // the page is also cached the next time it is visited, so don't fail the install over it
+      .catch((error) => console.error('Failed to precache the planner:', error))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// The page sends the chunks it loaded after the html, e.g. the ones that are only loaded when needed
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-assets' || !Array.isArray(event.data.urls)) return;
+
+  const urls = event.data.urls
+    .map((url) => new URL(url, self.location.origin))
+    .filter((url) => url.origin === self.location.origin && isStaticAsset(url))
+    .map((url) => url.pathname + url.search);
+  event.waitUntil(caches.open(CACHE).then((cache) => cacheAssets(cache, urls)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Watch notifications (src/lib/section-watch.ts) are shown through the worker, a click brings the site back up
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) =>
+      windows.length > 0 ? windows[0].focus() : self.clients.openWindow('/planner')
+    )
+  );
+});
+
+const isOfflinePage = (url) => OFFLINE_PAGES.some((page) => url.pathname === page || url.pathname.startsWith(`${page}/`));
+
+// network first, so that a new deploy shows up as soon as there is a connection
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    // shared links have a query string, any cached copy of the page will do
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// the files in /_next/static have a hash in their name and never change
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  // api requests are cached by the page
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate' && isOfflinePage(url)) {
+    event.respondWith(networkFirst(request));
+  } else if (isStaticAsset(url)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -1,20 +1,12 @@
 import { notFound, permanentRedirect } from "next/navigation";
+import { apiClient } from "@/lib/api-client";
 
 type ExpectedParams = Promise<{ course: string; redirect: string }>;
 
-interface c_index {
-    course_code: string;
-    on_langara_website: boolean;
-    subject: string;
-    title: string;
-}
-
 // revalidate every 24 hours
-const courses_data: Promise<c_index[]> = fetch('https://api.langaracourses.ca/v1/index/courses', { next: { revalidate: 86400 } })
-    .then((res) => res.json())
-    .then((data: { courses: c_index[] }) => data.courses);
+const courses_data = await apiClient.getCourseIndex({ next: { revalidate: 86400 } });
 
-const courses = (await courses_data).map(
+const courses = courses_data.courses.map(
     (course) => `${course.subject}-${course.course_code}`.toLowerCase()
 );
 
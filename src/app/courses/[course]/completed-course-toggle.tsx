@@ -0,0 +1,46 @@
+'use client'
+
+import { GRADES, useCompletedCourses } from '@/lib/completed-courses';
+
+interface CompletedCourseToggleProps {
+    subject: string;
+    course_code: string;
+}
+
+// Lets the user record that they completed this course (and their grade) for the prerequisite checks
+export default function CompletedCourseToggle({ subject, course_code }: CompletedCourseToggleProps) {
+    const [completed, setCompleted] = useCompletedCourses();
+    const record = completed.find(c => c.subject === subject && c.course_code === course_code);
+    const others = completed.filter(c => c !== record);
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label className="flex items-center gap-1">
+                <input
+                    type="checkbox"
+                    checked={record !== undefined}
+                    onChange={() => setCompleted(record ? others : [...completed, { subject, course_code, grade: null }])}
+                />
+                I have completed this course
+            </label>
+            {record && (
+                <label className="flex items-center gap-1">
+                    Grade:
+                    <select
+                        value={record.grade ?? ''}
+                        onChange={e => setCompleted([...others, { ...record, grade: e.target.value || null }])}
+                        className="border rounded p-0.5"
+                    >
+                        <option value="">Not entered</option>
+                        {GRADES.map(grade => (
+                            <option key={grade} value={grade}>{grade}</option>
+                        ))}
+                    </select>
+                </label>
+            )}
+            {completed.length > 0 && (
+                <span className="text-gray-600">({completed.length} completed course{completed.length === 1 ? '' : 's'} recorded)</span>
+            )}
+        </div>
+    );
+}
@@ -1,29 +1,84 @@
 import { addLinksToCourseDescription } from '@/lib/course-utils';
-import { Course, Transfer } from '@/types/Course';
+import { mentionedCorequisites, mentionedCourses, parsePrerequisites } from '@/lib/prerequisite-parser';
+import { apiClient } from '@/lib/api-client';
+import { Course, CourseMax, Transfer } from '@/types/Course';
 import Link from 'next/link';
+import PrerequisiteTree from './prerequisite-tree';
+import CompletedCourseToggle from './completed-course-toggle';
+import { CoursePrerequisiteBadge } from '@/components/shared/prerequisite-badge';
 
-const _courses: {
-    course_count: number;
-    courses: {
-        course_code: string;
-        on_langara_website: boolean;
-        subject: string;
-        title: string;
-    }[];
-    subject_count: number;
-} = await fetch(
-    'https://api.langaracourses.ca/v1/index/courses',
-    {
-        cache: 'force-cache',
-        next: { revalidate: 1800 } // 30 minutes
-    }
-).then((res) => res.json());
+const _courses = await apiClient.getCourseIndex({
+    cache: 'force-cache',
+    next: { revalidate: 1800 } // 30 minutes
+});
 
 const courseList = _courses.courses.map(
     (c) => `${c.subject}-${c.course_code}`.toLowerCase()
 );
 
-const mapTerm = (term: number): string => {
+interface DependentCourse {
+    subject: string;
+    course_code: string;
+    title: string;
+    active: boolean;
+    // how the course mentions this one, prerequisites win over corequisites and registration restrictions
+    mentionedIn: 'prerequisite' | 'corequisite' | 'restriction';
+}
+
+const DEPENDENTS_REVALIDATE = 1800; // 30 minutes
+
+let dependentCourses: { loadedAt: number; byCourse: Map<string, DependentCourse[]> } | null = null;
+
+// course key (cpsc-1150) -> courses that mention it in their prerequisites, corequisites or registration restrictions
+// The course index doesn't include the prerequisite text, so this needs the full course details
+// null if they couldn't be loaded, the rest of the page doesn't need them so it's shown without the list
+async function loadDependentCourses(): Promise<Map<string, DependentCourse[]> | null> {
+    if (dependentCourses && Date.now() - dependentCourses.loadedAt < DEPENDENTS_REVALIDATE * 1000) {
+        return dependentCourses.byCourse;
+    }
+
+    let courseDetails: CourseMax[];
+    try {
+        const { data } = await apiClient.searchCourses('', {
+            cache: 'force-cache',
+            next: { revalidate: DEPENDENTS_REVALIDATE }
+        });
+        courseDetails = data.courses;
+    } catch (error) {
+        console.error('Failed to load the courses that require each course:', error);
+        return dependentCourses?.byCourse ?? null;
+    }
+
+    const byCourse = new Map<string, DependentCourse[]>();
+    const toKey = (m: { subject: string; courseCode: string }) => `${m.subject}-${m.courseCode}`.toLowerCase();
+
+    courseDetails.forEach((c) => {
+        const fromPrerequisites = mentionedCourses(c.desc_prerequisite).map(toKey);
+        const fromCorequisites = mentionedCorequisites(c.desc_prerequisite).map(toKey);
+        const fromRestrictions = mentionedCourses(c.desc_registration_restriction).map(toKey);
+        const ownKey = `${c.subject}-${c.course_code}`.toLowerCase();
+
+        new Set([...fromPrerequisites, ...fromCorequisites, ...fromRestrictions]).forEach((key) => {
+            if (key === ownKey) return;
+
+            if (!byCourse.has(key)) byCourse.set(key, []);
+            byCourse.get(key)!.push({
+                subject: c.subject,
+                course_code: c.course_code,
+                title: c.title || c.abbreviated_title || '',
+                active: c.on_langara_website && (c.last_offered_year ?? 0) >= new Date().getFullYear() - 5,
+                mentionedIn: fromPrerequisites.includes(key) ? 'prerequisite'
+                    : fromCorequisites.includes(key) ? 'corequisite'
+                        : 'restriction'
+            });
+        });
+    });
+
+    dependentCourses = { loadedAt: Date.now(), byCourse };
+    return byCourse;
+}
+
+const mapTerm = (term: number | null): string => {
     switch (term) {
         case 10:
             return 'Spring';
@@ -59,6 +114,18 @@ export default async function CourseInfo({ course }: CourseInfoProps) {
 
     course.sections = course.sections.reverse();
 
+    const prerequisiteTree = parsePrerequisites(course.attributes.desc_prerequisite);
+
+    // group the courses that need this one by subject
+    const dependents = await loadDependentCourses();
+    const unlocks = new Map<string, DependentCourse[]>();
+    (dependents?.get(`${course.subject}-${course.course_code}`.toLowerCase()) ?? [])
+        .sort((a, b) => `${a.subject} ${a.course_code}`.localeCompare(`${b.subject} ${b.course_code}`))
+        .forEach((dependent) => {
+            if (!unlocks.has(dependent.subject)) unlocks.set(dependent.subject, []);
+            unlocks.get(dependent.subject)!.push(dependent);
+        });
+
 
     if (!course) return <div>No course data found.</div>;
 
@@ -75,7 +142,7 @@ export default async function CourseInfo({ course }: CourseInfoProps) {
                 </div>
             )}
 
-            {course.attributes.on_langara_website && course.attributes.last_offered_year < new Date().getFullYear() - 5 &&
+            {course.attributes.on_langara_website && (course.attributes.last_offered_year ?? 0) < new Date().getFullYear() - 5 &&
                 (course.attributes.last_offered_term !== null ? (
                     <div className='border-2 border-gray-200 rounded p-2 flex gap-2 flex-col bg-yellow-200'>
                         <p>Warning: This course is listed on the Langara website, but it was last offered in the term of <strong>{mapTerm(course.attributes.last_offered_term)} {course.attributes.last_offered_year}</strong>.</p>
@@ -122,6 +189,8 @@ export default async function CourseInfo({ course }: CourseInfoProps) {
                     </tbody>
                 </table>
 
+                <CompletedCourseToggle subject={course.subject} course_code={course.course_code} />
+
                 {/* <h2 className="text-xl pt-2 pb-1">Course Description</h2> */}
                 <div className='flex flex-col gap-2'>
                     {course.attributes.description ? (
@@ -139,9 +208,19 @@ export default async function CourseInfo({ course }: CourseInfoProps) {
                         <p>{addLinksToCourseDescription(course.attributes.desc_registration_restriction, courseList)}</p>
                     )}
 
-                    {course.attributes.desc_prerequisite && (
+                    <CoursePrerequisiteBadge prerequisites={course.attributes.desc_prerequisite} className="w-fit text-sm" />
+
+                    {course.attributes.desc_prerequisite && (prerequisiteTree ? (
+                        <div>
+                            <PrerequisiteTree tree={prerequisiteTree} courseList={courseList} />
+                            <details className="text-sm">
+                                <summary className="cursor-pointer text-gray-600">Show original text</summary>
+                                <p>{addLinksToCourseDescription(course.attributes.desc_prerequisite, courseList)}</p>
+                            </details>
+                        </div>
+                    ) : (
                         <p>{addLinksToCourseDescription(course.attributes.desc_prerequisite, courseList )}</p>
-                    )}
+                    ))}
                 </div>
 
                 <br></br>
@@ -215,7 +294,7 @@ export default async function CourseInfo({ course }: CourseInfoProps) {
                                 <th>First offered:</th>
                                 <td>{mapTerm(course.attributes.first_offered_term)} {course.attributes.first_offered_year}</td>
                             </tr>
-                            <tr className={`align-top ${course.attributes.last_offered_year < new Date().getFullYear() - 5 ? 'bg-red-200' : ''}`}>
+                            <tr className={`align-top ${(course.attributes.last_offered_year ?? 0) < new Date().getFullYear() - 5 ? 'bg-red-200' : ''}`}>
                                 <th>Last offered:</th>
                                 <td>{mapTerm(course.attributes.last_offered_term)} {course.attributes.last_offered_year}</td>
                             </tr>
@@ -249,6 +328,44 @@ export default async function CourseInfo({ course }: CourseInfoProps) {
                 </div>
             </div>
 
+            <div className='border-2 border-gray-200 rounded p-2 flex gap-2 flex-col'>
+                <details open={unlocks.size > 0}>
+                    <summary className="text-l font-bold cursor-pointer">
+                        Courses that require {course.subject} {course.course_code} ({Array.from(unlocks.values()).flat().length})
+                    </summary>
+                    <div className="pt-2 text-sm flex flex-col gap-2">
+                        {dependents === null ? (
+                            <p>The courses that require {course.subject} {course.course_code} couldn&apos;t be loaded, try again later.</p>
+                        ) : unlocks.size === 0 ? (
+                            <p>No other courses mention {course.subject} {course.course_code} in their prerequisites, corequisites or registration restrictions.</p>
+                        ) : (
+                            Array.from(unlocks.entries()).map(([subject, dependents]) => (
+                                <div key={subject}>
+                                    <p className="font-semibold">{subject}</p>
+                                    <ul className="ml-4">
+                                        {dependents.map((dependent) => (
+                                            <li key={`${dependent.subject}-${dependent.course_code}`} className={dependent.active ? '' : 'text-gray-500'}>
+                                                <Link
+                                                    href={`/courses/${dependent.subject.toLowerCase()}-${dependent.course_code.toLowerCase()}`}
+                                                    className="hover:text-[#f15a22] underline transition-colors duration-200 ease-in"
+                                                    prefetch={false}
+                                                >
+                                                    {dependent.subject} {dependent.course_code}
+                                                </Link>
+                                                {dependent.title && `: ${dependent.title}`}
+                                                {dependent.mentionedIn === 'corequisite' && ' (corequisite)'}
+                                                {dependent.mentionedIn === 'restriction' && ' (registration restriction)'}
+                                                {!dependent.active && ' (inactive)'}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </details>
+            </div>
+
             <div className='border-2 border-gray-200 rounded p-2 flex gap-2 flex-col'>
                 <details open>
                     <summary className="text-l font-bold cursor-pointer">Transfer Agreements</summary>
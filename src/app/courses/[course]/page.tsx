@@ -1,4 +1,5 @@
 import { Course } from "@/types/Course";
+import { apiClient, ApiHttpError } from "@/lib/api-client";
 import CourseInfo from "./course-info";
 import Header from "@/components/shared/header";
 import { notFound } from "next/navigation";
@@ -13,11 +14,12 @@ export async function generateMetadata({ params }: { params: expectedParams }) {
     const { course: courseParam } = await params;
 
     const [subject, coursecode] = courseParam.toUpperCase().split("-");
-    const courseRes = await fetch(`https://api.langaracourses.ca/v1/courses/${subject}/${coursecode}`);
-
-    if (!courseRes.ok) { return { title: `Error ${courseRes.status}`}}
-
-    const course: Course = await courseRes.json();
+    let course: Course;
+    try {
+        course = await apiClient.getCourse(subject, coursecode);
+    } catch (error) {
+        return { title: error instanceof ApiHttpError ? `Error ${error.status}` : 'Error' };
+    }
 
     let titleText;
     if (course.attributes.title)
@@ -43,22 +45,8 @@ export async function generateMetadata({ params }: { params: expectedParams }) {
 // it has to generate ~2800 pages which takes a lot of time on the build server
 // and the request is usually fast so there is no need to pregenerate it
 
-// interface CourseIndex {
-//     subject: string;
-//     course_code: string;
-//     title: string;
-//     on_langara_website: boolean;
-// }
-
-// interface CourseIndexList {
-//     course_count: number;
-//     courses: CourseIndex[];
-// }
-
 // export async function generateStaticParams() {
-//     const courses: CourseIndexList = await fetch('https://api.langaracourses.ca/v1/index/courses').then((res) =>
-//       res.json()
-//     )
+//     const courses = await apiClient.getCourseIndex();
 
 //     return courses.courses.map((course) => ({
 //         subject: String(course.subject),
@@ -85,22 +73,23 @@ export default async function Page( {params}: {params: expectedParams} ) {
     }
 
     const [subject, coursecode] = course.toUpperCase().split("-");
-    const response = await fetch(`https://api.langaracourses.ca/v1/courses/${subject}/${coursecode}`);
-    
-    if (!response.ok) {
+    let courseJSON: Course;
+    try {
+        courseJSON = await apiClient.getCourse(subject, coursecode);
+    } catch (error) {
+        if (!(error instanceof ApiHttpError)) throw error;
         notFound();
         // return (
         //     <div className="w-full h-full">
         //         <Header title="Langara Course Information" color="#A7C7E7"></Header>
 
         //         <div className="md:px-10 py-2">
-        //             Failed to fetch course data for {subject} {coursecode}: {response.status} {response.statusText}
+        //             Failed to fetch course data for {subject} {coursecode}: {error.message}
         //         </div>
         //     </div>
         // )
     }
 
-    const courseJSON: Course = await response.json();
     return (
         <div className="w-full h-full">
             <Header title="Langara Course Information" color="#A7C7E7"></Header>
@@ -0,0 +1,68 @@
+import { PrerequisiteNode } from '@/lib/prerequisite-parser';
+import Link from 'next/link';
+
+interface PrerequisiteTreeProps {
+    tree: PrerequisiteNode;
+    courseList: string[];
+}
+
+function PrerequisiteCourse({ node, courseList }: { node: Extract<PrerequisiteNode, { type: 'course' }>; courseList: string[] }) {
+    const courseKey = `${node.subject}-${node.courseCode}`.toLowerCase();
+
+    return (
+        <span>
+            {courseList.includes(courseKey) ? (
+                <Link
+                    href={`/courses/${courseKey}`}
+                    className="hover:text-[#f15a22] underline transition-colors duration-200 ease-in"
+                    prefetch={false}
+                >
+                    {node.subject} {node.courseCode}
+                </Link>
+            ) : (
+                <span title={`${node.subject} ${node.courseCode} does not exist.`}>{node.subject} {node.courseCode}</span>
+            )}
+            {node.minGrade && <span className="text-gray-600"> (minimum {node.minGrade})</span>}
+            {node.orEquivalent && <span className="text-gray-600"> or equivalent</span>}
+        </span>
+    );
+}
+
+function PrerequisiteBranch({ node, courseList }: { node: PrerequisiteNode; courseList: string[] }) {
+    switch (node.type) {
+        case 'course':
+            return <PrerequisiteCourse node={node} courseList={courseList} />;
+        case 'placement':
+            return <span><span className="text-gray-600">Placement: </span>{node.text}</span>;
+        case 'other':
+            return <span>{node.text}</span>;
+        case 'and':
+        case 'or':
+            return (
+                <details open>
+                    <summary className="cursor-pointer font-semibold">
+                        {node.type === 'and' ? 'All of' : 'One of'}
+                        {node.orEquivalent && <span className="font-normal text-gray-600"> (or equivalent)</span>}
+                    </summary>
+                    <ul className="ml-2 pl-3 border-l-2 border-gray-300">
+                        {node.children.map((child, index) => (
+                            <li key={index}>
+                                <PrerequisiteBranch node={child} courseList={courseList} />
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            );
+    }
+}
+
+export default function PrerequisiteTree({ tree, courseList }: PrerequisiteTreeProps) {
+    return (
+        <div>
+            <p className="font-semibold">Prerequisites:</p>
+            <div className="ml-2">
+                <PrerequisiteBranch node={tree} courseList={courseList} />
+            </div>
+        </div>
+    );
+}
@@ -12,7 +12,8 @@ import {
     DropdownMenuContent,
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { CourseBrowserProps, CourseMax, v2SearchCoursesResponse } from '@/types/Course';
+import { CourseBrowserProps, CourseMax } from '@/types/Course';
+import { apiClient } from '@/lib/api-client';
 import CourseList from './course-list';
 
 interface SearchParams {
@@ -86,15 +87,15 @@ export default function CourseBrowser({ transfers, subjects, initialCourses, val
                     console.log("CALLED API")
 
                     const start = performance.now();
-                    const response = await fetch(
-                        `https://api.langaracourses.ca/v2/search/courses?${queryParams}`
-                    );
-                    const dataRes: v2SearchCoursesResponse = await response.json();
-                    const cached = response.headers.get('x-fastapi-cache') === 'HIT';
-                    const time = Math.round(performance.now() - start);
-
-                    setRequestInfo({ time, cached });
-                    setCourses(dataRes.courses);
+                    try {
+                        const { data, cached } = await apiClient.searchCourses(queryParams);
+                        const time = Math.round(performance.now() - start);
+
+                        setRequestInfo({ time, cached });
+                        setCourses(data.courses);
+                    } catch (error) {
+                        console.error('Course search failed:', error);
+                    }
                     setLoading(false);
                 },
                 400,
@@ -1,11 +1,13 @@
 'use client'
 
 import { addLinksToCourseDescription } from '@/lib/course-utils';
+import PrerequisiteBadge from '@/components/shared/prerequisite-badge';
+import { useCompletedCourses } from '@/lib/completed-courses';
 import { CourseMax } from '@/types/Course'
 import Link from 'next/link'
 import { JSX, useState, useEffect } from 'react';
 
-const termToSeason = (term: number): string => {
+const termToSeason = (term: number | null): string => {
     switch (term) {
         case 10: return 'Spring';
         case 20: return 'Summer';
@@ -24,6 +26,7 @@ export default function CourseList({ loading, courses, validCourses }: CourseLis
     const [visibleCourses, setVisibleCourses] = useState<CourseMax[]>([]);
     const [showAll, setShowAll] = useState<boolean>(false);
     const [active, setActive] = useState(false)
+    const [completedCourses] = useCompletedCourses();
 
     useEffect(() => {
         const alwaysShowAll = localStorage.getItem('alwaysShowAll') === 'true';
@@ -92,6 +95,7 @@ export default function CourseList({ loading, courses, validCourses }: CourseLis
                                         {course.subject} {course.course_code}
                                     </Link>
                                     <p>{course.title ? course.title : course.abbreviated_title}</p>
+                                    <PrerequisiteBadge prerequisites={course.desc_prerequisite} completed={completedCourses} className="inline-block mt-1" />
                                 </td>
                                 <td className="p-2 break-words">{course.credits ? course.credits.toFixed(1) : ""}</td>
                                 <td className={`p-2 break-words ${course.attr_ar ? 'bg-green-800 text-white text-center' : ''}`}>{course.attr_ar ? '✓' : ''}</td>
@@ -105,7 +109,7 @@ export default function CourseList({ loading, courses, validCourses }: CourseLis
                                 <td className="p-2 break-words text-sm">
                                     {course.first_offered_year ? `${termToSeason(course.first_offered_term)} ${course.first_offered_year}` : "???"}
                                 </td>
-                                <td className={`p-2 break-words text-sm ${course.last_offered_year < 2021 ? 'bg-red-200' : ''}`}>
+                                <td className={`p-2 break-words text-sm ${(course.last_offered_year ?? 0) < 2021 ? 'bg-red-200' : ''}`}>
                                     {course.first_offered_year ? `${termToSeason(course.last_offered_term)} ${course.last_offered_year}` : "???"}
                                 </td>
                                 <td className="p-2 break-words flex flex-col gap-2 text-sm">
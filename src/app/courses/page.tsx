@@ -6,27 +6,15 @@ export const metadata = {
 import CourseBrowser from "./course-browser";
 import { Suspense } from "react";
 import Header from "@/components/shared/header";
-import { v1IndexSubjectsResponse, v1IndexTransfersResponse, v2SearchCoursesResponse } from "@/types/Course";
+import { apiClient } from "@/lib/api-client";
 
 
 export const revalidate = 3600 // revalidate every hour
 
-const _courses: {
-    course_count: number;
-    courses: {
-        course_code: string;
-        on_langara_website: boolean;
-        subject: string;
-        title: string;
-    }[];
-    subject_count: number;
-} = await fetch(
-    'https://api.langaracourses.ca/v1/index/courses',
-    {
-        cache: 'force-cache',
-        next: { revalidate: 1800 } // 30 minutes
-    }
-).then((res) => res.json());
+const _courses = await apiClient.getCourseIndex({
+    cache: 'force-cache',
+    next: { revalidate: 1800 } // 30 minutes
+});
 
 const courseList = _courses.courses.map(
     (c) => `${c.subject}-${c.course_code}`.toLowerCase()
@@ -35,16 +23,10 @@ const courseList = _courses.courses.map(
 
 export default async function Page() {
 
-  const [transfersRes, subjectsRes, coursesRes] = await Promise.all([
-    fetch('https://api.langaracourses.ca/v1/index/transfer_destinations'),
-    fetch('https://api.langaracourses.ca/v1/index/subjects'),
-    fetch('https://api.langaracourses.ca/v2/search/courses?on_langara_website=true'),
-  ]);
-
-  const [transfersData, subjectsData, coursesData] : [v1IndexTransfersResponse, v1IndexSubjectsResponse, v2SearchCoursesResponse] = await Promise.all([
-    transfersRes.json(),
-    subjectsRes.json(),
-    coursesRes.json(),
+  const [transfersData, subjectsData, { data: coursesData }] = await Promise.all([
+    apiClient.getTransferDestinations(),
+    apiClient.getSubjects(),
+    apiClient.searchCourses('on_langara_website=true'),
   ]);
 
   // always put ubc, sfu, uvic, and tru at the top of the list
@@ -4,8 +4,8 @@ import { useState, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 
 import Calendar from './Calendar';
-import { Course, CoursesResponse } from '../../types/Course';
-import { SectionsResponse,  } from '../../types/Section';
+import { Course } from '../../types/Course';
+import { apiClient } from '@/lib/api-client';
 import Link from 'next/link';
 
 function PageContent() {
@@ -27,22 +27,8 @@ function PageContent() {
 
     const fetchData = async () => {
       try {
-        const [coursesResponse, sectionsResponse] = await Promise.all([
-          fetch(`https://api.langaracourses.ca/v1/semester/${year}/${term}/courses`),
-          fetch(`https://api.langaracourses.ca/v1/semester/${year}/${term}/sections`)
-        ]);
-
-        const coursesData: CoursesResponse = await coursesResponse.json();
-        const sectionsData: SectionsResponse = await sectionsResponse.json();
-
-        coursesData.courses.forEach(course => {
-          course.sections = sectionsData.sections.filter(
-            section =>
-              section.subject === course.subject && section.course_code === course.course_code
-          );
-        });
-
-        setCourses(coursesData.courses);
+        const semesterCourses = await apiClient.getSemesterCoursesWithSections(year, term);
+        setCourses(semesterCourses);
       } catch (err) {
         setError('Failed to fetch data: ' + (err as Error).message);
       } finally {
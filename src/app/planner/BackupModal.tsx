@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import {
+  applyImport,
+  BackupError,
+  backupFileName,
+  ConflictResolution,
+  createBackup,
+  findMissingCrns,
+  ImportItem,
+  ImportResult,
+  ParsedBackup,
+  parseBackup,
+  planImport
+} from '@/lib/schedule-backup';
+import { getCachedSemesterCourses } from '@/lib/offline-cache';
+import { loadSchedules, MAX_SCHEDULES } from '@/lib/schedule-storage';
+import { termToSeason } from '@/lib/semester-calendar';
+
+interface BackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // called with the merged schedules, the save bar writes them to storage
+  onImport: (result: ImportResult) => void;
+}
+
+// crns that aren't offered anymore, or 'error' if the semester couldn't be loaded
+type MissingCrns = Record<number, string[] | 'error'>;
+
+const STATUS_LABELS = {
+  new: 'New',
+  duplicate: 'Already saved, skipped',
+  conflict: 'Conflicts with a saved schedule'
+};
+
+const BackupModal: React.FC<BackupModalProps> = ({ isOpen, onClose, onImport }) => {
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({});
+  const [missingCrns, setMissingCrns] = useState<MissingCrns>({});
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  // Check the imported crns against each semester's sections
+  useEffect(() => {
+    if (items.length === 0) return;
+    let cancelled = false;
+
+    const semesters = [...new Set(items.map(item => `${item.schedule.year}-${item.schedule.term}`))];
+    semesters.forEach(async semester => {
+      const [year, term] = semester.split('-').map(Number);
+      const indexes = items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => item.schedule.year === year && item.schedule.term === term);
+
+      try {
+        const { data: courses } = await getCachedSemesterCourses(year, term);
+        if (cancelled) return;
+        setMissingCrns(prev => ({
+          ...prev,
+          ...Object.fromEntries(indexes.map(({ item, index }) => [index, findMissingCrns(item.schedule, courses)]))
+        }));
+      } catch (error) {
+        console.error(`Failed to check imported CRNs for ${semester}:`, error);
+        if (cancelled) return;
+        setMissingCrns(prev => ({ ...prev, ...Object.fromEntries(indexes.map(({ index }) => [index, 'error'])) }));
+      }
+    });
+
+    return () => { cancelled = true; };
+  }, [items]);
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setBackup(null);
+    setItems([]);
+    setResolutions({});
+    setMissingCrns({});
+    setError(null);
+  };
+
+  const close = () => {
+    reset();
+    setSummary(null);
+    onClose();
+  };
+
+  const exportBackup = () => {
+    const data = createBackup();
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = backupFileName(data);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const readFile = async (file: File) => {
+    reset();
+    setSummary(null);
+    try {
+      const parsed = parseBackup(await file.text());
+      setBackup(parsed);
+      setItems(planImport(loadSchedules(), parsed.schedules));
+    } catch (error) {
+      if (error instanceof BackupError) {
+        setError(error.message);
+      } else {
+        console.error('Failed to read backup:', error);
+        setError('Could not read this file.');
+      }
+    }
+  };
+
+  const importSchedules = () => {
+    if (!backup) return;
+    // plan again in case the schedules changed while the dialog was open
+    const existing = loadSchedules();
+    const result = applyImport(existing, planImport(existing, backup.schedules), resolutions, backup.currentScheduleId);
+    onImport(result);
+
+    setSummary([
+      `Imported ${result.added} schedule${result.added !== 1 ? 's' : ''}`,
+      result.replaced > 0 && `replaced ${result.replaced}`,
+      result.skipped > 0 && `skipped ${result.skipped} already saved`,
+      result.overCap > 0 && `${result.overCap} didn't fit (the limit is ${MAX_SCHEDULES} schedules, delete some and import again)`
+    ].filter(Boolean).join(', ') + '.');
+    reset();
+  };
+
+  const importable = items.filter(item => item.status !== 'duplicate').length;
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center z-50"
+      style={{ backgroundColor: 'rgba(249, 250, 251, 0.5)' }}
+      onClick={close}
+    >
+      <div
+        className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Backup Schedules</h3>
+          <button onClick={close} className="text-gray-500 hover:text-gray-700 cursor-pointer">
+            ✕
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-3">
+          Schedules are only saved in this browser. Download a backup to move them to another computer.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={exportBackup}
+            className="px-3 py-2 rounded text-sm bg-blue-500 text-white hover:bg-blue-600 cursor-pointer"
+          >
+            Download backup
+          </button>
+          <label className="px-3 py-2 rounded text-sm bg-gray-200 hover:bg-gray-300 cursor-pointer">
+            Import backup...
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) readFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-red-700 mb-3">{error}</p>}
+        {summary && <p className="text-sm text-green-700 mb-3">{summary}</p>}
+
+        {backup && (
+          <>
+            {backup.unreadable > 0 && (
+              <p className="text-sm text-amber-700 mb-2">
+                {backup.unreadable} schedule{backup.unreadable !== 1 ? 's' : ''} in this file could not be read and will be left out.
+              </p>
+            )}
+
+            {items.length === 0 ? (
+              <p className="text-sm text-gray-600">This backup has no schedules.</p>
+            ) : (
+              <ul className="max-h-72 overflow-y-auto divide-y text-sm mb-4">
+                {items.map((item, index) => {
+                  const missing = missingCrns[index];
+                  return (
+                    <li key={index} className="py-2">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium truncate">{item.schedule.name}</span>
+                        <span className="text-gray-500 whitespace-nowrap">
+                          {termToSeason(item.schedule.term)} {item.schedule.year}, {item.schedule.crns.length} section{item.schedule.crns.length !== 1 ? 's' : ''}
+                        </span>
+                      </div>
+                      <div className={item.status === 'conflict' ? 'text-amber-700' : 'text-gray-500'}>
+                        {STATUS_LABELS[item.status]}{item.status === 'conflict' && ` "${item.existing!.name}"`}
+                      </div>
+
+                      {item.status === 'conflict' && (
+                        <div className="flex gap-3 mt-1">
+                          {(['keep-both', 'replace'] as const).map(resolution => (
+                            <label key={resolution} className="flex items-center gap-1 cursor-pointer">
+                              <input
+                                type="radio"
+                                name={`conflict-${index}`}
+                                checked={(resolutions[index] ?? 'keep-both') === resolution}
+                                onChange={() => setResolutions(prev => ({ ...prev, [index]: resolution }))}
+                              />
+                              {resolution === 'keep-both' ? 'Keep both' : 'Replace saved schedule'}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+
+                      {item.status !== 'duplicate' && (
+                        missing === undefined ? (
+                          <div className="text-gray-400">Checking sections...</div>
+                        ) : missing === 'error' ? (
+                          <div className="text-gray-500">Could not check if these sections are still offered.</div>
+                        ) : missing.length > 0 && (
+                          <div className="text-red-700">
+                            No longer offered: CRN {missing.join(', ')}
+                          </div>
+                        )
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={reset}
+                className="px-3 py-2 rounded text-sm bg-gray-200 hover:bg-gray-300 cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={importSchedules}
+                disabled={importable === 0}
+                className="px-3 py-2 rounded text-sm bg-green-500 text-white hover:bg-green-600 cursor-pointer disabled:opacity-40 disabled:cursor-default"
+              >
+                Import {importable} schedule{importable !== 1 ? 's' : ''}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupModal;
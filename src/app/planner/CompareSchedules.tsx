@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { formatHours, scheduleTotals } from '@/lib/course-load';
+import { sectionAvailability, SectionAvailability } from '@/lib/section-filters';
+import { termToSeason } from '@/lib/semester-calendar';
+import { getMeetings } from '@/utils/timetableGenerator';
+import { Course } from '@/types/Course';
+import { SavedSchedule } from '@/types/Planner2';
+import { Section } from '@/types/Section';
+
+interface CompareSchedulesProps {
+  onClose: () => void;
+  schedules: SavedSchedule[];
+  // the schedules to start with, e.g. the current one
+  initialIds: string[];
+  // null while the schedule's semester is loading
+  getSections: (schedule: SavedSchedule) => { sections: Section[]; courses: Course[] } | null;
+  // starts loading a semester that isn't loaded yet, getSections has it once it is
+  loadSemester: (year: number, term: number) => void;
+  onOpen: (scheduleId: string) => void;
+}
+
+const MIN_COMPARED = 2;
+const MAX_COMPARED = 4;
+
+const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// height of an hour in the mini calendars
+const HOUR_HEIGHT = 14;
+
+// same colors as the planner calendar
+const AVAILABILITY_COLORS: Record<SectionAvailability, string> = {
+  cancelled: 'bg-red-300',
+  full: 'bg-red-300',
+  'long-waitlist': 'bg-red-300',
+  waitlist: 'bg-yellow-300',
+  open: 'bg-green-300'
+};
+
+// minutes from midnight -> 10:30
+const formatMinutes = (minutes: number): string =>
+  `${Math.floor(minutes / 60)}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+const sectionName = (section: Section): string => `${section.subject} ${section.course_code} ${section.section}`;
+
+// Plan A / Plan B side by side
+// Render it only while open, so that it starts from initialIds each time
+const CompareSchedules: React.FC<CompareSchedulesProps> = ({
+  onClose,
+  schedules,
+  initialIds,
+  getSections,
+  loadSemester,
+  onOpen
+}) => {
+  const [pickedIds, setPickedIds] = useState<string[]>(initialIds);
+
+  const picked = schedules.filter(schedule => pickedIds.includes(schedule.id));
+
+  // only the semesters being compared are downloaded
+  useEffect(() => {
+    schedules
+      .filter(schedule => pickedIds.includes(schedule.id))
+      .forEach(schedule => loadSemester(schedule.year, schedule.term));
+  }, [schedules, pickedIds, loadSemester]);
+
+  const togglePicked = (id: string) => {
+    setPickedIds(pickedIds.includes(id) ? pickedIds.filter(pickedId => pickedId !== id) : [...pickedIds, id]);
+  };
+
+  const compared = picked.map(schedule => {
+    const data = getSections(schedule);
+    const meetings = data ? data.sections.flatMap(section => getMeetings(section).map(meeting => ({ ...meeting, section }))) : [];
+    return { schedule, data, meetings };
+  });
+
+  // crns that are in every compared schedule, the rest are what differs
+  const crnSets = compared.map(({ schedule }) => new Set(schedule.crns));
+  const isShared = (crn: string) => crnSets.every(crns => crns.has(crn));
+
+  // one time scale for all the mini calendars so they line up
+  const allMeetings = compared.flatMap(({ meetings }) => meetings);
+  const firstHour = allMeetings.length > 0 ? Math.floor(Math.min(...allMeetings.map(m => m.start)) / 60) : 8;
+  const lastHour = allMeetings.length > 0 ? Math.ceil(Math.max(...allMeetings.map(m => m.end)) / 60) : 17;
+  const dayCount = allMeetings.some(meeting => meeting.day === 5) ? 6 : 5;
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center z-50"
+      style={{ backgroundColor: 'rgba(249, 250, 251, 0.5)' }}
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg p-6 max-w-6xl w-full mx-4 shadow-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Compare Schedules</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 cursor-pointer">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mb-4 text-sm">
+          {schedules.map(schedule => (
+            <label key={schedule.id} className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={pickedIds.includes(schedule.id)}
+                disabled={!pickedIds.includes(schedule.id) && pickedIds.length >= MAX_COMPARED}
+                onChange={() => togglePicked(schedule.id)}
+              />
+              {schedule.name}
+            </label>
+          ))}
+        </div>
+
+        {picked.length < MIN_COMPARED ? (
+          <p className="text-sm text-gray-600">
+            Pick {MIN_COMPARED} to {MAX_COMPARED} schedules to compare.
+          </p>
+        ) : (
+          <div className="grid gap-4 text-sm" style={{ gridTemplateColumns: `repeat(${picked.length}, minmax(0, 1fr))` }}>
+            {compared.map(({ schedule, data, meetings }) => {
+              const totals = data && scheduleTotals(data.sections, data.courses);
+              const availability = data ? data.sections.map(sectionAvailability) : [];
+              const count = (...statuses: SectionAvailability[]) => availability.filter(a => statuses.includes(a)).length;
+
+              return (
+                <div key={schedule.id} className="min-w-0">
+                  <div className="flex justify-between items-start gap-2 mb-2">
+                    <div className="min-w-0">
+                      <div className="font-semibold truncate">{schedule.name}</div>
+                      <div className="text-gray-500">{termToSeason(schedule.term)} {schedule.year}</div>
+                    </div>
+                    <button
+                      onClick={() => {
+                        onOpen(schedule.id);
+                        onClose();
+                      }}
+                      className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 cursor-pointer"
+                    >
+                      Open
+                    </button>
+                  </div>
+
+                  {!data ? (
+                    <p className="text-gray-400">Loading sections...</p>
+                  ) : (
+                    <>
+                      {/* Mini week calendar */}
+                      <div className="flex border rounded mb-2">
+                        {DAY_NAMES.slice(0, dayCount).map((dayName, day) => (
+                          <div key={day} className="flex-1 border-l first:border-l-0 min-w-0">
+                            <div className="text-xs text-center text-gray-500 border-b">{dayName}</div>
+                            <div className="relative" style={{ height: (lastHour - firstHour) * HOUR_HEIGHT }}>
+                              {meetings.filter(meeting => meeting.day === day).map((meeting, idx) => (
+                                <div
+                                  key={idx}
+                                  className={`absolute inset-x-0.5 rounded-sm overflow-hidden text-[10px] leading-tight px-0.5 ${AVAILABILITY_COLORS[sectionAvailability(meeting.section)]} ${isShared(meeting.section.crn.toString()) ? '' : 'ring-2 ring-amber-500'}`}
+                                  style={{
+                                    top: (meeting.start / 60 - firstHour) * HOUR_HEIGHT,
+                                    height: (meeting.end - meeting.start) / 60 * HOUR_HEIGHT
+                                  }}
+                                  title={`${sectionName(meeting.section)} ${formatMinutes(meeting.start)}–${formatMinutes(meeting.end)}`}
+                                >
+                                  {meeting.section.subject} {meeting.section.course_code}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+
+                      <dl className="grid grid-cols-2 gap-x-2 mb-2">
+                        <dt className="text-gray-500">Credits</dt>
+                        <dd>{formatHours(totals!.credits)}{totals!.unknownCredits > 0 && ` (+${totals!.unknownCredits} unknown)`}</dd>
+                        <dt className="text-gray-500">Days on campus</dt>
+                        <dd>{totals!.campusDays}</dd>
+                        <dt className="text-gray-500">Earliest start</dt>
+                        <dd>{meetings.length > 0 ? formatMinutes(Math.min(...meetings.map(m => m.start))) : '–'}</dd>
+                        <dt className="text-gray-500">Latest end</dt>
+                        <dd>{meetings.length > 0 ? formatMinutes(Math.max(...meetings.map(m => m.end))) : '–'}</dd>
+                        <dt className="text-gray-500">Seats</dt>
+                        <dd>
+                          {count('open')} open
+                          {count('waitlist') > 0 && `, ${count('waitlist')} waitlist`}
+                          {count('full', 'long-waitlist', 'cancelled') > 0 && (
+                            <span className="text-red-700">, {count('full', 'long-waitlist', 'cancelled')} full or cancelled</span>
+                          )}
+                        </dd>
+                      </dl>
+
+                      <ul className="space-y-0.5">
+                        {data.sections.map(section => (
+                          <li
+                            key={section.id}
+                            className={`flex items-center gap-1 px-1 rounded ${isShared(section.crn.toString()) ? '' : 'bg-amber-100'}`}
+                            title={isShared(section.crn.toString()) ? 'In every compared schedule' : 'Not in every compared schedule'}
+                          >
+                            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${AVAILABILITY_COLORS[sectionAvailability(section)]}`} />
+                            <span className="truncate">{sectionName(section)}</span>
+                            <span className="text-gray-500 ml-auto">{section.crn}</span>
+                          </li>
+                        ))}
+                        {schedule.crns.filter(crn => !data.sections.some(section => section.crn.toString() === crn)).map(crn => (
+                          <li key={crn} className="px-1 text-gray-500">CRN {crn} isn&apos;t offered anymore</li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 mt-4">
+          Sections that aren&apos;t in every compared schedule are highlighted.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CompareSchedules;
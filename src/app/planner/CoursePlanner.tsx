@@ -8,18 +8,38 @@ import timeGridPlugin from '@fullcalendar/timegrid';
 import interactionPlugin from '@fullcalendar/interaction';
 import { EventInput, EventClickArg } from '@fullcalendar/core';
 
-import { plannerApi, termToSeason, getSemesterDates } from '@/lib/planner-api';
-import {
-  Section,
-  PlannerCourse,
-  Semester,
-  Schedule,
-  SavedSchedule
-} from '@/types/Planner2';
+import { apiClient } from '@/lib/api-client';
+import { CachedData, getCachedSemesterCourses, getCachedSemesters } from '@/lib/offline-cache';
+import { formatTotals, isOverloaded, scheduleTotals, ScheduleTotals, useLoadThresholds } from '@/lib/course-load';
+import { CompletedCourse, useCompletedCourses } from '@/lib/completed-courses';
+import { ImportResult } from '@/lib/schedule-backup';
+import { findScheduleChanges, pruneSnapshots, SectionChange, snapshotSection, suggestReplacements, withSnapshots } from '@/lib/schedule-changes';
+import { decodeShareLink, SharedSchedule, ShareLinkError } from '@/lib/share-links';
+import { emptyUndoStack, loadRevisions, pushEdit, recordRevision, redoEdit, ScheduleRevision, undoEdit, UndoStack } from '@/lib/planner-history';
+import { addSchedule, loadCurrentScheduleId, loadSchedules, MAX_SCHEDULES, sameCrns, saveCurrentScheduleId, saveSchedules, subscribeToSchedules } from '@/lib/schedule-storage';
+import { countActiveFilters, DEFAULT_PLANNER_FILTERS, FILTER_DAYS, PlannerFilters, sectionAvailability, sectionMatchesFilters, withDefaultFilters } from '@/lib/section-filters';
+import { buildSectionSearchIndex, isOnlineSection, searchSections } from '@/lib/section-search';
+import { useWatchedSections } from '@/lib/section-watch';
+import { addDays, estimateSemesterCalendar, getSemesterCalendar, recurrenceRanges, SemesterCalendar, termToSeason } from '@/lib/semester-calendar';
+import { PlannerCourse, SavedSchedule } from '@/types/Planner2';
+import { Course, Semester } from '@/types/Course';
+import { Schedule, Section } from '@/types/Section';
 import Link from 'next/link';
 import { Virtuoso } from 'react-virtuoso';
 import Header from '@/components/shared/header';
 import EventDetailsPopup from '@/app/planner/EventDetailsPopup';
+import ExamSchedule from '@/app/planner/ExamSchedule';
+import LoadSummary from '@/app/planner/LoadSummary';
+import BackupModal from '@/app/planner/BackupModal';
+import CompareSchedules from '@/app/planner/CompareSchedules';
+import ShareModal from '@/app/planner/ShareModal';
+import ScheduleChanges from '@/app/planner/ScheduleChanges';
+import SharedLinkPreview from '@/app/planner/SharedLinkPreview';
+import WatchListModal from '@/app/planner/WatchListModal';
+import { generateICS } from '@/utils/icsExport';
+import { getOverlap, sectionConflicts } from '@/utils/timetableGenerator';
+import PrerequisiteBadge from '@/components/shared/prerequisite-badge';
+import WatchButton from '@/components/shared/watch-button';
 // import ScheduleDebugger from '@/app/planner/ScheduleDebugger';
 
 interface PlannerProps {
@@ -27,15 +47,72 @@ interface PlannerProps {
   initialTerm?: number;
 }
 
+// A pair of selected sections that meet at the same time
+interface SectionConflict {
+  first: Section;
+  second: Section;
+  days: number[];
+  start: number;
+  end: number;
+}
+
+// One step of the undo history
+type PlannerEdit =
+  // the selected crns of a schedule
+  | { kind: 'selection'; label: string; scheduleId: string | null; before: string[]; after: string[] }
+  // a saved schedule being renamed, deleted or restored; null = doesn't exist
+  | {
+    kind: 'schedule';
+    label: string;
+    index: number;
+    before: SavedSchedule | null;
+    after: SavedSchedule | null;
+    currentBefore: string | null;
+    currentAfter: string | null;
+  };
+
+// index 0 = Monday, same as the conflict checker
+const CONFLICT_DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const SEARCH_HELP = [
+  'Search by course, title, instructor, CRN or room, e.g. cpsc 1150',
+  'Filters:',
+  '  instructor:smith  subject:cpsc  code:1150  title:  room:  crn:',
+  '  days:MW (only meets on these days, R = Thursday)',
+  '  after:10:00  before:3pm',
+  '  open:true  online:false',
+].join('\n');
+
+// "14:05", or "Mar 3, 14:05" if it wasn't today
+const formatTimestamp = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${time}`;
+};
+
+// the calendar only shows saturdays when a selected section meets on one
+const hasWeekendClasses = (section: Section): boolean =>
+  section.schedule.some((s: Schedule) => s.type !== 'Exam' && s.days.includes('S'));
+
+// minutes from midnight -> 10:30
+const formatMinutes = (minutes: number): string =>
+  `${Math.floor(minutes / 60)}:${(minutes % 60).toString().padStart(2, '0')}`;
+
 // Save bar component
 const SaveBar = ({
   currentYear,
   currentTerm,
   selectedSections,
   allSections,
+  courses,
   currentScheduleId,
   onScheduleSelect,
   onInitialScheduleSet,
+  onScheduleEdit,
+  onRestoreRevision,
+  schedulesVersion,
   hasInitialized,
   className = ""
 }: {
@@ -43,9 +120,16 @@ const SaveBar = ({
   currentTerm: number;
   selectedSections: Set<string>;
   allSections: Section[];
+  // the loaded semester, for the totals on the schedule chips
+  courses: Course[];
   currentScheduleId: string | null;
   onScheduleSelect: (scheduleId: string) => void;
   onInitialScheduleSet: (scheduleId: string) => void;
+  // renames and deletes go through the planner so that they can be undone
+  onScheduleEdit: (edit: PlannerEdit) => void;
+  onRestoreRevision: (revision: ScheduleRevision) => void;
+  // bumped when the planner changes the saved schedules (undo / redo)
+  schedulesVersion: number;
   hasInitialized: boolean;
   className?: string;
 }) => {
@@ -54,36 +138,17 @@ const SaveBar = ({
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [schedulesLoaded, setSchedulesLoaded] = useState(false);
-
-  // localStorage utility functions - always use these for data operations
-  const loadSchedulesFromStorage = (): SavedSchedule[] => {
-    try {
-      const saved = localStorage.getItem('langara-saved-schedules');
-      if (!saved) return [];
-      return JSON.parse(saved);
-    } catch (error) {
-      console.error('Failed to load schedules from localStorage:', error);
-      return [];
-    }
-  };
-
+  const [revisions, setRevisions] = useState<ScheduleRevision[] | null>(null);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  // courses of the other semesters that have saved schedules, by `${year}-${term}`
+  const [semesterCourses, setSemesterCourses] = useState<Record<string, Course[]>>({});
+  const [loadThresholds] = useLoadThresholds();
+
+  // Storage goes through lib/schedule-storage, this also updates the render state
   const saveSchedulesToStorage = (schedules: SavedSchedule[]): void => {
-    try {
-      localStorage.setItem('langara-saved-schedules', JSON.stringify(schedules));
-      // Update state to trigger re-render
+    if (saveSchedules(schedules)) {
       setSchedulesForRender([...schedules]);
-    } catch (error) {
-      console.error('Failed to save schedules to localStorage:', error);
-    }
-  };
-
-
-
-  const setCurrentScheduleInStorage = (scheduleId: string): void => {
-    try {
-      localStorage.setItem('langara-current-schedule-id', scheduleId);
-    } catch (error) {
-      console.error('Failed to set current schedule in localStorage:', error);
     }
   };
 
@@ -92,7 +157,7 @@ const SaveBar = ({
     // Only proceed after initialization is complete
     if (!hasInitialized) return;
 
-    let schedules = loadSchedulesFromStorage();
+    let schedules = loadSchedules();
 
     // If no schedules exist, create a default schedule with the current semester
     if (schedules.length === 0) {
@@ -110,7 +175,7 @@ const SaveBar = ({
 
       // Set this as the current schedule
       onInitialScheduleSet(defaultSchedule.id);
-      setCurrentScheduleInStorage(defaultSchedule.id);
+      saveCurrentScheduleId(defaultSchedule.id);
     } else {
       // Just update the render state with existing schedules
       setSchedulesForRender([...schedules]);
@@ -119,6 +184,53 @@ const SaveBar = ({
     setSchedulesLoaded(true);
   }, [hasInitialized, currentYear, currentTerm, onInitialScheduleSet]);
 
+  // Pick up changes the planner made to the saved schedules
+  useEffect(() => {
+    if (schedulesLoaded) {
+      setSchedulesForRender(loadSchedules());
+    }
+  }, [schedulesVersion, schedulesLoaded]);
+
+  // Other semesters' courses are only loaded for the compare view, their chips show totals once they are opened
+  // the semesters loading or loaded, kept in a ref so that storing a result doesn't start the loads again
+  const requestedSemestersRef = useRef(new Set<string>());
+  const loadSemester = useCallback(async (year: number, term: number) => {
+    const semester = `${year}-${term}`;
+    const requested = requestedSemestersRef.current;
+    // the planner's own semester is already in courses
+    if (requested.has(semester) || (year === currentYear && term === currentTerm)) return;
+
+    requested.add(semester);
+    try {
+      const { data } = await getCachedSemesterCourses(year, term);
+      setSemesterCourses(prev => ({ ...prev, [semester]: data }));
+    } catch (error) {
+      // tried again the next time it is needed
+      requested.delete(semester);
+      console.error(`Failed to load ${semester} for comparing schedules:`, error);
+    }
+  }, [currentYear, currentTerm]);
+
+  // Sections of a saved schedule and the courses of its semester, null while the semester is loading
+  const getScheduleSections = (schedule: SavedSchedule): { sections: Section[]; courses: Course[] } | null => {
+    // the current schedule's selection may not be saved yet
+    if (schedule.id === currentScheduleId) {
+      return { sections: allSections.filter(s => selectedSections.has(s.id)), courses };
+    }
+
+    const isLoaded = schedule.year === currentYear && schedule.term === currentTerm;
+    const semesterData = isLoaded ? courses : semesterCourses[`${schedule.year}-${schedule.term}`];
+    if (!semesterData) return null;
+
+    const sections = semesterData.flatMap(course => course.sections).filter(s => schedule.crns.includes(s.crn.toString()));
+    return { sections, courses: semesterData };
+  };
+
+  const getScheduleTotals = (schedule: SavedSchedule): ScheduleTotals | null => {
+    const data = getScheduleSections(schedule);
+    return data && scheduleTotals(data.sections, data.courses);
+  };
+
   // Get current CRNs from selected sections
   const getCurrentCRNs = (): string[] => {
     return Array.from(selectedSections)
@@ -131,7 +243,7 @@ const SaveBar = ({
 
   // Create a new empty schedule
   const saveCurrentSchedule = () => {
-    const existingSchedules = loadSchedulesFromStorage();
+    const existingSchedules = loadSchedules();
 
     const newSchedule: SavedSchedule = {
       id: Date.now().toString(),
@@ -142,7 +254,7 @@ const SaveBar = ({
       createdAt: Date.now()
     };
 
-    const updated = [...existingSchedules, newSchedule].slice(0, 50); // Cap at 50
+    const updated = [...existingSchedules, newSchedule].slice(0, MAX_SCHEDULES);
 
     console.log('Creating new schedule:', newSchedule);
     saveSchedulesToStorage(updated);
@@ -153,7 +265,7 @@ const SaveBar = ({
 
   // Copy current schedule as a new one with current selections
   const copyCurrentSchedule = () => {
-    const existingSchedules = loadSchedulesFromStorage();
+    const existingSchedules = loadSchedules();
     const crns = getCurrentCRNs();
     const currentSchedule = existingSchedules.find(s => s.id === currentScheduleId);
 
@@ -163,10 +275,11 @@ const SaveBar = ({
       year: currentYear,
       term: currentTerm,
       crns, // Copy current courses
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      filters: currentSchedule?.filters
     };
 
-    const updated = [...existingSchedules, newSchedule].slice(0, 50); // Cap at 50
+    const updated = [...existingSchedules, newSchedule].slice(0, MAX_SCHEDULES);
     saveSchedulesToStorage(updated);
     console.log("Created schedule copy:", newSchedule);
 
@@ -182,26 +295,31 @@ const SaveBar = ({
   // Delete a schedule from localStorage
   const deleteSchedule = (id: string) => {
     if (confirm('Are you sure you want to delete this schedule?')) {
-      const existingSchedules = loadSchedulesFromStorage();
-      const updated = existingSchedules.filter(s => s.id !== id);
-      saveSchedulesToStorage(updated);
-
-      // If we deleted the current schedule, select the first remaining one
-      if (currentScheduleId === id) {
-        if (updated.length > 0) {
-          onScheduleSelect(updated[0].id);
-        } else {
-          // No schedules left, clear the current schedule from localStorage
-          try {
-            localStorage.removeItem('langara-current-schedule-id');
-          } catch (error) {
-            console.error('Failed to clear current schedule ID:', error);
-          }
-        }
-      }
+      const existingSchedules = loadSchedules();
+      const index = existingSchedules.findIndex(s => s.id === id);
+      if (index === -1) return;
+      const remaining = existingSchedules.filter(s => s.id !== id);
+
+      onScheduleEdit({
+        kind: 'schedule',
+        label: `Delete ${existingSchedules[index].name}`,
+        index,
+        before: existingSchedules[index],
+        after: null,
+        currentBefore: currentScheduleId,
+        // If we deleted the current schedule, select the first remaining one
+        currentAfter: currentScheduleId === id ? remaining[0]?.id ?? null : currentScheduleId
+      });
     }
   };
 
+  // Merge schedules from a backup file, then open the schedule that was current in the backup
+  const importBackup = (result: ImportResult) => {
+    saveSchedulesToStorage(result.schedules);
+    const scheduleId = result.currentScheduleId ?? currentScheduleId;
+    if (scheduleId) onScheduleSelect(scheduleId);
+  };
+
   // Start editing a schedule name
   const startEditing = (schedule: SavedSchedule) => {
     setEditingId(schedule.id);
@@ -211,12 +329,20 @@ const SaveBar = ({
   // Save name edit to localStorage
   const saveNameEdit = () => {
     if (editingId && editingName.trim()) {
-      const existingSchedules = loadSchedulesFromStorage();
-      const updated = existingSchedules.map(s =>
-        s.id === editingId ? { ...s, name: editingName.trim() } : s
-      );
-      saveSchedulesToStorage(updated);
-      console.log('Updated schedule name:', editingId, editingName.trim());
+      const existingSchedules = loadSchedules();
+      const index = existingSchedules.findIndex(s => s.id === editingId);
+      if (index !== -1 && existingSchedules[index].name !== editingName.trim()) {
+        onScheduleEdit({
+          kind: 'schedule',
+          label: `Rename ${existingSchedules[index].name}`,
+          index,
+          before: existingSchedules[index],
+          after: { ...existingSchedules[index], name: editingName.trim() },
+          currentBefore: currentScheduleId,
+          currentAfter: currentScheduleId
+        });
+        console.log('Updated schedule name:', editingId, editingName.trim());
+      }
     }
     setEditingId(null);
     setEditingName('');
@@ -271,6 +397,19 @@ const SaveBar = ({
                   >
                     {schedule.name}
                   </button>
+                  {(() => {
+                    const totals = getScheduleTotals(schedule);
+                    if (!totals || totals.sections === 0) return null;
+                    const overloaded = isOverloaded(totals, loadThresholds);
+                    return (
+                      <span
+                        className={`text-xs whitespace-nowrap ${overloaded ? 'text-red-600' : 'text-gray-500'}`}
+                        title={overloaded ? `Over ${loadThresholds.maxCredits} credits` : 'Credits, hours per week and days on campus'}
+                      >
+                        {formatTotals(totals)}
+                      </span>
+                    );
+                  })()}
                   <button
                     onClick={() => startEditing(schedule)}
                     className="p-1 cursor-pointer text-xs text-gray-500 hover:text-gray-700"
@@ -290,6 +429,21 @@ const SaveBar = ({
             </div>
           ))}
 
+          <button
+            onClick={() => currentScheduleId && setRevisions(loadRevisions(currentScheduleId))}
+            className="bg-gray-500 text-white px-3 py-1 rounded text-sm hover:bg-gray-600 whitespace-nowrap cursor-pointer"
+            title="Earlier versions of the current schedule"
+          >
+            History
+          </button>
+          <button
+            onClick={() => setIsCompareOpen(true)}
+            disabled={schedulesForRender.length < 2}
+            className="bg-gray-500 text-white px-3 py-1 rounded text-sm hover:bg-gray-600 whitespace-nowrap cursor-pointer disabled:opacity-40 disabled:cursor-default"
+            title="Compare saved schedules side by side"
+          >
+            Compare
+          </button>
           <button
             onClick={copyCurrentSchedule}
             className="bg-green-500 text-white px-3 py-1 rounded text-sm hover:bg-green-600 whitespace-nowrap cursor-pointer"
@@ -304,6 +458,13 @@ const SaveBar = ({
           >
             + New
           </button>
+          <button
+            onClick={() => setIsBackupOpen(true)}
+            className="bg-gray-500 text-white px-3 py-1 rounded text-sm hover:bg-gray-600 whitespace-nowrap cursor-pointer"
+            title="Download or import a backup of all your schedules"
+          >
+            Backup
+          </button>
         </div>
       ) : (
         <div className="h-12 bg-white border-b shadow-sm px-4 py-2 "></div>
@@ -312,6 +473,76 @@ const SaveBar = ({
         //   {/* <div className="text-sm text-gray-500">Loading schedules...</div> */}
         // </div>
       )}
+
+      <BackupModal
+        isOpen={isBackupOpen}
+        onClose={() => setIsBackupOpen(false)}
+        onImport={importBackup}
+      />
+
+      {isCompareOpen && (
+        <CompareSchedules
+          onClose={() => setIsCompareOpen(false)}
+          schedules={schedulesForRender}
+          initialIds={schedulesForRender
+            .map(s => s.id)
+            .sort((a, b) => Number(b === currentScheduleId) - Number(a === currentScheduleId))
+            .slice(0, 2)}
+          getSections={getScheduleSections}
+          loadSemester={loadSemester}
+          onOpen={onScheduleSelect}
+        />
+      )}
+
+      {revisions && (
+        <div
+          className="fixed inset-0 flex items-center justify-center z-50"
+          style={{ backgroundColor: 'rgba(249, 250, 251, 0.5)' }}
+          onClick={() => setRevisions(null)}
+        >
+          <div
+            className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">Schedule History</h3>
+              <button onClick={() => setRevisions(null)} className="text-gray-500 hover:text-gray-700 cursor-pointer">
+                ✕
+              </button>
+            </div>
+
+            {revisions.length === 0 ? (
+              <p className="text-sm text-gray-600">No earlier versions of this schedule yet.</p>
+            ) : (
+              <ul className="max-h-80 overflow-y-auto divide-y text-sm">
+                {revisions.map((revision, index) => (
+                  <li key={revision.savedAt} className="flex items-center justify-between py-2">
+                    <div>
+                      <div className="font-medium">{formatTimestamp(revision.savedAt)}</div>
+                      <div className="text-gray-500">
+                        {revision.crns.length} section{revision.crns.length !== 1 ? 's' : ''}, {termToSeason(revision.term)} {revision.year}
+                      </div>
+                    </div>
+                    {index === 0 ? (
+                      <span className="text-gray-500">Current</span>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          onRestoreRevision(revision);
+                          setRevisions(null);
+                        }}
+                        className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 cursor-pointer"
+                      >
+                        Restore
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -330,17 +561,39 @@ const CoursePlanner: React.FC<PlannerProps> = ({
   const [currentYear, setCurrentYear] = useState(initialYear);
   const [currentTerm, setCurrentTerm] = useState(initialTerm);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredSections, setFilteredSections] = useState<string[]>([]);
+  const [filters, setFilters] = useState<PlannerFilters>(DEFAULT_PLANNER_FILTERS);
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoStack<PlannerEdit>>(emptyUndoStack);
+  const [schedulesVersion, setSchedulesVersion] = useState(0);
   const [selectedSections, setSelectedSections] = useState<Set<string>>(new Set());
   const [hoveredSection, setHoveredSection] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [saturdayCoursesCount, setSaturdayCoursesCount] = useState(0);
+  const [loadThresholds, setLoadThresholds] = useLoadThresholds();
+  const watchedSections = useWatchedSections();
+  const watchedIds = useMemo(() => new Set(watchedSections.map(w => w.id)), [watchedSections]);
+  const [isWatchListOpen, setIsWatchListOpen] = useState(false);
+  const [calendarTab, setCalendarTab] = useState<'timetable' | 'exams'>('timetable');
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+  // schedules from a share link the planner was opened with
+  const [sharedSchedules, setSharedSchedules] = useState<SharedSchedule[] | null>(null);
+  const [shareLinkError, setShareLinkError] = useState<string | null>(null);
+  const [isSharePreviewOpen, setIsSharePreviewOpen] = useState(false);
+  // a shared schedule shown without saving it, edits are disabled while it's on screen
+  const [viewingShared, setViewingShared] = useState<SharedSchedule | null>(null);
+  // sections of the current schedule that were cancelled, changed or removed since they were added
+  const [scheduleChanges, setScheduleChanges] = useState<SectionChange[]>([]);
+  // crns whose change the user has already handled, kept when the course data is refreshed in the background
+  const [handledChangeCrns, setHandledChangeCrns] = useState<Set<string>>(new Set());
+  const [semesterCalendar, setSemesterCalendar] = useState<SemesterCalendar>(() => estimateSemesterCalendar(initialYear, initialTerm));
   const [currentScheduleId, setCurrentScheduleId] = useState<string | null>(
-    typeof window !== 'undefined' ? localStorage.getItem('langara-current-schedule-id') : null
+    typeof window !== 'undefined' ? loadCurrentScheduleId() : null
   );
   const [hasInitialized, setHasInitialized] = useState(false);
   const [isProcessingUrl, setIsProcessingUrl] = useState(true);
+  // when the course data on screen was fetched from the api, it may come from the offline cache
+  const [dataFetchedAt, setDataFetchedAt] = useState<number | null>(null);
+  const [isOnline, setIsOnline] = useState(true);
   const [eventDetailsPopup, setEventDetailsPopup] = useState<{
     isOpen: boolean;
     eventData: {
@@ -358,97 +611,27 @@ const CoursePlanner: React.FC<PlannerProps> = ({
 
   // Refs
   const calendarRef = useRef<FullCalendar>(null);
-  const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-  // localStorage utility functions - centralized data management
-  const loadSchedulesFromStorage = (): SavedSchedule[] => {
-    try {
-      const saved = localStorage.getItem('langara-saved-schedules');
-      if (!saved) return [];
-      return JSON.parse(saved);
-    } catch (error) {
-      console.error('Failed to load schedules from localStorage:', error);
-      return [];
-    }
-  };
-
-  const saveSchedulesToStorage = (schedules: SavedSchedule[]): void => {
-    try {
-      localStorage.setItem('langara-saved-schedules', JSON.stringify(schedules));
-    } catch (error) {
-      console.error('Failed to save schedules to localStorage:', error);
-    }
-  };
-
-  const setCurrentScheduleInStorage = (scheduleId: string): void => {
-    try {
-      localStorage.setItem('langara-current-schedule-id', scheduleId);
-    } catch (error) {
-      console.error('Failed to set current schedule in localStorage:', error);
-    }
-  };
+  // the semester being shown, so that a late background refresh of another semester is ignored
+  const loadedSemesterRef = useRef<string | null>(null);
+  // the schedule (id and semester) whose sections were last restored and compared with the course data
+  const checkedScheduleRef = useRef<string | null>(null);
 
   // URL processing effect - handle shared links
   useEffect(() => {
-    const processUrlParams = async () => {
-      const urlYear = searchParams.get('y');
-      const urlTerm = searchParams.get('t');
-      const urlCrns = searchParams.get('crns');
-
-      if (urlYear && urlTerm && urlCrns) {
-        try {
-          const year = parseInt(urlYear);
-          const term = parseInt(urlTerm);
-          const crns = urlCrns.split(',').filter(Boolean);
-
-          console.log('Processing shared link:', { year, term, crns });
-
-          // Load courses for the specified semester
-          const coursesData = await plannerApi.getCoursesForSemester(year, term);
-
-          // Find sections by CRN
-          const foundSections = new Set<string>();
-          coursesData.courses.forEach(course => {
-            course.sections.forEach(section => {
-              if (crns.includes(section.crn.toString())) {
-                console.log('Found matching section:', section.crn, section.id);
-                foundSections.add(section.id);
-              }
-            });
-          });
-
-          console.log('Found sections to select:', foundSections);
-
-          // Create a new schedule for the shared link
-          const newSchedule: SavedSchedule = {
-            id: `shared-${Date.now()}`,
-            name: `Shared Schedule`,
-            year,
-            term,
-            crns,
-            createdAt: Date.now()
-          };
-
-          // Save the new schedule to localStorage
-          const existingSchedules = loadSchedulesFromStorage();
-          const updatedSchedules = [...existingSchedules, newSchedule];
-          saveSchedulesToStorage(updatedSchedules);
-
-          // Set the state for the shared schedule
-          setCurrentYear(year);
-          setCurrentTerm(term);
-          setSelectedSections(foundSections);
-          setCurrentScheduleId(newSchedule.id);
-          setCurrentScheduleInStorage(newSchedule.id);
-
-          // Clean up URL parameters
+    const processUrlParams = () => {
+      try {
+        const shared = decodeShareLink(searchParams);
+        if (shared) {
+          setSharedSchedules(shared);
+          setIsSharePreviewOpen(true);
+          // Clean up URL parameters, nothing is saved until the user picks what to do in the preview
           router.replace('/planner', { scroll: false });
-
-          console.log('Shared schedule processed successfully with', foundSections.size, 'sections');
-
-        } catch (error) {
-          console.error('Failed to process shared schedule:', error);
         }
+      } catch (error) {
+        if (!(error instanceof ShareLinkError)) throw error;
+        setShareLinkError(error.message);
+        setIsSharePreviewOpen(true);
+        router.replace('/planner', { scroll: false });
       }
 
       setIsProcessingUrl(false);
@@ -458,11 +641,52 @@ const CoursePlanner: React.FC<PlannerProps> = ({
   }, [searchParams, router]);
 
   // Get all sections from courses (simple, no pre-processing)
-  const allSections = courses.flatMap(course =>
+  // memoized, the memos and effects below depend on it and would otherwise run on every render
+  const allSections = useMemo(() => courses.flatMap(course =>
     course.sections.map((section: Section) => ({
       ...section,
       parent: course
     }))
+  ), [courses]);
+  // for the effects that need the sections but shouldn't run again just because they were refreshed
+  const allSectionsRef = useRef(allSections);
+  allSectionsRef.current = allSections;
+
+  // "SUBJ 1234" -> course, for the section rows
+  const coursesByCode = useMemo(
+    () => new Map(courses.map(course => [`${course.subject} ${course.course_code}`, course])),
+    [courses]
+  );
+  const [completedCourses] = useCompletedCourses();
+
+  const selectedSectionList = useMemo(
+    () => allSections.filter(section => selectedSections.has(section.id)),
+    [allSections, selectedSections]
+  );
+
+  // The search runs in the browser over the loaded semester, so results update on every keystroke and work offline
+  const searchIndex = useMemo(() => buildSectionSearchIndex(courses), [courses]);
+  const searchResult = useMemo(() => searchSections(searchIndex, searchQuery), [searchIndex, searchQuery]);
+
+  // then the filter panel; selected sections are never hidden as conflicting with themselves
+  const filteredSections = useMemo(() => {
+    const sectionsById = new Map(courses.flatMap(course => course.sections).map(section => [section.id, section]));
+    const selected = [...selectedSections]
+      .map(id => sectionsById.get(id))
+      .filter((section): section is Section => section !== undefined);
+
+    return searchResult.ids.filter(id => {
+      const section = sectionsById.get(id);
+      if (!section || !sectionMatchesFilters(section, filters)) return false;
+      return !filters.hideConflicts || selectedSections.has(id) || !sectionConflicts(section, selected);
+    });
+  }, [courses, searchResult, filters, selectedSections]);
+
+  const instructors = useMemo(() =>
+    [...new Set(courses.flatMap(course => course.sections.flatMap(section => section.schedule.map(s => s.instructor))))]
+      .filter(instructor => instructor && instructor !== 'TBA')
+      .sort(),
+    [courses]
   );
 
   // Single initialization effect - determines semester and schedules
@@ -475,8 +699,8 @@ const CoursePlanner: React.FC<PlannerProps> = ({
       let targetScheduleId: string | null = null;
 
       // Check for existing schedules first
-      const existingSchedules = loadSchedulesFromStorage();
-      const currentId = localStorage.getItem('langara-current-schedule-id');
+      const existingSchedules = loadSchedules();
+      const currentId = loadCurrentScheduleId();
 
       if (existingSchedules.length > 0) {
         // We have existing schedules - use the current schedule's semester
@@ -497,7 +721,7 @@ const CoursePlanner: React.FC<PlannerProps> = ({
       } else {
         // No existing schedules - get latest semester and we'll create a default schedule
         try {
-          const latestSemester = await plannerApi.getLatestSemester();
+          const latestSemester = await apiClient.getLatestSemester();
           targetYear = latestSemester.year;
           targetTerm = latestSemester.term;
           console.log('No schedules found, will use latest semester:', latestSemester);
@@ -513,7 +737,7 @@ const CoursePlanner: React.FC<PlannerProps> = ({
       // Set the current schedule if we found one
       if (targetScheduleId) {
         setCurrentScheduleId(targetScheduleId);
-        setCurrentScheduleInStorage(targetScheduleId);
+        saveCurrentScheduleId(targetScheduleId);
       }
 
       setHasInitialized(true);
@@ -522,6 +746,24 @@ const CoursePlanner: React.FC<PlannerProps> = ({
     initialize();
   }, [hasInitialized, currentYear, currentTerm]);
 
+  // Called when a stale cached semester has been refetched in the background
+  const showRefreshedCourses = useCallback((year: number, term: number) => (fresh: CachedData<Course[]>) => {
+    if (loadedSemesterRef.current !== `${year}-${term}`) return;
+    setCourses(fresh.data);
+    setDataFetchedAt(fresh.fetchedAt);
+  }, []);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    updateOnline();
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
   // Load a saved schedule
   const loadSavedSchedule = useCallback(async (year: number, term: number, crns: string[]) => {
     try {
@@ -534,12 +776,16 @@ const CoursePlanner: React.FC<PlannerProps> = ({
       setSelectedSections(new Set());
 
       // Load courses for the specified semester
-      const coursesData = await plannerApi.getCoursesForSemester(year, term);
-      setCourses(coursesData.courses);
+      const semesterData = await getCachedSemesterCourses(year, term, showRefreshedCourses(year, term));
+      const coursesData = semesterData.data;
+      loadedSemesterRef.current = `${year}-${term}`;
+      setCourses(coursesData);
+      setDataFetchedAt(semesterData.fetchedAt);
 
       // Find sections by CRN and select them
+      // crns that aren't found stay in the saved schedule, the change alerts tell the user about them
       const foundSections = new Set<string>();
-      coursesData.courses.forEach(course => {
+      coursesData.forEach(course => {
         course.sections.forEach(section => {
           if (crns.includes(section.crn.toString())) {
             // console.log('Found matching section:', section.crn, section.id);
@@ -551,17 +797,13 @@ const CoursePlanner: React.FC<PlannerProps> = ({
       // console.log('Selected sections:', foundSections);
       setSelectedSections(foundSections);
 
-      // Load all sections for search
-      const searchResults = await plannerApi.searchSections('', year, term);
-      setFilteredSections(searchResults.sections);
-
       console.log('Saved schedule loaded successfully');
     } catch (error) {
       console.error('Failed to load saved schedule:', error);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [showRefreshedCourses]);
 
   // Load initial data
   useEffect(() => {
@@ -570,17 +812,15 @@ const CoursePlanner: React.FC<PlannerProps> = ({
     const loadInitialData = async () => {
       try {
         setLoading(true);
-        const [semestersData, coursesData] = await Promise.all([
-          plannerApi.getSemesters(),
-          plannerApi.getCoursesForSemester(currentYear, currentTerm)
+        const [semestersData, semesterData] = await Promise.all([
+          getCachedSemesters(fresh => setSemesters(fresh.data.semesters)),
+          getCachedSemesterCourses(currentYear, currentTerm, showRefreshedCourses(currentYear, currentTerm))
         ]);
 
-        setSemesters(semestersData.semesters);
-        setCourses(coursesData.courses);
-
-        // Initial search to show all courses
-        const searchResults = await plannerApi.searchSections('', currentYear, currentTerm);
-        setFilteredSections(searchResults.sections);
+        setSemesters(semestersData.data.semesters);
+        loadedSemesterRef.current = `${currentYear}-${currentTerm}`;
+        setCourses(semesterData.data);
+        setDataFetchedAt(semesterData.fetchedAt);
       } catch (error) {
         console.error('Failed to load initial data:', error);
       } finally {
@@ -589,60 +829,61 @@ const CoursePlanner: React.FC<PlannerProps> = ({
     };
 
     loadInitialData();
-  }, [currentYear, currentTerm, hasInitialized]);
+  }, [currentYear, currentTerm, hasInitialized, showRefreshedCourses]);
 
   // Load current schedule's sections after courses are loaded (for page refresh)
+  // This runs once per opened schedule, a background refresh of the courses only updates the change alerts
   useEffect(() => {
-    if (!loading && currentScheduleId && courses.length > 0) {
-      // Get current schedule from localStorage
-      const currentSchedule = (() => {
-        try {
-          const schedules = loadSchedulesFromStorage();
-          return schedules.find(s => s.id === currentScheduleId) || null;
-        } catch (error) {
-          console.error('Failed to get current schedule:', error);
-          return null;
-        }
-      })();
+    if (loading || !currentScheduleId || courses.length === 0 || viewingShared) return;
 
-      if (currentSchedule && currentSchedule.crns.length > 0) {
-        // The courses should already be loaded for the correct semester by now
-        // Just find sections by CRN and select them
-        const foundSections = new Set<string>();
+    // Get current schedule from localStorage
+    const currentSchedule = loadSchedules().find(s => s.id === currentScheduleId);
+    if (!currentSchedule) return;
 
-        courses.forEach(course => {
-          course.sections.forEach(section => {
-            if (currentSchedule.crns.includes(section.crn.toString())) {
-              console.log('Found section on refresh:', section.crn, section.id);
-              foundSections.add(section.id);
-            }
-          });
-        });
+    const key = `${currentSchedule.id}-${currentSchedule.year}-${currentSchedule.term}`;
+    const sameSemester = currentSchedule.year === currentYear && currentSchedule.term === currentTerm;
+    const sections = courses.flatMap(course => course.sections);
 
+    if (checkedScheduleRef.current !== key) {
+      if (currentSchedule.crns.length > 0) {
+        // The courses should already be loaded for the correct semester by now
+        // Just find sections by CRN and select them
+        const foundSections = new Set(
+          sections.filter(section => currentSchedule.crns.includes(section.crn.toString())).map(section => section.id)
+        );
         console.log('Setting sections on refresh:', foundSections);
         setSelectedSections(foundSections);
       }
+
+      // Start tracking the sections that aren't yet
+      if (sameSemester) {
+        checkedScheduleRef.current = key;
+        setHandledChangeCrns(new Set());
+        saveSchedules(loadSchedules().map(s =>
+          s.id === currentSchedule.id ? withSnapshots(pruneSnapshots(s), sections) : s
+        ));
+      }
     }
-  }, [loading, currentScheduleId, courses]);
+
+    // Compare the schedule with the latest data
+    if (sameSemester) {
+      setScheduleChanges(findScheduleChanges(currentSchedule, sections));
+    }
+  }, [loading, currentScheduleId, courses, viewingShared, currentYear, currentTerm]);
 
   // Handle schedule selection
   const handleScheduleSelect = (scheduleId: string) => {
     console.log('Selecting schedule:', scheduleId);
     setCurrentScheduleId(scheduleId);
+    setViewingShared(null);
+    setScheduleChanges([]);
+    checkedScheduleRef.current = null;
 
     // Save current schedule ID to localStorage
-    setCurrentScheduleInStorage(scheduleId);
+    saveCurrentScheduleId(scheduleId);
 
     // Always load the schedule's data to ensure consistency
-    const selectedSchedule = (() => {
-      try {
-        const schedules = loadSchedulesFromStorage();
-        return schedules.find(s => s.id === scheduleId) || null;
-      } catch (error) {
-        console.error('Failed to load schedule for selection:', error);
-        return null;
-      }
-    })();
+    const selectedSchedule = loadSchedules().find(s => s.id === scheduleId) || null;
 
     if (selectedSchedule) {
       // Always reload to ensure we have the correct data
@@ -650,57 +891,189 @@ const CoursePlanner: React.FC<PlannerProps> = ({
     }
   };
 
-  // Update current schedule when selections change (but not during loading)
+  // Each schedule keeps its own filters
   useEffect(() => {
-    if (currentScheduleId && !loading) {
-      const crns = Array.from(selectedSections)
-        .map(sectionId => {
-          const section = allSections.find(s => s.id === sectionId);
-          return section?.crn.toString();
-        })
-        .filter((crn): crn is string => Boolean(crn));
+    const currentSchedule = currentScheduleId
+      ? loadSchedules().find(s => s.id === currentScheduleId)
+      : undefined;
+    setFilters(withDefaultFilters(currentSchedule?.filters));
+  }, [currentScheduleId]);
+
+  const updateFilters = (changes: Partial<PlannerFilters>) => {
+    const updated = { ...filters, ...changes };
+    setFilters(updated);
+
+    if (currentScheduleId) {
+      const schedules = loadSchedules();
+      saveSchedules(schedules.map(s =>
+        s.id === currentScheduleId ? { ...s, filters: updated } : s
+      ));
+    }
+  };
 
-      // Update schedule in localStorage immediately
-      try {
-        const schedules = loadSchedulesFromStorage();
-        const updatedSchedules = schedules.map(s =>
-          s.id === currentScheduleId ? { ...s, year: currentYear, term: currentTerm, crns } : s
-        );
-        saveSchedulesToStorage(updatedSchedules);
-        console.log('Updated schedule in localStorage:', currentScheduleId, 'with CRNs:', crns);
-      } catch (error) {
-        console.error('Failed to update schedule in localStorage:', error);
+  const toggleFilterDay = (day: string) => {
+    updateFilters({
+      days: filters.days.includes(day) ? filters.days.filter(d => d !== day) : [...filters.days, day]
+    });
+  };
+
+  // Undo / redo
+
+  const crnsOf = (sectionIds: Set<string>): string[] =>
+    allSections.filter(section => sectionIds.has(section.id)).map(section => section.crn.toString());
+
+  const recordEdit = useCallback((edit: PlannerEdit) => {
+    setUndoStack(stack => pushEdit(stack, edit));
+  }, []);
+
+  // Puts the planner in the state before or after an edit
+  const applyEdit = (edit: PlannerEdit, side: 'before' | 'after') => {
+    if (edit.kind === 'selection') {
+      const crns = edit[side];
+      if (edit.scheduleId === currentScheduleId) {
+        const sections = allSections.filter(section => crns.includes(section.crn.toString()));
+        setSelectedSections(new Set(sections.map(section => section.id)));
+        setSaturdayCoursesCount(sections.filter(hasWeekendClasses).length);
+      } else if (edit.scheduleId) {
+        // the edit was made in another schedule, go back to it
+        const schedules = loadSchedules();
+        const schedule = schedules.find(s => s.id === edit.scheduleId);
+        if (!schedule) return;
+        saveSchedules(schedules.map(s => s.id === schedule.id ? { ...s, crns } : s));
+        recordRevision(schedule, { ...schedule, crns });
+        handleScheduleSelect(schedule.id);
       }
+      return;
     }
-  }, [selectedSections, currentScheduleId, currentYear, currentTerm, allSections, loading]);
 
-  // Simple search functionality with debounce (keep this - it's actually helpful)
-  const handleSearch = useCallback(async (query: string) => {
-    try {
-      const searchResults = await plannerApi.searchSections(query, currentYear, currentTerm);
-      setFilteredSections(searchResults.sections);
-    } catch (error) {
-      console.error('Search failed:', error);
-      setFilteredSections([]);
+    const from = side === 'before' ? edit.after : edit.before;
+    const to = edit[side];
+    const currentTarget = side === 'before' ? edit.currentBefore : edit.currentAfter;
+
+    const schedules = loadSchedules().filter(s => s.id !== (to ?? from)?.id);
+    if (to) schedules.splice(Math.min(edit.index, schedules.length), 0, to);
+    saveSchedules(schedules);
+    if (from && to) recordRevision(from, to);
+    setSchedulesVersion(version => version + 1);
+
+    const contentChanged = !from || !to || from.year !== to.year || from.term !== to.term || !sameCrns(from.crns, to.crns);
+    if (currentTarget && (currentTarget !== currentScheduleId || contentChanged)) {
+      handleScheduleSelect(currentTarget);
+    } else if (!currentTarget) {
+      saveCurrentScheduleId(null);
     }
-  }, [currentYear, currentTerm]);
+  };
 
-  const debouncedSearch = useCallback((query: string) => {
-    if (debounceTimeoutRef.current) {
-      clearTimeout(debounceTimeoutRef.current);
+  // Renames and deletes from the save bar
+  const handleScheduleEdit = (edit: PlannerEdit) => {
+    recordEdit(edit);
+    applyEdit(edit, 'after');
+  };
+
+  const restoreRevision = (revision: ScheduleRevision) => {
+    const schedules = loadSchedules();
+    const index = schedules.findIndex(s => s.id === currentScheduleId);
+    if (index === -1) return;
+
+    handleScheduleEdit({
+      kind: 'schedule',
+      label: `Restore ${schedules[index].name} from ${formatTimestamp(revision.savedAt)}`,
+      index,
+      before: schedules[index],
+      after: { ...schedules[index], year: revision.year, term: revision.term, crns: revision.crns },
+      currentBefore: currentScheduleId,
+      currentAfter: currentScheduleId
+    });
+  };
+
+  const undo = () => {
+    const edit = undoStack.past[undoStack.past.length - 1];
+    if (!edit || loading || viewingShared) return;
+    setUndoStack(undoEdit(undoStack));
+    applyEdit(edit, 'before');
+  };
+
+  const redo = () => {
+    const edit = undoStack.future[undoStack.future.length - 1];
+    if (!edit || loading || viewingShared) return;
+    setUndoStack(redoEdit(undoStack));
+    applyEdit(edit, 'after');
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on mac), text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Follow changes made to the saved schedules in other tabs
+  useEffect(() => subscribeToSchedules(schedules => {
+    setSchedulesVersion(version => version + 1);
+    if (!currentScheduleId || loading || viewingShared) return;
+
+    const current = schedules.find(s => s.id === currentScheduleId);
+    if (!current) {
+      // deleted in the other tab
+      if (schedules.length > 0) handleScheduleSelect(schedules[0].id);
+      return;
     }
 
-    const debounceTime = Math.max(100, (4 - query.length) * 50);
+    setFilters(withDefaultFilters(current.filters));
+    if (current.year !== currentYear || current.term !== currentTerm || !sameCrns(current.crns, crnsOf(selectedSections))) {
+      handleScheduleSelect(current.id);
+    }
+  }));
+
+  // Update current schedule when selections change (but not during loading)
+  // The sections come from a ref, a background refresh sets the selection again anyway
+  useEffect(() => {
+    if (currentScheduleId && !loading && !viewingShared) {
+      const sections = allSectionsRef.current;
+      const selectedList = sections.filter(section => selectedSections.has(section.id));
+      const selectedCrns = selectedList.map(section => section.crn.toString());
+
+      // Update schedule in localStorage immediately
+      try {
+        const schedules = loadSchedules();
+        const previous = schedules.find(s => s.id === currentScheduleId);
+        if (!previous) return;
+        const sameSemester = previous.year === currentYear && previous.term === currentTerm;
+
+        // crns that aren't in this semester's data anymore are kept until the user removes them
+        const offered = new Set(sections.map(section => section.crn.toString()));
+        const missing = sameSemester ? previous.crns.filter(crn => !offered.has(crn)) : [];
+        const crns = [...selectedCrns, ...missing];
+        const changed = !sameSemester || !sameCrns(previous.crns, crns);
+
+        const updated = { ...previous, year: currentYear, term: currentTerm, crns };
+        const withSnapshot = withSnapshots(updated, selectedList);
+        // nothing to write, every write is picked up by the other open tabs
+        if (!changed && withSnapshot === updated) return;
+
+        saveSchedules(schedules.map(s => s.id === currentScheduleId ? withSnapshot : s));
+        console.log('Updated schedule in localStorage:', currentScheduleId, 'with CRNs:', crns);
 
-    debounceTimeoutRef.current = setTimeout(() => {
-      handleSearch(query);
-    }, debounceTime);
-  }, [handleSearch]);
+        if (changed) recordRevision(previous, updated);
+      } catch (error) {
+        console.error('Failed to update schedule in localStorage:', error);
+      }
+    }
+  }, [selectedSections, currentScheduleId, currentYear, currentTerm, loading, viewingShared]);
 
   const onSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const query = e.target.value;
-    setSearchQuery(query);
-    debouncedSearch(query);
+    setSearchQuery(e.target.value);
   };
 
   // Simple helper functions
@@ -723,35 +1096,19 @@ const CoursePlanner: React.FC<PlannerProps> = ({
   // fullcalendar will support tailwind with the v7 release
   // which is coming in august 2025
   const getSectionColor = (section: Section): string => {
-    // const seats = typeof section.seats === 'string' ? parseInt(section.seats) : section.seats || 0;
-    // const waitlist = section.waitlist ? parseInt(section.waitlist.toString()) : 0;
-
-    if (
-      section.seats === 'Cancel' ||
-      section.waitlist === 'Full' ||
-      (
-        parseInt(section.seats) <= 0) && (section.waitlist && parseInt(section.waitlist?.toString()) > 10
-      )
-    )
-      return '#ffa2a2'; // red-300
-
-    if ((section.waitlist && parseInt(section.waitlist) <= 10) || section.seats == '0')
-      return '#ffdf20'; // yellow-300
-    return '#7bf1a8'; // green-300
+    switch (sectionAvailability(section)) {
+      case 'cancelled':
+      case 'full':
+      case 'long-waitlist':
+        return '#ffa2a2'; // red-300
+      case 'waitlist':
+        return '#ffdf20'; // yellow-300
+      default:
+        return '#7bf1a8'; // green-300
+    }
   };
 
   // Helper function to identify online sections
-  const isOnlineSection = (section: Section): boolean => {
-    // Check if section ends with 'W'
-    if (section.section.endsWith('W')) return true;
-
-    // Check if all non-exam schedules have no meeting times
-    const nonExamSchedules = section.schedule.filter(s => s.type !== 'Exam');
-    if (nonExamSchedules.length === 0) return false;
-
-    return nonExamSchedules.every(s => s.days === '-------');
-  };
-
   // Get selected online sections (for the online courses display)
   const getSelectedOnlineSections = () => {
     return allSections
@@ -760,10 +1117,54 @@ const CoursePlanner: React.FC<PlannerProps> = ({
       );
   };
 
+  // Find selected sections that overlap each other
+  const scheduleConflicts = useMemo(() => {
+    const conflicts: SectionConflict[] = [];
+    // `${section.id}-${schedule.id}`, same as the calendar event ids
+    const conflictingEvents = new Set<string>();
+    const conflictingSections = new Set<string>();
+
+    for (let i = 0; i < selectedSectionList.length; i++) {
+      for (let j = i + 1; j < selectedSectionList.length; j++) {
+        const first = selectedSectionList[i];
+        const second = selectedSectionList[j];
+
+        first.schedule.forEach((schedule1: Schedule) => {
+          second.schedule.forEach((schedule2: Schedule) => {
+            const overlap = getOverlap(schedule1, schedule2);
+            if (!overlap) return;
+
+            conflicts.push({ first, second, ...overlap });
+            conflictingEvents.add(`${first.id}-${schedule1.id}`);
+            conflictingEvents.add(`${second.id}-${schedule2.id}`);
+            conflictingSections.add(first.id);
+            conflictingSections.add(second.id);
+          });
+        });
+      }
+    }
+
+    return { conflicts, conflictingEvents, conflictingSections };
+  }, [selectedSectionList]);
+
+  const loadTotals = useMemo(() => scheduleTotals(selectedSectionList, courses), [selectedSectionList, courses]);
+
   // Simple calendar events generation
   const generateCalendarEvents = (): EventInput[] => {
     const events: EventInput[] = [];
-    const { start: semesterStart, end: semesterEnd } = getSemesterDates(currentYear, currentTerm);
+    const { firstDay, lastDay, exclusions } = semesterCalendar;
+
+    // Holidays and reading break
+    exclusions.forEach(exclusion => {
+      events.push({
+        id: `exclusion-${exclusion.date}`,
+        title: exclusion.name,
+        start: `${exclusion.date}T00:00:00`,
+        end: `${addDays(exclusion.date, 1)}T00:00:00`,
+        display: 'background',
+        backgroundColor: '#fca5a5'
+      });
+    });
 
     // Add selected sections (colored events)
     selectedSections.forEach(sectionId => {
@@ -783,19 +1184,25 @@ const CoursePlanner: React.FC<PlannerProps> = ({
         const startTime = `${times[0].slice(0, 2)}:${times[0].slice(2, 4)}`;
         const endTime = `${times[1].slice(0, 2)}:${times[1].slice(2, 4)}`;
 
-        const eventStart = schedule.start ? new Date(schedule.start) : semesterStart;
-        const eventEnd = schedule.end ? new Date(schedule.end) : semesterEnd;
+        const eventStart = schedule.start ? schedule.start.slice(0, 10) : firstDay;
+        const eventEnd = schedule.end ? schedule.end.slice(0, 10) : lastDay;
+        const isConflicting = scheduleConflicts.conflictingEvents.has(`${section.id}-${schedule.id}`);
 
-        events.push({
+        // one event per stretch of weeks between holidays
+        recurrenceRanges(eventStart, eventEnd, exclusions).forEach(range => events.push({
           id: `${section.id}-${schedule.id}`,
+          groupId: `${section.id}-${schedule.id}`,
           title: `${section.subject} ${section.course_code} ${section.section} ${schedule.type}`,
-          startRecur: eventStart,
-          endRecur: eventEnd,
+          ...range,
           daysOfWeek: days,
           startTime,
           endTime,
           backgroundColor: getSectionColor(section),
           textColor: '#000000',
+          ...(isConflicting && {
+            borderColor: '#e7000b', // red-600
+            classNames: ['planner-conflict-event']
+          }),
           extendedProps: {
             course: `${section.subject}-${section.course_code}`.toLowerCase(),
             title: section.title,
@@ -805,7 +1212,7 @@ const CoursePlanner: React.FC<PlannerProps> = ({
             crn: section.crn,
             isPreview: false
           }
-        });
+        }));
       });
     });
 
@@ -825,14 +1232,14 @@ const CoursePlanner: React.FC<PlannerProps> = ({
           const startTime = `${times[0].slice(0, 2)}:${times[0].slice(2, 4)}`;
           const endTime = `${times[1].slice(0, 2)}:${times[1].slice(2, 4)}`;
 
-          const eventStart = schedule.start ? new Date(schedule.start) : semesterStart;
-          const eventEnd = schedule.end ? new Date(schedule.end) : semesterEnd;
+          const eventStart = schedule.start ? schedule.start.slice(0, 10) : firstDay;
+          const eventEnd = schedule.end ? schedule.end.slice(0, 10) : lastDay;
 
-          events.push({
+          recurrenceRanges(eventStart, eventEnd, exclusions).forEach(range => events.push({
             id: `preview-${section.id}-${schedule.id}`,
+            groupId: `preview-${section.id}-${schedule.id}`,
             title: `${section.subject} ${section.course_code} ${section.section} ${schedule.type}`,
-            startRecur: eventStart,
-            endRecur: eventEnd,
+            ...range,
             daysOfWeek: days,
             startTime,
             endTime,
@@ -849,7 +1256,7 @@ const CoursePlanner: React.FC<PlannerProps> = ({
               crn: section.crn,
               isPreview: true
             }
-          });
+          }));
         });
       }
     }
@@ -859,43 +1266,62 @@ const CoursePlanner: React.FC<PlannerProps> = ({
 
   // Simple event handlers - memoized to prevent unnecessary rerenders
   const toggleSection = useCallback((sectionId: string) => {
+    if (viewingShared) return;
     const newSelected = new Set(selectedSections);
+    const section = allSections.find(s => s.id === sectionId);
+    const crn = section?.crn.toString();
+    const crns = allSections.filter(s => selectedSections.has(s.id)).map(s => s.crn.toString());
+    if (crn) {
+      recordEdit({
+        kind: 'selection',
+        label: `${newSelected.has(sectionId) ? 'Remove' : 'Add'} ${section?.subject} ${section?.course_code} (${crn})`,
+        scheduleId: currentScheduleId,
+        before: crns,
+        after: newSelected.has(sectionId) ? crns.filter(c => c !== crn) : [...crns, crn]
+      });
+    }
+
     if (newSelected.has(sectionId)) {
       newSelected.delete(sectionId);
 
-      const section = allSections.find(s => s.id === sectionId);
-      if (section?.weekends) {
+      if (section && hasWeekendClasses(section)) {
         setSaturdayCoursesCount(prev => Math.max(0, prev - 1));
       }
     } else {
       newSelected.add(sectionId);
 
-      const section = allSections.find(s => s.id === sectionId);
-      if (section?.schedule.some((s: Schedule) => s.type !== 'Exam' && s.days.includes('S'))) {
-        section.weekends = true;
+      if (section && hasWeekendClasses(section)) {
         setSaturdayCoursesCount(prev => prev + 1);
       }
     }
     setSelectedSections(newSelected);
-  }, [selectedSections, allSections]);
+  }, [selectedSections, allSections, currentScheduleId, recordEdit, viewingShared]);
 
   const clearAllSections = () => {
+    if (viewingShared) return;
+    if (selectedSections.size > 0) {
+      recordEdit({ kind: 'selection', label: 'Clear All', scheduleId: currentScheduleId, before: crnsOf(selectedSections), after: [] });
+    }
     setSelectedSections(new Set());
     setSaturdayCoursesCount(0);
   };
 
   const selectAllVisibleSections = () => {
-    const visibleSectionIds = allSections
-      .filter(section => filteredSections.includes(section.id))
-      .map(section => section.id);
-
-    setSelectedSections(new Set(visibleSectionIds));
+    if (viewingShared) return;
+    const newSelected = new Set(filteredSections);
+    recordEdit({
+      kind: 'selection',
+      label: 'Select all in Results',
+      scheduleId: currentScheduleId,
+      before: crnsOf(selectedSections),
+      after: crnsOf(newSelected)
+    });
+    setSelectedSections(newSelected);
   };
 
   // Simple calendar configuration
-  let { start: semesterStart } = getSemesterDates(currentYear, currentTerm);
-  semesterStart = new Date(semesterStart);
-  semesterStart.setDate(semesterStart.getDate() + 7);
+  // start on the second week, the first week is often only a couple of days
+  const semesterStart = addDays(semesterCalendar.firstDay, 7);
   const calendarOptions = {
     plugins: [dayGridPlugin, timeGridPlugin, interactionPlugin],
     initialView: 'timeGridWeek',
@@ -927,114 +1353,167 @@ const CoursePlanner: React.FC<PlannerProps> = ({
     }
   };
 
+  // Load the real semester dates and holidays when the semester changes
+  useEffect(() => {
+    let cancelled = false;
+    setSemesterCalendar(estimateSemesterCalendar(currentYear, currentTerm));
+    getSemesterCalendar(currentYear, currentTerm).then(calendar => {
+      if (!cancelled) setSemesterCalendar(calendar);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentYear, currentTerm]);
+
   // Update calendar date when semester changes
   useEffect(() => {
     if (calendarRef.current && !loading) {
-      const { start } = getSemesterDates(currentYear, currentTerm);
-      const newDate = new Date(start);
-      newDate.setDate(newDate.getDate() + 7); // Add a week
-
       const calendarApi = calendarRef.current.getApi();
-      calendarApi.gotoDate(newDate);
+      calendarApi.gotoDate(addDays(semesterCalendar.firstDay, 7)); // Add a week
     }
-  }, [currentYear, currentTerm, loading]);
-
-  // Share modal component
-  const ShareModal = ({
-    isOpen,
-    onClose,
-    year,
-    term,
-    crns
-  }: {
-    isOpen: boolean;
-    onClose: () => void;
-    year: number;
-    term: number;
-    crns: string[];
-  }) => {
-    const [copied, setCopied] = useState(false);
+  }, [semesterCalendar, loading]);
 
-    if (!isOpen) return null;
+  // Share current schedule
+  const shareCurrentSchedule = () => {
+    const crns = getCurrentCRNs();
 
-    const shareUrl = `${window.location.origin}/planner?y=${year}&t=${term}&crns=${crns.join(',')}`;
+    if (crns.length === 0) {
+      alert('Select some courses before sharing!');
+      return;
+    }
 
-    const copyToClipboard = async () => {
-      try {
-        await navigator.clipboard.writeText(shareUrl);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-      } catch {
-        // Fallback for older browsers
-        const textArea = document.createElement('textarea');
-        textArea.value = shareUrl;
-        document.body.appendChild(textArea);
-        textArea.select();
-        document.execCommand('copy');
-        document.body.removeChild(textArea);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-      }
-    };
+    setIsShareModalOpen(true);
+  };
 
-    return (
-      <div
-        className="fixed inset-0 bg-gray-50 flex items-center justify-center z-50"
-        style={{ backgroundColor: 'rgba(249, 250, 251, 0.5)' }}
-        onClick={onClose}
-      >
+  const saveScheduleNotes = (notes: string) => {
+    if (!currentScheduleId) return;
+    saveSchedules(loadSchedules().map(s =>
+      s.id === currentScheduleId ? { ...s, notes: notes.trim() || undefined } : s
+    ));
+  };
 
-        <div
-          className="bg-white rounded-lg p-6 max-w-md w-full mx-4"
-          onClick={(e) => e.stopPropagation()}
-        >
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-semibold">Share Schedule</h3>
-            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
-              ✕
-            </button>
-          </div>
+  // Changed sections
 
-          <p className="text-sm text-gray-600 mb-3">
-            Share this link to let others view your schedule:
-          </p>
+  const updateCurrentSchedule = (update: (schedule: SavedSchedule) => SavedSchedule) => {
+    if (!currentScheduleId) return;
+    saveSchedules(loadSchedules().map(s => s.id === currentScheduleId ? update(s) : s));
+  };
 
-          <div className="flex gap-2 mb-4">
-            <input
-              type="text"
-              value={shareUrl}
-              readOnly
-              className="flex-1 p-2 border rounded text-sm bg-gray-50"
-            />
-            <button
-              onClick={copyToClipboard}
-              className={`px-3 py-2 rounded text-sm ${copied
-                ? 'bg-green-500 text-white'
-                : 'bg-blue-500 text-white hover:bg-blue-600'
-                }`}
-            >
-              {copied ? 'Copied!' : 'Copy'}
-            </button>
-          </div>
+  const markChangeHandled = (change: SectionChange) => {
+    setHandledChangeCrns(prev => new Set(prev).add(change.crn));
+  };
 
-          <div className="text-xs text-gray-500">
-            This link includes {crns.length} course{crns.length !== 1 ? 's' : ''} for {term === 10 ? 'Spring' : term === 20 ? 'Summer' : 'Fall'} {year}.
-          </div>
-        </div>
-      </div>
+  // The user has seen the change, remember the section as it is now so that it isn't shown again
+  const dismissScheduleChange = (change: SectionChange) => {
+    if (change.section) {
+      const snapshot = snapshotSection(change.section);
+      updateCurrentSchedule(s => ({ ...s, snapshots: { ...s.snapshots, [change.crn]: snapshot } }));
+    }
+    // a missing crn stays in the schedule, it is shown again the next time the schedule is opened
+    markChangeHandled(change);
+  };
+
+  const setSelectedCrns = (crns: string[], label: string) => {
+    recordEdit({ kind: 'selection', label, scheduleId: currentScheduleId, before: crnsOf(selectedSections), after: crns });
+    const sections = allSections.filter(section => crns.includes(section.crn.toString()));
+    setSelectedSections(new Set(sections.map(section => section.id)));
+    setSaturdayCoursesCount(sections.filter(hasWeekendClasses).length);
+  };
+
+  const removeChangedSection = (change: SectionChange) => {
+    if (change.kind === 'missing') {
+      updateCurrentSchedule(s => pruneSnapshots({ ...s, crns: s.crns.filter(crn => crn !== change.crn) }));
+    } else {
+      setSelectedCrns(crnsOf(selectedSections).filter(crn => crn !== change.crn), `Remove ${change.name} (${change.crn})`);
+    }
+    markChangeHandled(change);
+  };
+
+  const replaceChangedSection = (change: SectionChange, replacement: Section) => {
+    if (change.kind === 'missing') {
+      updateCurrentSchedule(s => pruneSnapshots({ ...s, crns: s.crns.filter(crn => crn !== change.crn) }));
+    }
+    setSelectedCrns(
+      [...crnsOf(selectedSections).filter(crn => crn !== change.crn), replacement.crn.toString()],
+      `Replace ${change.name} with ${replacement.section} (${replacement.crn})`
     );
+    markChangeHandled(change);
   };
 
-  // Share current schedule
-  const shareCurrentSchedule = () => {
-    const crns = getCurrentCRNs();
+  // Sections of the same course that don't conflict with the rest of the schedule
+  const getReplacements = (change: SectionChange): Section[] => {
+    const rest = selectedSectionList.filter(section => section.crn.toString() !== change.crn);
+    return suggestReplacements(change, allSections, section => !sectionConflicts(section, rest));
+  };
 
-    if (crns.length === 0) {
-      alert('Select some courses before sharing!');
+  // Shared links
+
+  const viewSharedSchedule = (shared: SharedSchedule) => {
+    setIsSharePreviewOpen(false);
+    setViewingShared(shared);
+    loadSavedSchedule(shared.year, shared.term, shared.crns);
+  };
+
+  const addSharedSchedule = (shared: SharedSchedule): boolean => {
+    const schedule: SavedSchedule = {
+      id: `shared-${Date.now()}`,
+      name: shared.name,
+      year: shared.year,
+      term: shared.term,
+      crns: shared.crns,
+      createdAt: Date.now(),
+      ...(shared.notes ? { notes: shared.notes } : {})
+    };
+    if (!addSchedule(schedule)) {
+      alert(`You can save up to ${MAX_SCHEDULES} schedules, delete one to make room.`);
+      return false;
+    }
+    setSchedulesVersion(version => version + 1);
+    handleScheduleSelect(schedule.id);
+    return true;
+  };
+
+  const replaceWithSharedSchedule = (shared: SharedSchedule, scheduleId: string) => {
+    const schedules = loadSchedules();
+    const index = schedules.findIndex(s => s.id === scheduleId);
+    if (index === -1) return;
+
+    handleScheduleEdit({
+      kind: 'schedule',
+      label: `Replace ${schedules[index].name}`,
+      index,
+      before: schedules[index],
+      after: { ...schedules[index], name: shared.name, year: shared.year, term: shared.term, crns: shared.crns, notes: shared.notes },
+      currentBefore: currentScheduleId,
+      currentAfter: scheduleId
+    });
+  };
+
+  const closeSharedView = () => {
+    setViewingShared(null);
+    if (currentScheduleId) handleScheduleSelect(currentScheduleId);
+  };
+
+  // Export selected sections as an .ics file for google calendar / outlook / etc
+  const exportToCalendar = () => {
+    const sections = allSections.filter(section => selectedSections.has(section.id));
+
+    if (sections.length === 0) {
+      alert('Select some courses before exporting!');
       return;
     }
 
-    setIsShareModalOpen(true);
+    const ics = generateICS(sections, currentYear, currentTerm, semesterCalendar);
+
+    const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `langara-${termToSeason(currentTerm).toLowerCase()}-${currentYear}.ics`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
   // Get current CRNs for sharing
@@ -1048,10 +1527,27 @@ const CoursePlanner: React.FC<PlannerProps> = ({
   };
 
   // Memoize filtered sections for better performance
-  const visibleSections = useMemo(() =>
-    allSections.filter(section => filteredSections.includes(section.id)),
-    [allSections, filteredSections]
-  );
+  // in the order of the search results, best match first
+  const visibleSections = useMemo(() => {
+    const sectionsById = new Map(allSections.map(section => [section.id, section]));
+    return filteredSections
+      .map(id => sectionsById.get(id))
+      .filter((section): section is typeof allSections[number] => section !== undefined);
+  }, [allSections, filteredSections]);
+
+  // Sections in the results that would overlap with the current selection if picked
+  const potentialConflicts = useMemo(() => {
+    const selected = allSections.filter(section => selectedSections.has(section.id));
+    const conflicting = new Set<string>();
+    if (selected.length === 0) return conflicting;
+
+    visibleSections.forEach(section => {
+      if (!selectedSections.has(section.id) && sectionConflicts(section, selected)) {
+        conflicting.add(section.id);
+      }
+    });
+    return conflicting;
+  }, [allSections, visibleSections, selectedSections]);
 
   // Create memoized callbacks using a map to prevent recreating on every render
   const toggleCallbacks = useMemo(() => {
@@ -1075,17 +1571,25 @@ const CoursePlanner: React.FC<PlannerProps> = ({
   // Course item component for simple rendering - memoized to prevent unnecessary rerenders
   const CourseItem = React.memo(({
     section,
-    courses,
+    course,
+    completedCourses,
+    isWatched,
     isSelected,
     isHovered,
+    isConflicting,
+    wouldConflict,
     onToggle,
     onMouseEnter,
     onMouseLeave
   }: {
     section: Section;
-    courses: PlannerCourse[];
+    course: PlannerCourse | undefined;
+    completedCourses: CompletedCourse[];
+    isWatched: boolean;
     isSelected: boolean;
     isHovered: boolean;
+    isConflicting: boolean;
+    wouldConflict: boolean;
     onToggle: () => void;
     onMouseEnter: () => void;
     onMouseLeave: () => void;
@@ -1153,12 +1657,28 @@ const CoursePlanner: React.FC<PlannerProps> = ({
               className="hover:text-blue-700 hover:underline w-fit"
               prefetch={false}
             >
-              {section.subject} {section.course_code} {section.section}: {courses.find(c => c.subject === section.subject && c.course_code === section.course_code)?.attributes?.title || ''}
+              {section.subject} {section.course_code} {section.section}: {course?.attributes?.title || ''}
             </Link>
           </div>
           <div className="text-sm text-gray-600">
             CRN: {section.crn} • Seats: {section.seats}
             {section.waitlist && section.waitlist !== " " && ` • Waitlist: ${section.waitlist}`}
+            {isConflicting && (
+              <span className="ml-2 px-1 rounded text-xs bg-red-600 text-white" title="This section overlaps another selected section">
+                Time conflict
+              </span>
+            )}
+            {wouldConflict && (
+              <span className="ml-2 px-1 rounded text-xs border border-red-600 text-red-700" title="This section overlaps your current selection">
+                Conflicts with selection
+              </span>
+            )}
+            <PrerequisiteBadge
+              prerequisites={course?.attributes?.desc_prerequisite}
+              completed={completedCourses}
+              className="ml-2"
+            />
+            <WatchButton section={section} isWatched={isWatched} className="ml-2" />
           </div>
           {section.schedule.length > 0 && (
             <div className="mt-2">
@@ -1226,7 +1746,7 @@ const CoursePlanner: React.FC<PlannerProps> = ({
       isOpen: true,
       eventData: {
         courseCode: `${section.subject} ${section.course_code}`,
-        title: section.title,
+        title: section.title || section.abbreviated_title || '',
         sectionNumber: section.section,
         crn: section.crn.toString(),
         room: 'Online Learning'
@@ -1234,6 +1754,19 @@ const CoursePlanner: React.FC<PlannerProps> = ({
     });
   };
 
+  const handleExamClick = (section: Section) => {
+    setEventDetailsPopup({
+      isOpen: true,
+      eventData: {
+        courseCode: `${section.subject} ${section.course_code}`,
+        title: section.title || section.abbreviated_title || '',
+        sectionNumber: section.section,
+        crn: section.crn.toString(),
+        room: section.schedule.find((s: Schedule) => s.type === 'Exam')?.room ?? ''
+      }
+    });
+  };
+
   // Show loading state while processing URL params
   // if (isProcessingUrl) {
   //   return (
@@ -1257,9 +1790,13 @@ const CoursePlanner: React.FC<PlannerProps> = ({
           currentTerm={currentTerm}
           selectedSections={selectedSections}
           allSections={allSections}
+          courses={courses}
           currentScheduleId={currentScheduleId}
           onScheduleSelect={handleScheduleSelect}
           onInitialScheduleSet={setCurrentScheduleId}
+          onScheduleEdit={handleScheduleEdit}
+          onRestoreRevision={restoreRevision}
+          schedulesVersion={schedulesVersion}
           hasInitialized={hasInitialized}
         />
       ) : (
@@ -1273,6 +1810,32 @@ const CoursePlanner: React.FC<PlannerProps> = ({
 
           <div className="px-4 py-2 border-b">
 
+            {viewingShared && (
+              <div className="mb-2 p-2 rounded-md bg-amber-50 border border-amber-300 text-sm">
+                <div>
+                  Viewing <strong>{viewingShared.name}</strong> from a share link. It isn&apos;t saved and can&apos;t be edited.
+                </div>
+                <div className="flex gap-3 mt-1">
+                  <button onClick={() => setIsSharePreviewOpen(true)} className="text-blue-600 hover:underline cursor-pointer">
+                    Save it...
+                  </button>
+                  <button onClick={closeSharedView} className="text-blue-600 hover:underline cursor-pointer">
+                    Back to my schedule
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {!viewingShared && (
+              <ScheduleChanges
+                changes={scheduleChanges.filter(change => !handledChangeCrns.has(change.crn))}
+                getReplacements={getReplacements}
+                onReplace={replaceChangedSection}
+                onRemove={removeChangedSection}
+                onDismiss={dismissScheduleChange}
+              />
+            )}
+
             {/* Term Selector */}
             <div className="mb-2">
               <label className="block text-sm font-medium text-gray-700">
@@ -1321,11 +1884,136 @@ const CoursePlanner: React.FC<PlannerProps> = ({
             <div className="mb-2">
               <input
                 type="text"
-                placeholder="Search courses..."
+                placeholder="Search, e.g. cpsc 1150 days:MW after:10"
+                title={SEARCH_HELP}
                 value={searchQuery}
                 onChange={onSearchChange}
                 className="w-full p-2 border border-gray-300 rounded-md"
               />
+              {searchResult.errors.map(error => (
+                <p key={error} className="text-sm text-red-700 mt-1">{error}</p>
+              ))}
+
+              {/* Filters */}
+              <div className="mt-1 text-sm">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setIsFilterPanelOpen(!isFilterPanelOpen)}
+                    className="text-blue-600 hover:underline cursor-pointer"
+                  >
+                    {isFilterPanelOpen ? '▾' : '▸'} Filters{countActiveFilters(filters) > 0 && ` (${countActiveFilters(filters)})`}
+                  </button>
+                  {countActiveFilters(filters) > 0 && (
+                    <button
+                      onClick={() => updateFilters(DEFAULT_PLANNER_FILTERS)}
+                      className="text-gray-500 hover:underline cursor-pointer"
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+
+                {isFilterPanelOpen && (
+                  <div className="mt-1 p-2 border border-gray-200 rounded-md space-y-2">
+                    <div className="flex items-center gap-1" title="Only show sections that meet on these days">
+                      <span className="w-16 text-gray-600">Days</span>
+                      {FILTER_DAYS.map(day => (
+                        <button
+                          key={day}
+                          onClick={() => toggleFilterDay(day)}
+                          className={`w-7 py-0.5 rounded border cursor-pointer ${filters.days.includes(day)
+                            ? 'bg-blue-500 text-white border-blue-500'
+                            : 'border-gray-300 hover:bg-gray-100'
+                            }`}
+                        >
+                          {day}
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="flex items-center gap-1" title="Only show sections that start and end within this window">
+                      <span className="w-16 text-gray-600">Time</span>
+                      <input
+                        type="time"
+                        value={filters.startsAfter}
+                        onChange={e => updateFilters({ startsAfter: e.target.value })}
+                        className="p-0.5 border border-gray-300 rounded"
+                      />
+                      <span>to</span>
+                      <input
+                        type="time"
+                        value={filters.endsBefore}
+                        onChange={e => updateFilters({ endsBefore: e.target.value })}
+                        className="p-0.5 border border-gray-300 rounded"
+                      />
+                    </div>
+
+                    <div className="flex items-center gap-1">
+                      <span className="w-16 text-gray-600">Format</span>
+                      <select
+                        value={filters.delivery}
+                        onChange={e => updateFilters({ delivery: e.target.value as PlannerFilters['delivery'] })}
+                        className="p-0.5 border border-gray-300 rounded"
+                      >
+                        <option value="any">Online and in person</option>
+                        <option value="in-person">In person</option>
+                        <option value="online">Online</option>
+                      </select>
+                    </div>
+
+                    <div className="flex items-center gap-1">
+                      <span className="w-16 text-gray-600">Instructor</span>
+                      <input
+                        type="text"
+                        list="planner-instructors"
+                        placeholder="Any"
+                        value={filters.instructor}
+                        onChange={e => updateFilters({ instructor: e.target.value })}
+                        className="flex-1 p-0.5 border border-gray-300 rounded"
+                      />
+                      <datalist id="planner-instructors">
+                        {instructors.map(instructor => <option key={instructor} value={instructor} />)}
+                      </datalist>
+                    </div>
+
+                    <div className="flex flex-wrap gap-x-3 gap-y-1">
+                      <label className="flex items-center gap-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={filters.hideCancelled}
+                          onChange={e => updateFilters({ hideCancelled: e.target.checked })}
+                        />
+                        Hide cancelled
+                      </label>
+                      <label className="flex items-center gap-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={filters.hideFull}
+                          onChange={e => updateFilters({ hideFull: e.target.checked })}
+                        />
+                        Hide full
+                      </label>
+                      <label className="flex items-center gap-1 cursor-pointer" title="More than 10 people on the waitlist">
+                        <input
+                          type="checkbox"
+                          checked={filters.hideLongWaitlist}
+                          onChange={e => updateFilters({ hideLongWaitlist: e.target.checked })}
+                        />
+                        Hide long waitlist
+                      </label>
+                      <label className="flex items-center gap-1 cursor-pointer" title="Hide sections that overlap with the sections you have selected">
+                        <input
+                          type="checkbox"
+                          checked={filters.hideConflicts}
+                          onChange={e => updateFilters({ hideConflicts: e.target.checked })}
+                        />
+                        Hide conflicts
+                      </label>
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {loading ? (
                 <p className="text-sm text-gray-600 mt-1">
                   Loading...
@@ -1334,6 +2022,14 @@ const CoursePlanner: React.FC<PlannerProps> = ({
 
                 <p className="text-sm text-gray-600 mt-1">
                   Found {filteredSections.length} sections.
+                  {dataFetchedAt && (
+                    <span
+                      className={isOnline ? 'text-gray-500' : 'text-amber-700'}
+                      title="Course data is saved on this device so the planner keeps working without a connection."
+                    >
+                      {' '}Data as of {formatTimestamp(dataFetchedAt)}{!isOnline && ' (offline)'}
+                    </span>
+                  )}
                 </p>
               )
               }
@@ -1361,6 +2057,36 @@ const CoursePlanner: React.FC<PlannerProps> = ({
               >
                 Share
               </button>
+              <button
+                onClick={exportToCalendar}
+                className="px-3 py-2 text-sm bg-purple-500 text-white rounded hover:bg-purple-600 cursor-pointer"
+                title="Export to calendar (.ics)"
+              >
+                Export
+              </button>
+              <button
+                onClick={undo}
+                disabled={undoStack.past.length === 0}
+                className="px-2 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300 cursor-pointer disabled:opacity-40 disabled:cursor-default"
+                title={undoStack.past.length ? `Undo ${undoStack.past[undoStack.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                ↶
+              </button>
+              <button
+                onClick={redo}
+                disabled={undoStack.future.length === 0}
+                className="px-2 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300 cursor-pointer disabled:opacity-40 disabled:cursor-default"
+                title={undoStack.future.length ? `Redo ${undoStack.future[undoStack.future.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                ↷
+              </button>
+              <button
+                onClick={() => setIsWatchListOpen(true)}
+                className="px-2 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300 cursor-pointer whitespace-nowrap"
+                title="Sections you are watching for open seats"
+              >
+                🔔{watchedSections.length > 0 && ` ${watchedSections.length}`}
+              </button>
 
               {/* <button
                 onClick={() => setIsDebugOpen(true)}
@@ -1389,9 +2115,13 @@ const CoursePlanner: React.FC<PlannerProps> = ({
                 itemContent={(index, section) => (
                   <CourseItem
                     section={section}
-                    courses={courses}
+                    course={coursesByCode.get(`${section.subject} ${section.course_code}`)}
+                    completedCourses={completedCourses}
+                    isWatched={watchedIds.has(section.id)}
                     isSelected={selectedSections.has(section.id)}
                     isHovered={hoveredSection === section.id}
+                    isConflicting={scheduleConflicts.conflictingSections.has(section.id)}
+                    wouldConflict={potentialConflicts.has(section.id)}
                     onToggle={toggleCallbacks.get(section.id)!}
                     onMouseEnter={mouseEnterCallbacks.get(section.id)!}
                     onMouseLeave={mouseLeaveCallback}
@@ -1405,134 +2135,205 @@ const CoursePlanner: React.FC<PlannerProps> = ({
         {/* Calendar and Online Courses */}
         <div className="flex-1 p-2 flex flex-col">
 
-          <div className="min-h-36 sm:h-fit flex-1 bg-white rounded-lg shadow mb-2 sm:mb-4">
-            <FullCalendar
-              ref={calendarRef}
-              {...calendarOptions}
-            />
+          <LoadSummary
+            totals={loadTotals}
+            thresholds={loadThresholds}
+            onThresholdsChange={setLoadThresholds}
+          />
+
+          <div className="flex gap-1 mb-2 text-sm">
+            {(['timetable', 'exams'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setCalendarTab(tab)}
+                className={`px-3 py-1 rounded cursor-pointer ${calendarTab === tab
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 hover:bg-gray-300'
+                  }`}
+              >
+                {tab === 'timetable' ? 'Timetable' : 'Exams'}
+              </button>
+            ))}
           </div>
 
-          {/* Online Courses 
+          {calendarTab === 'exams' ? (
+            <ExamSchedule
+              sections={selectedSectionList}
+              getSectionColor={getSectionColor}
+              onExamClick={handleExamClick}
+            />
+          ) : (
+            <>
+              {/* Conflict summary */}
+              {scheduleConflicts.conflicts.length > 0 && (
+                <div className="mb-2 px-3 py-2 bg-red-50 border border-red-300 rounded-lg text-sm text-red-800 max-h-24 overflow-y-auto">
+                  {scheduleConflicts.conflicts.map((conflict, idx) => (
+                    <p key={idx}>
+                      ⚠️ {conflict.first.subject} {conflict.first.course_code} {conflict.first.section} overlaps{' '}
+                      {conflict.second.subject} {conflict.second.course_code} {conflict.second.section} on{' '}
+                      {conflict.days.map(day => CONFLICT_DAY_NAMES[day]).join(', ')}{' '}
+                      {formatMinutes(conflict.start)}–{formatMinutes(conflict.end)}
+                    </p>
+                  ))}
+                </div>
+              )}
 
-          ideally this would be laid out a bit better
-          and not have hardcoded heights
-          alas, i am only human
-          
-          */}
-          {/* im very good at coding */}
-          <div className={`h-fit min-h-42 max-h-50  md:max-h-72 pb-2 bg-white rounded-lg shadow overflow-y-scroll ${
-            // (window && window.outerWidth > 900) || 
-            (getSelectedOnlineSections().length === 0 && (!hoveredSection || !allSections.some(s => s.id === hoveredSection && isOnlineSection(s))))
-            ? 'hidden sm:block' 
-            : 'block'
-          }`}>
-            <div className="pl-3 pt-2 md:pt-3">
-              <h3 className="sm:text-lg font-semibold text-gray-800">Online Courses:</h3>
-            </div>
+              <div className="min-h-36 sm:h-fit flex-1 bg-white rounded-lg shadow mb-2 sm:mb-4">
+                <FullCalendar
+                  ref={calendarRef}
+                  {...calendarOptions}
+                />
+              </div>
 
-            <div className="px-3 py-1 md:pb-3 h-fit">
-              {/* <div></div> */}
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 h-fit">
-                {/* Show online courses (selected and hovered) in alphabetical order */}
-                {(() => {
-                  const selectedOnlineSections = getSelectedOnlineSections();
-                  const hoveredOnlineSection = hoveredSection && !selectedSections.has(hoveredSection)
-                    ? allSections.find(s => s.id === hoveredSection && isOnlineSection(s))
-                    : null;
-
-                  // Combine selected and hovered sections
-                  const allOnlineSections = [...selectedOnlineSections];
-                  if (hoveredOnlineSection) {
-                    allOnlineSections.push(hoveredOnlineSection);
-                  }
+              {/* Online Courses 
 
-                  // Sort alphabetically by subject and course code
-                  const sortedSections = allOnlineSections.sort((a, b) => {
-                    const aCode = `${a.subject} ${a.course_code} ${a.section}`;
-                    const bCode = `${b.subject} ${b.course_code} ${b.section}`;
-                    return aCode.localeCompare(bCode);
-                  });
+              ideally this would be laid out a bit better
+              and not have hardcoded heights
+              alas, i am only human
+          
+              */}
+              {/* im very good at coding */}
+              <div className={`h-fit min-h-42 max-h-50  md:max-h-72 pb-2 bg-white rounded-lg shadow overflow-y-scroll ${
+                // (window && window.outerWidth > 900) || 
+                (getSelectedOnlineSections().length === 0 && (!hoveredSection || !allSections.some(s => s.id === hoveredSection && isOnlineSection(s))))
+                ? 'hidden sm:block' 
+                : 'block'
+              }`}>
+                <div className="pl-3 pt-2 md:pt-3">
+                  <h3 className="sm:text-lg font-semibold text-gray-800">Online Courses:</h3>
+                </div>
 
-                  return sortedSections.map(section => {
-                    const isSelected = selectedSections.has(section.id);
-                    const isHovered = hoveredSection === section.id;
-                    const isPreview = !isSelected;
+                <div className="px-3 py-1 md:pb-3 h-fit">
+                  {/* <div></div> */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 h-fit">
+                    {/* Show online courses (selected and hovered) in alphabetical order */}
+                    {(() => {
+                      const selectedOnlineSections = getSelectedOnlineSections();
+                      const hoveredOnlineSection = hoveredSection && !selectedSections.has(hoveredSection)
+                        ? allSections.find(s => s.id === hoveredSection && isOnlineSection(s))
+                        : null;
+
+                      // Combine selected and hovered sections
+                      const allOnlineSections = [...selectedOnlineSections];
+                      if (hoveredOnlineSection) {
+                        allOnlineSections.push(hoveredOnlineSection);
+                      }
 
-                    return (
-                      <div
-                        key={isPreview ? `preview-${section.id}` : section.id}
-                        onClick={() => handleOnlineCourseClick(section)}
-                        // onMouseEnter={() => setHoveredSection(section.id)}
-                        // onMouseLeave={() => setHoveredSection(null)}
-                        className={`p-2 rounded border cursor-pointer transition-colors text-sm ${isPreview
-                          ? `opacity-70 border-dashed ${(
-                            section.seats === 'Cancel' ||
-                            section.waitlist === 'Full' ||
-                            (
-                              parseInt(section.seats) <= 0) && (section.waitlist && parseInt(section.waitlist?.toString()) > 10
-                            )
-                          )
-                            ? 'bg-red-50 border-red-300 border-l-4 border-l-red-500'
-                            : (section.waitlist && parseInt(section.waitlist) <= 10) || section.seats == '0'
-                              ? 'bg-yellow-50 border-yellow-300 border-l-4 border-l-yellow-500'
-                              : 'bg-green-50 border-green-300 border-l-4 border-l-green-500'
-                          }`
-                          : `${isHovered
-                            ? 'bg-gray-100 border-gray-300'
-                            : 'bg-blue-100 border-blue-300'
-                          } ${(
-                            section.seats === 'Cancel' ||
-                            section.waitlist === 'Full' ||
-                            (
-                              parseInt(section.seats) <= 0) && (section.waitlist && parseInt(section.waitlist?.toString()) > 10
-                            )
-                          )
-                            ? 'border-l-4 border-l-red-500'
-                            : (section.waitlist && parseInt(section.waitlist) <= 10) || section.seats == '0'
-                              ? 'border-l-4 border-l-yellow-500'
-                              : 'border-l-4 border-l-green-500'
-                          }`
-                          }`}
-                      >
-                        <div className="font-medium">
-                          {section.subject} {section.course_code} {section.section}
-                        </div>
-                        <div className="text-xs text-gray-600">
-                          CRN: {section.crn} • Seats: {section.seats}
-                          {section.waitlist && section.waitlist !== " " && ` • Waitlist: ${section.waitlist}`}
-                        </div>
-                        <div className="text-xs text-gray-500 mt-1">
-                          {courses.find(c => c.subject === section.subject && c.course_code === section.course_code)?.attributes?.title || 'Online Course'}
-                        </div>
+                      // Sort alphabetically by subject and course code
+                      const sortedSections = allOnlineSections.sort((a, b) => {
+                        const aCode = `${a.subject} ${a.course_code} ${a.section}`;
+                        const bCode = `${b.subject} ${b.course_code} ${b.section}`;
+                        return aCode.localeCompare(bCode);
+                      });
+
+                      return sortedSections.map(section => {
+                        const isSelected = selectedSections.has(section.id);
+                        const isHovered = hoveredSection === section.id;
+                        const isPreview = !isSelected;
+
+                        return (
+                          <div
+                            key={isPreview ? `preview-${section.id}` : section.id}
+                            onClick={() => handleOnlineCourseClick(section)}
+                            // onMouseEnter={() => setHoveredSection(section.id)}
+                            // onMouseLeave={() => setHoveredSection(null)}
+                            className={`p-2 rounded border cursor-pointer transition-colors text-sm ${isPreview
+                              ? `opacity-70 border-dashed ${(
+                                section.seats === 'Cancel' ||
+                                section.waitlist === 'Full' ||
+                                (
+                                  parseInt(section.seats) <= 0) && (section.waitlist && parseInt(section.waitlist?.toString()) > 10
+                                )
+                              )
+                                ? 'bg-red-50 border-red-300 border-l-4 border-l-red-500'
+                                : (section.waitlist && parseInt(section.waitlist) <= 10) || section.seats == '0'
+                                  ? 'bg-yellow-50 border-yellow-300 border-l-4 border-l-yellow-500'
+                                  : 'bg-green-50 border-green-300 border-l-4 border-l-green-500'
+                              }`
+                              : `${isHovered
+                                ? 'bg-gray-100 border-gray-300'
+                                : 'bg-blue-100 border-blue-300'
+                              } ${(
+                                section.seats === 'Cancel' ||
+                                section.waitlist === 'Full' ||
+                                (
+                                  parseInt(section.seats) <= 0) && (section.waitlist && parseInt(section.waitlist?.toString()) > 10
+                                )
+                              )
+                                ? 'border-l-4 border-l-red-500'
+                                : (section.waitlist && parseInt(section.waitlist) <= 10) || section.seats == '0'
+                                  ? 'border-l-4 border-l-yellow-500'
+                                  : 'border-l-4 border-l-green-500'
+                              }`
+                              }`}
+                          >
+                            <div className="font-medium">
+                              {section.subject} {section.course_code} {section.section}
+                            </div>
+                            <div className="text-xs text-gray-600">
+                              CRN: {section.crn} • Seats: {section.seats}
+                              {section.waitlist && section.waitlist !== " " && ` • Waitlist: ${section.waitlist}`}
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1">
+                              {coursesByCode.get(`${section.subject} ${section.course_code}`)?.attributes?.title || 'Online Course'}
+                            </div>
+                          </div>
+                        );
+                      });
+                    })()}
+
+                    {getSelectedOnlineSections().length === 0 && 
+                    (!hoveredSection || !allSections.some(s => s.id === hoveredSection && isOnlineSection(s))) &&
+                    // !hoveredSection && 
+                    (
+                      <div className="col-span-full text-gray-500">
+                        No online courses selected.
                       </div>
-                    );
-                  });
-                })()}
-
-                {getSelectedOnlineSections().length === 0 && 
-                (!hoveredSection || !allSections.some(s => s.id === hoveredSection && isOnlineSection(s))) &&
-                // !hoveredSection && 
-                (
-                  <div className="col-span-full text-gray-500">
-                    No online courses selected.
+                    )}
                   </div>
-                )}
+                </div>
               </div>
-            </div>
-          </div>
+            </>
+          )}
         </div>
 
 
       </div>
 
       {/* Share Modal */}
-      <ShareModal
-        isOpen={isShareModalOpen}
-        onClose={() => setIsShareModalOpen(false)}
-        year={currentYear}
-        term={currentTerm}
-        crns={getCurrentCRNs()}
-      />
+      {isShareModalOpen && (
+        <ShareModal
+          onClose={() => setIsShareModalOpen(false)}
+          current={{
+            name: viewingShared?.name ?? loadSchedules().find(s => s.id === currentScheduleId)?.name ?? 'Schedule',
+            year: currentYear,
+            term: currentTerm,
+            crns: getCurrentCRNs(),
+            notes: viewingShared ? viewingShared.notes : loadSchedules().find(s => s.id === currentScheduleId)?.notes
+          }}
+          otherSchedules={viewingShared ? [] : loadSchedules().filter(s => s.id !== currentScheduleId)}
+          onNotesChange={viewingShared ? () => {} : saveScheduleNotes}
+        />
+      )}
+
+      {/* Share link preview */}
+      {isSharePreviewOpen && hasInitialized && (
+        <SharedLinkPreview
+          schedules={sharedSchedules}
+          error={shareLinkError}
+          savedSchedules={loadSchedules()}
+          onView={viewSharedSchedule}
+          onAdd={addSharedSchedule}
+          onReplace={replaceWithSharedSchedule}
+          onOpenSaved={(scheduleId) => {
+            setIsSharePreviewOpen(false);
+            handleScheduleSelect(scheduleId);
+          }}
+          onClose={() => setIsSharePreviewOpen(false)}
+        />
+      )}
+
+      {isWatchListOpen && <WatchListModal onClose={() => setIsWatchListOpen(false)} />}
 
       {/* Event Details Popup */}
       <EventDetailsPopup
@@ -1540,6 +2341,7 @@ const CoursePlanner: React.FC<PlannerProps> = ({
         onClose={() => setEventDetailsPopup({ isOpen: false, eventData: null })}
         eventData={eventDetailsPopup.eventData}
         allSections={allSections}
+        watchedIds={watchedIds}
       />
 
       {/* Schedule Debugger */}
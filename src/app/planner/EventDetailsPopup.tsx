@@ -1,6 +1,7 @@
 import React from 'react';
-import { Section, Schedule } from '@/types/Planner2';
+import { Section, Schedule } from '@/types/Section';
 import Link from 'next/link';
+import WatchButton from '@/components/shared/watch-button';
 
 interface EventDetailsPopupProps {
   isOpen: boolean;
@@ -12,13 +13,16 @@ interface EventDetailsPopupProps {
     crn: string;
   } | null;
   allSections: Section[];
+  // ids of the watched sections
+  watchedIds: Set<string>;
 }
 
 const EventDetailsPopup: React.FC<EventDetailsPopupProps> = ({
   isOpen,
   onClose,
   eventData,
-  allSections
+  allSections,
+  watchedIds
 }) => {
   if (!isOpen || !eventData) return null;
 
@@ -105,6 +109,10 @@ const EventDetailsPopup: React.FC<EventDetailsPopupProps> = ({
                     </div>
                   )}
 
+                  <div className="col-span-2">
+                    <WatchButton section={section} isWatched={watchedIds.has(section.id)} />
+                  </div>
+
                 </>
               )}
 
@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import FullCalendar from '@fullcalendar/react';
+import dayGridPlugin from '@fullcalendar/daygrid';
+import timeGridPlugin from '@fullcalendar/timegrid';
+import { EventClickArg, EventInput } from '@fullcalendar/core';
+import { addDays } from '@/lib/semester-calendar';
+import { Exam, findExamClashes, findExamHardships, getAllExams } from '@/utils/examConflicts';
+import { Section } from '@/types/Section';
+
+interface ExamScheduleProps {
+  // the selected sections
+  sections: Section[];
+  getSectionColor: (section: Section) => string;
+  onExamClick: (section: Section) => void;
+}
+
+// more days than this don't fit as columns, so they are shown as a month grid instead
+const MAX_TIME_GRID_DAYS = 7;
+
+const examName = (exam: Exam): string =>
+  `${exam.section.subject} ${exam.section.course_code} ${exam.section.section}`;
+
+// minutes from midnight -> 14:00
+const toTime = (minutes: number): string =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+// "Mon, Dec 8"
+const formatDate = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatExamTime = (exam: Exam): string =>
+  exam.start !== null && exam.end !== null ? `${toTime(exam.start)}–${toTime(exam.end)}` : 'time not posted';
+
+// The final exams of the selected sections, on a calendar of the exam period
+const ExamSchedule: React.FC<ExamScheduleProps> = ({ sections, getSectionColor, onExamClick }) => {
+  const exams = useMemo(() => getAllExams(sections), [sections]);
+  const clashes = useMemo(() => findExamClashes(sections), [sections]);
+  const hardships = useMemo(() => findExamHardships(sections), [sections]);
+
+  const clashing = new Set(clashes.flatMap(clash => [clash.first, clash.second]));
+  const sectionsWithoutExams = sections.filter(section => !exams.some(exam => exam.section.id === section.id));
+
+  if (exams.length === 0) {
+    return (
+      <div className="flex-1 bg-white rounded-lg shadow p-4 text-sm text-gray-500">
+        {sections.length === 0
+          ? 'Select some sections to see their final exams.'
+          : 'None of the selected sections have a final exam posted yet.'}
+      </div>
+    );
+  }
+
+  const firstDate = exams[0].date;
+  const lastDate = exams[exams.length - 1].date;
+  const dayCount = (Date.parse(lastDate) - Date.parse(firstDate)) / 86400000 + 1;
+  const timedExams = exams.filter(exam => exam.start !== null);
+
+  const events: EventInput[] = exams.map((exam, index) => ({
+    id: `exam-${index}`,
+    title: `${examName(exam)} Exam${exam.room ? ` (${exam.room})` : ''}`,
+    ...(exam.start !== null && exam.end !== null
+      ? { start: `${exam.date}T${toTime(exam.start)}:00`, end: `${exam.date}T${toTime(exam.end)}:00` }
+      : { start: exam.date, allDay: true }),
+    backgroundColor: getSectionColor(exam.section),
+    textColor: '#000000',
+    ...(clashing.has(exam) && {
+      borderColor: '#e7000b', // red-600
+      classNames: ['planner-conflict-event']
+    }),
+    extendedProps: { sectionId: exam.section.id }
+  }));
+
+  // only show the hours that have exams in them
+  const earliest = Math.min(...timedExams.map(exam => exam.start!));
+  const latest = Math.max(...timedExams.map(exam => exam.end!));
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {(clashes.length > 0 || hardships.length > 0) && (
+        <div className="mb-2 px-3 py-2 bg-red-50 border border-red-300 rounded-lg text-sm text-red-800 max-h-24 overflow-y-auto">
+          {clashes.map((clash, idx) => (
+            <p key={`clash-${idx}`}>
+              ⚠️ {examName(clash.first)} and {examName(clash.second)} exams are at the same time on {formatDate(clash.first.date)}
+            </p>
+          ))}
+          {hardships.map((hardship, idx) => (
+            <p key={`hardship-${idx}`}>
+              ⚠️ {hardship.length} exams within 24 hours: {hardship.map(exam => `${examName(exam)} (${formatDate(exam.date)} ${formatExamTime(exam)})`).join(', ')}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="min-h-72 flex-1 bg-white rounded-lg shadow mb-2">
+        <FullCalendar
+          // remount when the range changes, visibleRange isn't picked up after the first render
+          key={`${firstDate}-${lastDate}`}
+          plugins={[dayGridPlugin, timeGridPlugin]}
+          initialView={dayCount <= MAX_TIME_GRID_DAYS ? 'timeGrid' : 'dayGrid'}
+          visibleRange={{ start: firstDate, end: addDays(lastDate, 1) }}
+          headerToolbar={false}
+          slotMinTime={timedExams.length > 0 ? `${toTime(Math.floor(earliest / 60) * 60)}:00` : '08:00:00'}
+          slotMaxTime={timedExams.length > 0 ? `${toTime(Math.min(Math.ceil(latest / 60) * 60, 24 * 60 - 1))}:00` : '22:00:00'}
+          slotDuration="00:60:00"
+          expandRows={true}
+          allDaySlot={exams.length > timedExams.length}
+          allDayText="TBA"
+          dayHeaderFormat={{ weekday: 'short', month: 'short', day: 'numeric' }}
+          height="100%"
+          events={events}
+          eventClick={(clickInfo: EventClickArg) => {
+            const section = sections.find(s => s.id === clickInfo.event.extendedProps.sectionId);
+            if (section) onExamClick(section);
+          }}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-3 text-sm max-h-50 overflow-y-auto">
+        <h3 className="font-semibold text-gray-800 mb-1">Final Exams</h3>
+        <ul className="space-y-0.5">
+          {exams.map((exam, idx) => (
+            <li key={idx} className={clashing.has(exam) ? 'text-red-700' : ''}>
+              <span className="font-medium">{examName(exam)}</span>
+              {' '}{formatDate(exam.date)}, {formatExamTime(exam)}
+              {exam.room && <span className="text-gray-500"> • {exam.room}</span>}
+            </li>
+          ))}
+          {sectionsWithoutExams.map(section => (
+            <li key={section.id} className="text-gray-500">
+              <span className="font-medium">{section.subject} {section.course_code} {section.section}</span>
+              {' '}no exam posted
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ExamSchedule;
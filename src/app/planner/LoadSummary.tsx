@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { formatHours, isOverloaded, LoadThresholds, loadStatus, ScheduleTotals } from '@/lib/course-load';
+
+interface LoadSummaryProps {
+  totals: ScheduleTotals;
+  thresholds: LoadThresholds;
+  onThresholdsChange: (thresholds: LoadThresholds) => void;
+}
+
+const STATUS_STYLES = {
+  'full-time': 'bg-green-100 text-green-800',
+  'part-time': 'bg-gray-100 text-gray-700'
+};
+
+// Totals of the schedule on screen, above the calendar
+const LoadSummary: React.FC<LoadSummaryProps> = ({ totals, thresholds, onThresholdsChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const status = loadStatus(totals, thresholds);
+  const overloaded = isOverloaded(totals, thresholds);
+
+  const setThreshold = (key: keyof LoadThresholds, value: string) => {
+    const number = parseFloat(value);
+    if (!isNaN(number) && number >= 0) onThresholdsChange({ ...thresholds, [key]: number });
+  };
+
+  return (
+    <div className="mb-2 px-3 py-2 bg-white rounded-lg shadow text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span>
+          <span className="font-semibold">{formatHours(totals.credits)}</span> credits
+          {totals.unknownCredits > 0 && (
+            <span className="text-gray-500" title="Credits aren't listed for some sections">
+              {' '}(+{totals.unknownCredits} unknown)
+            </span>
+          )}
+        </span>
+        <span title="Hours per week">
+          Lecture {formatHours(totals.lectureHours)}h • Lab {formatHours(totals.labHours)}h • Seminar {formatHours(totals.seminarHours)}h
+          <span className="text-gray-500"> / week</span>
+        </span>
+        <span>{totals.campusDays} day{totals.campusDays !== 1 ? 's' : ''} on campus</span>
+        {status !== 'none' && (
+          <span
+            className={`px-2 rounded ${STATUS_STYLES[status]}`}
+            title={`Full-time is ${thresholds.fullTimeCredits} credits or more`}
+          >
+            {status === 'full-time' ? 'Full-time' : 'Part-time'}
+          </span>
+        )}
+        {overloaded && (
+          <span className="text-red-700">
+            ⚠️ Over {thresholds.maxCredits} credits
+          </span>
+        )}
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className="ml-auto text-gray-500 hover:text-gray-700 cursor-pointer"
+          title="Change the full-time and maximum credit limits"
+        >
+          ⚙️
+        </button>
+      </div>
+
+      {isEditing && (
+        <div className="flex flex-wrap items-center gap-4 mt-2 pt-2 border-t">
+          <label className="flex items-center gap-1">
+            Full-time from
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={thresholds.fullTimeCredits}
+              onChange={(e) => setThreshold('fullTimeCredits', e.target.value)}
+              className="w-16 p-1 border border-gray-300 rounded"
+            />
+            credits
+          </label>
+          <label className="flex items-center gap-1">
+            Warn above
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={thresholds.maxCredits}
+              onChange={(e) => setThreshold('maxCredits', e.target.value)}
+              className="w-16 p-1 border border-gray-300 rounded"
+            />
+            credits
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoadSummary;
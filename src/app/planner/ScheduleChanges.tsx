@@ -0,0 +1,88 @@
+import React from 'react';
+import { SectionChange } from '@/lib/schedule-changes';
+import { sectionAvailability } from '@/lib/section-filters';
+import { Section } from '@/types/Section';
+
+interface ScheduleChangesProps {
+  changes: SectionChange[];
+  getReplacements: (change: SectionChange) => Section[];
+  onReplace: (change: SectionChange, replacement: Section) => void;
+  // takes the section out of the schedule
+  onRemove: (change: SectionChange) => void;
+  // keeps the section, the change won't be shown again
+  onDismiss: (change: SectionChange) => void;
+}
+
+const REPLACEMENT_STYLES = {
+  cancelled: 'bg-red-100 border-red-300',
+  full: 'bg-red-100 border-red-300',
+  'long-waitlist': 'bg-red-100 border-red-300',
+  waitlist: 'bg-yellow-100 border-yellow-300',
+  open: 'bg-green-100 border-green-300'
+};
+
+const describe = (change: SectionChange): string => {
+  switch (change.kind) {
+    case 'missing':
+      return `${change.name} (CRN ${change.crn}) isn't offered anymore and is no longer on your calendar.`;
+    case 'cancelled':
+      return `${change.name} (CRN ${change.crn}) was cancelled.`;
+    case 'changed':
+      return `${change.name} (CRN ${change.crn}) changed since you added it:`;
+  }
+};
+
+// Shown above the section list when sections of the open schedule were cancelled, changed or removed
+const ScheduleChanges: React.FC<ScheduleChangesProps> = ({ changes, getReplacements, onReplace, onRemove, onDismiss }) => {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="mb-2 p-2 rounded-md bg-red-50 border border-red-300 text-sm max-h-64 overflow-y-auto">
+      <div className="font-medium text-red-800 mb-1">
+        {changes.length} section{changes.length !== 1 ? 's' : ''} in this schedule changed
+      </div>
+      <ul className="space-y-2">
+        {changes.map(change => {
+          const replacements = getReplacements(change);
+          return (
+            <li key={change.crn}>
+              <div className="text-red-800">⚠️ {describe(change)}</div>
+              {change.details.map((detail, idx) => (
+                <div key={idx} className="text-gray-700 ml-5">{detail}</div>
+              ))}
+
+              {replacements.length > 0 ? (
+                <div className="flex flex-wrap items-center gap-1 mt-1 ml-5">
+                  <span className="text-gray-600">Replace with:</span>
+                  {replacements.map(section => (
+                    <button
+                      key={section.id}
+                      onClick={() => onReplace(change, section)}
+                      className={`px-1 rounded border cursor-pointer hover:brightness-95 ${REPLACEMENT_STYLES[sectionAvailability(section)]}`}
+                      title={section.schedule.filter(s => s.type !== 'Exam').map(s => `${s.type} ${s.days} ${s.time} ${s.room}`).join('\n')}
+                    >
+                      {section.section} • {section.seats} seat{section.seats !== '1' ? 's' : ''}
+                    </button>
+                  ))}
+                </div>
+              ) : (change.section || change.snapshot) && (
+                <div className="text-gray-600 mt-1 ml-5">No other sections of this course fit your schedule.</div>
+              )}
+
+              <div className="flex gap-3 mt-1 ml-5">
+                <button onClick={() => onRemove(change)} className="text-blue-600 hover:underline cursor-pointer">
+                  Remove from schedule
+                </button>
+                <button onClick={() => onDismiss(change)} className="text-blue-600 hover:underline cursor-pointer">
+                  {change.kind === 'changed' ? 'OK' : 'Dismiss'}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ScheduleChanges;
@@ -1,7 +1,16 @@
 'use client'
 
 import React, { useState, useEffect } from 'react';
-import { SavedSchedule, Section } from '@/types/Planner2';
+import { SavedSchedule } from '@/types/Planner2';
+import {
+  clearSchedules,
+  loadCurrentScheduleId,
+  loadQuarantine,
+  loadRawSchedules,
+  loadSchedules,
+  QuarantinedRecord
+} from '@/lib/schedule-storage';
+import { Section } from '@/types/Section';
 
 interface ScheduleDebuggerProps {
   isOpen: boolean;
@@ -23,27 +32,14 @@ const ScheduleDebugger: React.FC<ScheduleDebuggerProps> = ({
   currentTerm
 }) => {
   const [savedSchedules, setSavedSchedules] = useState<SavedSchedule[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
   const [refreshKey, setRefreshKey] = useState(0);
 
   // Load saved schedules from localStorage
   useEffect(() => {
-    const loadSchedules = () => {
-      const saved = localStorage.getItem('langara-saved-schedules');
-      if (saved) {
-        try {
-          const schedules = JSON.parse(saved);
-          setSavedSchedules(schedules);
-        } catch (e) {
-          console.error('Failed to parse saved schedules:', e);
-          setSavedSchedules([]);
-        }
-      } else {
-        setSavedSchedules([]);
-      }
-    };
-
     if (isOpen) {
-      loadSchedules();
+      setSavedSchedules(loadSchedules());
+      setQuarantined(loadQuarantine());
     }
   }, [isOpen, refreshKey]);
 
@@ -77,8 +73,7 @@ const ScheduleDebugger: React.FC<ScheduleDebuggerProps> = ({
 
   const clearAllSchedules = () => {
     if (confirm('Are you sure you want to delete ALL schedules? This cannot be undone.')) {
-      localStorage.removeItem('langara-saved-schedules');
-      localStorage.removeItem('langara-current-schedule-id');
+      clearSchedules();
       setRefreshKey(prev => prev + 1);
     }
   };
@@ -233,10 +228,10 @@ const ScheduleDebugger: React.FC<ScheduleDebuggerProps> = ({
                   '? No current schedule'
                 }
               </div>
-              <div className={`p-2 rounded ${localStorage.getItem('langara-current-schedule-id') === currentScheduleId ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                <strong>localStorage Sync:</strong> {localStorage.getItem('langara-current-schedule-id') === currentScheduleId ? 
+              <div className={`p-2 rounded ${loadCurrentScheduleId() === currentScheduleId ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                <strong>localStorage Sync:</strong> {loadCurrentScheduleId() === currentScheduleId ? 
                   '✓ localStorage matches state' : 
-                  `✗ localStorage has "${localStorage.getItem('langara-current-schedule-id')}" but state has "${currentScheduleId}"`
+                  `✗ localStorage has "${loadCurrentScheduleId()}" but state has "${currentScheduleId}"`
                 }
               </div>
             </div>
@@ -281,13 +276,19 @@ const ScheduleDebugger: React.FC<ScheduleDebuggerProps> = ({
               <div>
                 <strong>langara-saved-schedules:</strong>
                 <pre className="text-xs font-mono p-2 bg-gray-100 rounded mt-1 max-h-32 overflow-auto">
-                  {localStorage.getItem('langara-saved-schedules') || 'null'}
+                  {loadRawSchedules() || 'null'}
                 </pre>
               </div>
               <div>
                 <strong>langara-current-schedule-id:</strong>
                 <pre className="text-xs font-mono p-2 bg-gray-100 rounded mt-1">
-                  {localStorage.getItem('langara-current-schedule-id') || 'null'}
+                  {loadCurrentScheduleId() || 'null'}
+                </pre>
+              </div>
+              <div>
+                <strong>Quarantined records ({quarantined.length}):</strong>
+                <pre className="text-xs font-mono p-2 bg-gray-100 rounded mt-1 max-h-32 overflow-auto">
+                  {quarantined.length > 0 ? JSON.stringify(quarantined, null, 2) : 'none'}
                 </pre>
               </div>
             </div>
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { encodeShareLink, SharedSchedule } from '@/lib/share-links';
+import { termToSeason } from '@/lib/semester-calendar';
+import { SavedSchedule } from '@/types/Planner2';
+
+interface ShareModalProps {
+  onClose: () => void;
+  // the schedule on screen, with the sections that are selected right now
+  current: SharedSchedule;
+  // other saved schedules that can be added to the same link
+  otherSchedules: SavedSchedule[];
+  // the note is saved on the current schedule
+  onNotesChange: (notes: string) => void;
+}
+
+// Render with a key (or only while open) so it starts fresh each time
+const ShareModal: React.FC<ShareModalProps> = ({ onClose, current, otherSchedules, onNotesChange }) => {
+  const [copied, setCopied] = useState(false);
+  const [notes, setNotes] = useState(current.notes ?? '');
+  const [included, setIncluded] = useState<Set<string>>(new Set());
+
+  const schedules: SharedSchedule[] = [
+    { ...current, notes },
+    ...otherSchedules.filter(s => included.has(s.id))
+  ];
+  const shareUrl = `${window.location.origin}${encodeShareLink(schedules)}`;
+
+  const toggleIncluded = (id: string) => {
+    const updated = new Set(included);
+    if (updated.has(id)) {
+      updated.delete(id);
+    } else {
+      updated.add(id);
+    }
+    setIncluded(updated);
+  };
+
+  const copyToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Fallback for older browsers
+      const textArea = document.createElement('textarea');
+      textArea.value = shareUrl;
+      document.body.appendChild(textArea);
+      textArea.select();
+      document.execCommand('copy');
+      document.body.removeChild(textArea);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-50 flex items-center justify-center z-50"
+      style={{ backgroundColor: 'rgba(249, 250, 251, 0.5)' }}
+      onClick={onClose}
+    >
+
+      <div
+        className="bg-white rounded-lg p-6 max-w-md w-full mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Share Schedule</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-3">
+          Share this link to let others view your schedule:
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={shareUrl}
+            readOnly
+            className="flex-1 p-2 border rounded text-sm bg-gray-50"
+          />
+          <button
+            onClick={copyToClipboard}
+            className={`px-3 py-2 rounded text-sm ${copied
+              ? 'bg-green-500 text-white'
+              : 'bg-blue-500 text-white hover:bg-blue-600'
+              }`}
+          >
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Note (optional)
+        </label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => onNotesChange(notes)}
+          placeholder="e.g. Backup plan if MATH 1171 is full"
+          rows={2}
+          className="w-full p-2 border rounded text-sm mb-3"
+        />
+
+        {otherSchedules.length > 0 && (
+          <div className="mb-3">
+            <div className="text-sm font-medium text-gray-700 mb-1">Also include</div>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {otherSchedules.map(schedule => (
+                <label key={schedule.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={included.has(schedule.id)}
+                    onChange={() => toggleIncluded(schedule.id)}
+                  />
+                  <span className="truncate">{schedule.name}</span>
+                  <span className="text-gray-500 whitespace-nowrap">
+                    {termToSeason(schedule.term)} {schedule.year}, {schedule.crns.length} section{schedule.crns.length !== 1 ? 's' : ''}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="text-xs text-gray-500">
+          This link includes {current.crns.length} course{current.crns.length !== 1 ? 's' : ''} for {termToSeason(current.term)} {current.year}
+          {schedules.length > 1 && ` and ${schedules.length - 1} other schedule${schedules.length > 2 ? 's' : ''}`}.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareModal;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { findSavedCopy, SharedSchedule } from '@/lib/share-links';
+import { termToSeason } from '@/lib/semester-calendar';
+import { SavedSchedule } from '@/types/Planner2';
+
+interface SharedLinkPreviewProps {
+  // null when the link couldn't be read
+  schedules: SharedSchedule[] | null;
+  error: string | null;
+  savedSchedules: SavedSchedule[];
+  onView: (schedule: SharedSchedule) => void;
+  // return false if it couldn't be saved
+  onAdd: (schedule: SharedSchedule) => boolean;
+  onReplace: (schedule: SharedSchedule, scheduleId: string) => void;
+  onOpenSaved: (scheduleId: string) => void;
+  onClose: () => void;
+}
+
+// Shown when the planner is opened from a share link, nothing is saved until the user picks what to do
+const SharedLinkPreview: React.FC<SharedLinkPreviewProps> = ({
+  schedules,
+  error,
+  savedSchedules,
+  onView,
+  onAdd,
+  onReplace,
+  onOpenSaved,
+  onClose
+}) => {
+  // index -> what was done with it, e.g. "Added"
+  const [done, setDone] = useState<Record<number, string>>({});
+  // index -> id of the saved schedule to replace
+  const [replaceTargets, setReplaceTargets] = useState<Record<number, string>>({});
+
+  const replaceTarget = (schedule: SharedSchedule, index: number): string | undefined =>
+    replaceTargets[index]
+    ?? savedSchedules.find(s => s.name === schedule.name)?.id
+    ?? savedSchedules[0]?.id;
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center z-50"
+      style={{ backgroundColor: 'rgba(249, 250, 251, 0.5)' }}
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">
+            {schedules && schedules.length > 1 ? `${schedules.length} Shared Schedules` : 'Shared Schedule'}
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 cursor-pointer">
+            ✕
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-700 mb-3">{error}</p>}
+
+        <ul className="max-h-96 overflow-y-auto divide-y text-sm">
+          {schedules?.map((schedule, index) => {
+            const savedCopy = findSavedCopy(schedule, savedSchedules);
+            const target = replaceTarget(schedule, index);
+
+            return (
+              <li key={index} className="py-3">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium truncate">{schedule.name}</span>
+                  <span className="text-gray-500 whitespace-nowrap">
+                    {termToSeason(schedule.term)} {schedule.year}, {schedule.crns.length} section{schedule.crns.length !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                {schedule.notes && (
+                  <p className="mt-1 p-2 bg-gray-50 rounded text-gray-700 whitespace-pre-wrap">{schedule.notes}</p>
+                )}
+                {savedCopy && !done[index] && (
+                  <p className="mt-1 text-amber-700">You already have this schedule saved as &quot;{savedCopy.name}&quot;.</p>
+                )}
+
+                {done[index] ? (
+                  <p className="mt-2 text-green-700">{done[index]}</p>
+                ) : (
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    <button
+                      onClick={() => onView(schedule)}
+                      className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300 cursor-pointer"
+                      title="Look at it without saving anything"
+                    >
+                      View only
+                    </button>
+                    {savedCopy ? (
+                      <button
+                        onClick={() => onOpenSaved(savedCopy.id)}
+                        className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 cursor-pointer"
+                      >
+                        Open &quot;{savedCopy.name}&quot;
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          if (onAdd(schedule)) setDone(prev => ({ ...prev, [index]: 'Added to your schedules' }));
+                        }}
+                        className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600 cursor-pointer"
+                      >
+                        Add as new
+                      </button>
+                    )}
+                    {savedSchedules.length > 0 && target && (
+                      <span className="flex items-center gap-1">
+                        <button
+                          onClick={() => {
+                            onReplace(schedule, target);
+                            const name = savedSchedules.find(s => s.id === target)?.name;
+                            setDone(prev => ({ ...prev, [index]: `Replaced "${name}"` }));
+                          }}
+                          className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300 cursor-pointer"
+                        >
+                          Replace
+                        </button>
+                        <select
+                          value={target}
+                          onChange={(e) => setReplaceTargets(prev => ({ ...prev, [index]: e.target.value }))}
+                          className="p-1 border border-gray-300 rounded max-w-40"
+                        >
+                          {savedSchedules.map(s => (
+                            <option key={s.id} value={s.id}>{s.name}</option>
+                          ))}
+                        </select>
+                      </span>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 rounded text-sm bg-gray-200 hover:bg-gray-300 cursor-pointer"
+          >
+            {Object.keys(done).length > 0 ? 'Done' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedLinkPreview;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { sectionAvailability } from '@/lib/section-filters';
+import {
+  checkWatchedSections,
+  latestSnapshot,
+  loadLastChecked,
+  notificationsSupported,
+  requestNotificationPermission,
+  sendWatchNotification,
+  setWaitlistThreshold,
+  unwatchSection,
+  useWatchedSections,
+  WatchAlert
+} from '@/lib/section-watch';
+import { termToSeason } from '@/lib/semester-calendar';
+
+interface WatchListModalProps {
+  onClose: () => void;
+}
+
+const AVAILABILITY_TEXT = {
+  cancelled: 'text-red-700',
+  full: 'text-red-700',
+  'long-waitlist': 'text-red-700',
+  waitlist: 'text-yellow-700',
+  open: 'text-green-700'
+};
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// The watched sections with their seat history, render it only while open
+const WatchListModal: React.FC<WatchListModalProps> = ({ onClose }) => {
+  const watched = useWatchedSections();
+  const [lastChecked, setLastChecked] = useState(loadLastChecked);
+  const [isChecking, setIsChecking] = useState(false);
+  const [alerts, setAlerts] = useState<WatchAlert[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [permission, setPermission] = useState(() => notificationsSupported() ? Notification.permission : null);
+
+  const checkNow = async () => {
+    setIsChecking(true);
+    try {
+      const found = await checkWatchedSections(true);
+      found.forEach(sendWatchNotification);
+      setAlerts(found);
+      setLastChecked(loadLastChecked());
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const enableNotifications = async () => {
+    await requestNotificationPermission();
+    setPermission(Notification.permission);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center z-50"
+      style={{ backgroundColor: 'rgba(249, 250, 251, 0.5)' }}
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Watched Sections</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 cursor-pointer">
+            ✕
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-3">
+          Seats are checked every few minutes while this site is open in a tab.
+          {lastChecked && ` Last checked ${formatTime(lastChecked)}.`}
+        </p>
+
+        {permission === null && (
+          <p className="text-sm text-amber-700 mb-3">This browser can&apos;t show notifications, check back here instead.</p>
+        )}
+        {permission === 'denied' && (
+          <p className="text-sm text-amber-700 mb-3">Notifications are blocked for this site, allow them in your browser settings.</p>
+        )}
+        {permission === 'default' && (
+          <button
+            onClick={enableNotifications}
+            className="mb-3 px-3 py-1 rounded text-sm bg-blue-500 text-white hover:bg-blue-600 cursor-pointer"
+          >
+            Turn on notifications
+          </button>
+        )}
+
+        {alerts && (
+          <div className="text-sm mb-3">
+            {alerts.length === 0
+              ? <p className="text-gray-600">Nothing new.</p>
+              : alerts.map((alert, idx) => <p key={idx} className="text-green-700">{alert.message}</p>)}
+          </div>
+        )}
+
+        {watched.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            You aren&apos;t watching any sections. Use the 🔔 Watch button on a section to get notified when seats open up.
+          </p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y text-sm">
+            {watched.map(w => {
+              const latest = latestSnapshot(w);
+              return (
+                <li key={w.id} className="py-2">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium">{w.name}</span>
+                    <span className="text-gray-500 whitespace-nowrap">
+                      {termToSeason(w.term)} {w.year}, CRN {w.crn}
+                    </span>
+                  </div>
+                  {latest && (
+                    <div className={AVAILABILITY_TEXT[sectionAvailability(latest)]}>
+                      Seats: {latest.seats}
+                      {latest.waitlist && latest.waitlist !== ' ' && ` • Waitlist: ${latest.waitlist}`}
+                    </div>
+                  )}
+                  <div className="flex flex-wrap items-center gap-3 mt-1">
+                    <label className="flex items-center gap-1">
+                      Notify when the waitlist is under
+                      <input
+                        type="number"
+                        min={1}
+                        value={w.waitlistThreshold}
+                        onChange={(e) => {
+                          const threshold = parseInt(e.target.value);
+                          if (threshold > 0) setWaitlistThreshold(w.id, threshold);
+                        }}
+                        className="w-14 p-1 border border-gray-300 rounded"
+                      />
+                    </label>
+                    <button
+                      onClick={() => setExpandedId(expandedId === w.id ? null : w.id)}
+                      className="text-blue-600 hover:underline cursor-pointer"
+                    >
+                      {expandedId === w.id ? 'Hide history' : `History (${w.history.length})`}
+                    </button>
+                    <button
+                      onClick={() => unwatchSection(w.id)}
+                      className="text-red-600 hover:underline cursor-pointer"
+                    >
+                      Stop watching
+                    </button>
+                  </div>
+                  {expandedId === w.id && (
+                    <table className="w-full mt-1 text-xs text-gray-700">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th>When</th>
+                          <th>Seats</th>
+                          <th>Waitlist</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[...w.history].reverse().map((snapshot, idx) => (
+                          <tr key={idx}>
+                            <td>{formatTime(snapshot.checkedAt)}</td>
+                            <td>{snapshot.seats}</td>
+                            <td>{snapshot.waitlist && snapshot.waitlist !== ' ' ? snapshot.waitlist : '–'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={checkNow}
+            disabled={isChecking || watched.length === 0}
+            className="px-3 py-2 rounded text-sm bg-gray-200 hover:bg-gray-300 cursor-pointer disabled:opacity-40 disabled:cursor-default"
+          >
+            {isChecking ? 'Checking...' : 'Check now'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WatchListModal;
@@ -1,5 +1,6 @@
 import { Suspense } from 'react';
 import CoursePlanner from "./CoursePlanner";
+import ServiceWorkerRegistration from "./service-worker-registration";
 
 export const metadata = {
   title: "Langara Course Planner",
@@ -14,6 +15,7 @@ const PlannerPage = () => {
       </div>
     }>
       <CoursePlanner />
+      <ServiceWorkerRegistration />
     </Suspense>
   );
 };
@@ -0,0 +1,26 @@
+'use client'
+
+import { useEffect } from 'react';
+
+// Registers public/sw.js so that the planner can be opened without a connection,
+// it also shows the watch notifications (lib/section-watch.ts)
+// Only in production builds, in development it would keep serving stale scripts
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Failed to register the service worker:', error);
+    });
+
+    // the worker caches what the page html links to, this adds the chunks that were loaded later on
+    navigator.serviceWorker.ready.then((registration) => {
+      const urls = performance.getEntriesByType('resource')
+        .map((entry) => entry.name)
+        .filter((url) => new URL(url).pathname.startsWith('/_next/static/'));
+      registration.active?.postMessage({ type: 'cache-assets', urls });
+    });
+  }, []);
+
+  return null;
+}
@@ -3,52 +3,12 @@
 import { useState, useEffect, useMemo } from 'react';
 import debounce from 'lodash/debounce';
 import Link from 'next/link';
-
-interface Semester {
-    term: number;
-    year: number;
-    id: string;
-}
-
-interface SemestersResponse {
-    count: number;
-    semesters: Semester[];
-}
-
-interface Schedule {
-    type: string;
-    days: string;
-    time: string;
-    start: string;
-    end: string;
-    room: string;
-    instructor: string;
-    id: string;
-}
-
-interface Section {
-    RP: string;
-    abbreviated_title: string;
-    course_code: string;
-    credits: number;
-    crn: number;
-    id: string;
-    section: string;
-    subject: string;
-    term: number;
-    year: number;
-    seats: string;
-    waitlist: string;
-    schedule: Schedule[];
-}
-
-interface SectionsResponse {
-    page: number;
-    sections_per_page: number;
-    total_sections: number;
-    total_pages: number;
-    sections: Section[];
-}
+import { apiClient } from '@/lib/api-client';
+import { useWatchedSections } from '@/lib/section-watch';
+import { termToSeason } from '@/lib/semester-calendar';
+import WatchButton from '@/components/shared/watch-button';
+import { SemestersResponse } from '@/types/Course';
+import { SectionsPageResponse } from '@/types/Section';
 
 interface SearchParams {
     subject?: string;
@@ -72,47 +32,37 @@ interface SearchParams {
     sections_per_page?: number;
 }
 
-interface SubjectsResponse {
-    count: number;
-    subjects: string[];
-}
-
-const termToSeason = (term: number): string => {
-    switch (term) {
-        case 10: return 'Spring';
-        case 20: return 'Summer';
-        case 30: return 'Fall';
-        default: return 'Unknown';
-    }
-};
-
 export default function CourseBrowser() {
     const initial_sections_per_page = 50;
 
     const [semesters, setSemesters] = useState<SemestersResponse | null>(null);
     const [subjects, setSubjects] = useState<string[]>([]);
-    const [sections, setSections] = useState<SectionsResponse | null>(null);
+    const [sections, setSections] = useState<SectionsPageResponse | null>(null);
     const [searchParams, setSearchParams] = useState<SearchParams>({
         page: 1,
         sections_per_page: initial_sections_per_page
     });
     const [loading, setLoading] = useState(false);
     const [requestInfo, setRequestInfo] = useState<{ time?: number, cached?: boolean }>({});
+    // read once here, not by every row's watch button
+    const watchedSections = useWatchedSections();
+    const watchedIds = useMemo(() => new Set(watchedSections.map(w => w.id)), [watchedSections]);
 
 
     // Fetch initial data
     useEffect(() => {
         const fetchInitialData = async () => {
-            const [semestersRes, subjectsRes] = await Promise.all([
-                fetch('https://api.langaracourses.ca/v1/index/semesters'),
-                fetch('https://api.langaracourses.ca/v1/index/subjects')
-            ]);
-
-            const semestersData = await semestersRes.json();
-            const subjectsData: SubjectsResponse = await subjectsRes.json();
-
-            setSemesters(semestersData);
-            setSubjects(subjectsData.subjects);
+            try {
+                const [semestersData, subjectsData] = await Promise.all([
+                    apiClient.getSemesters(),
+                    apiClient.getSubjects()
+                ]);
+
+                setSemesters(semestersData);
+                setSubjects(subjectsData.subjects);
+            } catch (error) {
+                console.error('Failed to load semesters and subjects:', error);
+            }
         };
 
         fetchInitialData();
@@ -133,18 +83,15 @@ export default function CourseBrowser() {
                 });
 
                 const start = performance.now();
-                const response = await fetch(
-                    `https://api.langaracourses.ca/v2/search/sections?${queryParams}`
-                );
-                const data = await response.json();
-
-                // Check if response was cached
-                // note: some headers are dropped on localhost due to CORS, they should work correctly when hosted on the server.
-                const cached = response.headers.get('x-fastapi-cache') === 'HIT';
-                const time = Math.round(performance.now() - start);
-
-                setRequestInfo({ time, cached });
-                setSections(data);
+                try {
+                    const { data, cached } = await apiClient.searchSections(queryParams);
+                    const time = Math.round(performance.now() - start);
+
+                    setRequestInfo({ time, cached });
+                    setSections(data);
+                } catch (error) {
+                    console.error('Section search failed:', error);
+                }
                 setLoading(false);
             }, 200),
         []
@@ -448,6 +395,7 @@ export default function CourseBrowser() {
                             <th className="p-2 w-1/12">Seats</th>
                             <th className="p-2 w-1/12 whitespace-nowrap">On Waitlist</th>
                             <th className="p-2 w-1/12 whitespace-nowrap">Room</th>
+                            <th className="p-2 w-1/12"></th>
                         </tr>
                     </thead>
                     <tbody>
@@ -481,6 +429,7 @@ export default function CourseBrowser() {
                                             .filter((room, index, self) => self.indexOf(room) === index) // Remove duplicates
                                             .join(", ") || "Unknown"}
                                     </td>
+                                    <td className="p-2 w-1/12 whitespace-nowrap"><WatchButton section={section} isWatched={watchedIds.has(section.id)} /></td>
                                 </tr>
                             ))
                         )}
@@ -1,38 +1,12 @@
 import { MetadataRoute } from "next"
+import { apiClient } from "@/lib/api-client"
 
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://langaracourses.ca'
 
-interface CourseIndex {
-    subject: string;
-    course_code: string;
-    title: string;
-    on_langara_website: boolean;
-}
-
-interface CourseIndexList {
-    course_count: number;
-    courses: CourseIndex[];
-}
-
-interface TransferDestination {
-    code: string;
-    name: string;
-}
-
-interface TransferDestinationsResponse {
-    transfers: TransferDestination[];
-}
-
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   try {
     // Fetch all courses
-    const coursesResponse = await fetch('https://api.langaracourses.ca/v1/index/courses');
-    if (!coursesResponse.ok) {
-      console.error('Failed to fetch courses for sitemap');
-      return [];
-    }
-    
-    const coursesData: CourseIndexList = await coursesResponse.json();
+    const coursesData = await apiClient.getCourseIndex();
 
     // Generate sitemap entries for courses
     const courseUrls: MetadataRoute.Sitemap = coursesData.courses.map((course) => ({
@@ -44,11 +18,10 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     
     
     // Fetch transfer destinations
-    const transfersResponse = await fetch('https://api.langaracourses.ca/v1/index/transfer_destinations');
     let transferUrls: MetadataRoute.Sitemap = [];
     
-    if (transfersResponse.ok) {
-      const transfersData: TransferDestinationsResponse = await transfersResponse.json();
+    try {
+      const transfersData = await apiClient.getTransferDestinations();
       
       // Generate sitemap entries for transfer institution pages
       transferUrls = transfersData.transfers.map((institution) => ({
@@ -57,8 +30,8 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
         changeFrequency: 'monthly',
         priority: 0.5,
       }));
-    } else {
-      console.error('Failed to fetch transfer destinations for sitemap');
+    } catch (error) {
+      console.error('Failed to fetch transfer destinations for sitemap:', error);
     }
     
     
@@ -0,0 +1,143 @@
+'use client'
+
+import React from 'react';
+import { TimetableConstraints, DEFAULT_CONSTRAINTS } from '@/utils/timetableGenerator';
+
+interface ConstraintsPanelProps {
+  constraints: TimetableConstraints;
+  setConstraints: (constraints: TimetableConstraints) => void;
+}
+
+// same order as the days string from the api (M-W----)
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// "08:30" <-> 510
+const timeInputToMinutes = (value: string): number | null => {
+  if (!value) return null;
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const minutesToTimeInput = (minutes: number | null): string => {
+  if (minutes === null) return '';
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+};
+
+export default function ConstraintsPanel({ constraints, setConstraints }: ConstraintsPanelProps) {
+  const activeCount = [
+    constraints.freeDays.length > 0,
+    constraints.earliestStart !== null,
+    constraints.latestEnd !== null,
+    constraints.maxCampusDays !== null,
+    constraints.minGap > 0,
+    constraints.noExamClashes
+  ].filter(Boolean).length;
+
+  const toggleFreeDay = (day: number) => {
+    setConstraints({
+      ...constraints,
+      freeDays: constraints.freeDays.includes(day)
+        ? constraints.freeDays.filter(d => d !== day)
+        : [...constraints.freeDays, day]
+    });
+  };
+
+  return (
+    <details className='mx-2 mt-2 border-2 rounded bg-white text-sm'>
+      <summary className='p-2 font-semibold cursor-pointer'>
+        Constraints{activeCount > 0 ? ` (${activeCount} active)` : ''}
+      </summary>
+
+      <div className='flex flex-col gap-2 p-2 pt-0'>
+        <div>
+          <p className='font-medium'>Days off:</p>
+          <div className='flex flex-wrap gap-x-3'>
+            {DAYS.map((day, index) => (
+              <label key={day} className='flex items-center gap-1'>
+                <input
+                  type='checkbox'
+                  checked={constraints.freeDays.includes(index)}
+                  onChange={() => toggleFreeDay(index)}
+                />
+                {day}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className='flex flex-wrap gap-x-4 gap-y-2'>
+          <label className='flex flex-col'>
+            <span className='font-medium'>No class before:</span>
+            <input
+              type='time'
+              step={1800}
+              value={minutesToTimeInput(constraints.earliestStart)}
+              onChange={e => setConstraints({ ...constraints, earliestStart: timeInputToMinutes(e.target.value) })}
+              className='border rounded p-1'
+            />
+          </label>
+
+          <label className='flex flex-col'>
+            <span className='font-medium'>No class after:</span>
+            <input
+              type='time'
+              step={1800}
+              value={minutesToTimeInput(constraints.latestEnd)}
+              onChange={e => setConstraints({ ...constraints, latestEnd: timeInputToMinutes(e.target.value) })}
+              className='border rounded p-1'
+            />
+          </label>
+        </div>
+
+        <div className='flex flex-wrap gap-x-4 gap-y-2'>
+          <label className='flex flex-col'>
+            <span className='font-medium'>Max days on campus:</span>
+            <select
+              value={constraints.maxCampusDays ?? ''}
+              onChange={e => setConstraints({ ...constraints, maxCampusDays: e.target.value ? Number(e.target.value) : null })}
+              className='border rounded p-1'
+            >
+              <option value=''>Any</option>
+              {[1, 2, 3, 4, 5].map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className='flex flex-col'>
+            <span className='font-medium'>Min. gap between classes:</span>
+            <select
+              value={constraints.minGap}
+              onChange={e => setConstraints({ ...constraints, minGap: Number(e.target.value) })}
+              className='border rounded p-1'
+            >
+              <option value={0}>None</option>
+              <option value={10}>10 minutes</option>
+              <option value={20}>20 minutes</option>
+              <option value={30}>30 minutes</option>
+              <option value={60}>1 hour</option>
+            </select>
+          </label>
+        </div>
+
+        <label className='flex items-center gap-1'>
+          <input
+            type='checkbox'
+            checked={constraints.noExamClashes}
+            onChange={e => setConstraints({ ...constraints, noExamClashes: e.target.checked })}
+          />
+          <span className='font-medium'>No final exams at the same time</span>
+        </label>
+
+        {activeCount > 0 && (
+          <button
+            onClick={() => setConstraints(DEFAULT_CONSTRAINTS)}
+            className='text-red-700 hover:text-red-900 w-fit cursor-pointer'
+          >
+            Clear constraints
+          </button>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import React from 'react';
+import { DEFAULT_WEIGHTS, MAX_WEIGHT, RankingWeights } from '@/utils/timetableRanking';
+
+interface RankingPanelProps {
+  weights: RankingWeights;
+  setWeights: (weights: RankingWeights) => void;
+  sortByScore: boolean;
+  setSortByScore: (sortByScore: boolean) => void;
+}
+
+const CRITERIA: { key: keyof RankingWeights; label: string }[] = [
+  { key: 'idleTime', label: 'Less time between classes' },
+  { key: 'campusDays', label: 'Fewer days on campus' },
+  { key: 'lateStart', label: 'Later first class' },
+  { key: 'openSeats', label: 'Open seats (not waitlisted)' },
+  { key: 'online', label: 'Online sections' },
+];
+
+export default function RankingPanel({ weights, setWeights, sortByScore, setSortByScore }: RankingPanelProps) {
+  return (
+    <details className='mx-2 mt-2 border-2 rounded bg-white text-sm'>
+      <summary className='p-2 font-semibold cursor-pointer'>
+        Ranking{sortByScore ? ' (sorted by score)' : ''}
+      </summary>
+
+      <div className='flex flex-col gap-2 p-2 pt-0'>
+        <label className='flex items-center gap-1'>
+          <input
+            type='checkbox'
+            checked={sortByScore}
+            onChange={e => setSortByScore(e.target.checked)}
+          />
+          Sort timetables by score
+        </label>
+
+        {CRITERIA.map(({ key, label }) => (
+          <label key={key} className='grid grid-cols-[1fr_auto_1.5rem] items-center gap-2'>
+            <span>{label}</span>
+            <input
+              type='range'
+              min={0}
+              max={MAX_WEIGHT}
+              value={weights[key]}
+              onChange={e => setWeights({ ...weights, [key]: Number(e.target.value) })}
+            />
+            <span className='text-right'>{weights[key]}</span>
+          </label>
+        ))}
+
+        <button
+          onClick={() => setWeights(DEFAULT_WEIGHTS)}
+          className='text-gray-700 hover:text-gray-900 w-fit cursor-pointer'
+        >
+          Reset weights
+        </button>
+      </div>
+    </details>
+  );
+}
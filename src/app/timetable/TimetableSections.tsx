@@ -1,35 +1,165 @@
 'use client'
 import * as React from "react"
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef, useCallback } from "react"
 import { CourseInternal } from '../../types/Course';
 import { Section } from '../../types/Section';
-import { generateTimetables } from '@/utils/timetableGenerator';
+import { TimetableConstraints } from '@/utils/timetableGenerator';
+import type { TimetableWorkerRequest, TimetableWorkerResponse } from '@/utils/timetableWorker';
+import { RankingWeights, scoreTimetable } from '@/utils/timetableRanking';
+import { TimetableDiagnosis } from '@/utils/timetableDiagnostics';
+import { encodeTimetableLink } from '@/utils/timetableLink';
+import { SavedSchedule } from '@/types/Planner2';
+import { addSchedule, saveCurrentScheduleId } from '@/lib/schedule-storage';
+import Link from 'next/link';
 
 interface CoursesProp {
   courses: CourseInternal[];
+  constraints: TimetableConstraints;
+  year: string;
+  term: string;
+  weights: RankingWeights;
+  sortByScore: boolean;
   setCurrentTimetable: (sections: Section[]) => void;
 }
 
-export default function TimetableSections({ courses, setCurrentTimetable }: CoursesProp) {
+// how many timetables to find before waiting for "load more", or how many of the best to keep when sorting by score
+const PAGE_SIZE = 100;
+const RANKING_DELAY_MS = 300;
+
+// the same timetable has the same key, wherever it is in the list
+const timetableKey = (timetable: Section[]): string => timetable.map(section => section.id).join(',');
+
+// Add a schedule to the planner's saved schedules and make it the one the planner opens
+const saveScheduleToPlanner = (schedule: SavedSchedule): boolean => {
+  if (!addSchedule(schedule)) return false;
+  saveCurrentScheduleId(schedule.id);
+  return true;
+};
+
+export default function TimetableSections({ courses, constraints, year, term, weights, sortByScore, setCurrentTimetable }: CoursesProp) {
   const [timetables, setTimetables] = useState<Section[][]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [found, setFound] = useState(0);
+  // the timetable being looked at, by key so that it stays on screen while the ranking changes
+  // index is where it was, for when it drops out of the best timetables
+  const [viewed, setViewed] = useState<{ key: string | null; index: number }>({ key: null, index: 0 });
+  const [status, setStatus] = useState<'idle' | 'searching' | 'paused' | 'done' | 'stopped'>('idle');
+  const [progress, setProgress] = useState(0);
+  const [diagnosis, setDiagnosis] = useState<TimetableDiagnosis | null>(null);
+  const [savedKey, setSavedKey] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const workerRef = useRef<Worker | null>(null);
+  // id of the current search, results from older searches are ignored
+  const searchIdRef = useRef(0);
+
+  const postToWorker = useCallback((request: TimetableWorkerRequest) => {
+    workerRef.current?.postMessage(request);
+  }, []);
+
+  //  Start the search worker
+  useEffect(() => {
+    const worker = new Worker(new URL('../../utils/timetableWorker.ts', import.meta.url));
 
-  //  Generate timetables when courses change
+    worker.onmessage = (e: MessageEvent<TimetableWorkerResponse>) => {
+      const response = e.data;
+      if (response.id !== searchIdRef.current) return;
+
+      if (response.best) {
+        setTimetables(response.best);
+      } else if (response.timetables.length > 0) {
+        setTimetables(prev => [...prev, ...response.timetables]);
+      }
+      setFound(response.found);
+      setProgress(response.progress);
+      setStatus(response.status);
+      setDiagnosis(response.diagnosis ?? null);
+    };
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  //  Ranking happens in the worker, so that the best timetables are found even if they're far into the search
+  //  Changing the weights restarts the search, so wait until the slider stops moving
+  const [rankingWeights, setRankingWeights] = useState<RankingWeights | null>(sortByScore ? weights : null);
   useEffect(() => {
+    const timeout = setTimeout(() => setRankingWeights(sortByScore ? weights : null), RANKING_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [weights, sortByScore]);
+
+  //  Generate timetables when courses, constraints or the ranking change (this cancels any search in progress)
+  useEffect(() => {
+    const id = ++searchIdRef.current;
+    setTimetables([]);
+    setFound(0);
+    setViewed({ key: null, index: 0 });
+    setProgress(0);
+    setDiagnosis(null);
+
     if (courses.length > 0) {
-      const generated = generateTimetables(courses);
-      setTimetables(generated);
-      setCurrentIndex(0);
+      setStatus('searching');
+      postToWorker({ type: 'start', id, courses, constraints, pageSize: PAGE_SIZE, weights: rankingWeights });
     } else {
-      setTimetables([]);
+      setStatus('idle');
+      postToWorker({ type: 'cancel', id });
     }
-  }, [courses]);
+  }, [courses, constraints, rankingWeights, postToWorker]);
+
+  const loadMore = () => {
+    setStatus('searching');
+    postToWorker({ type: 'more', id: searchIdRef.current, pageSize: PAGE_SIZE });
+  };
+
+  const stopSearch = () => {
+    setStatus('stopped');
+    postToWorker({ type: 'cancel', id: searchIdRef.current });
+  };
+
+  const keys = useMemo(() => timetables.map(timetableKey), [timetables]);
+  const viewedIndex = viewed.key === null ? -1 : keys.indexOf(viewed.key);
+  const currentIndex = viewedIndex !== -1 ? viewedIndex : Math.min(viewed.index, Math.max(0, timetables.length - 1));
+
+  const goTo = (index: number) => setViewed({ key: keys[index] ?? null, index });
+
+  //  Hold on to the first timetable once it arrives, better ones found later shouldn't replace it on screen
+  useEffect(() => {
+    if (viewed.key === null && keys.length > 0) setViewed({ key: keys[0], index: 0 });
+  }, [keys, viewed.key]);
+
+  const currentTimetable = useMemo(() => timetables[currentIndex] ?? [], [timetables, currentIndex]);
+  const currentScore = useMemo(() => Math.round(scoreTimetable(currentTimetable, weights)), [currentTimetable, weights]);
 
   //  Update current timetable when index or timetables change
   useEffect(() => {
-    const currentTimetable = timetables.length > 0 ? timetables[currentIndex] : [];
     setCurrentTimetable(currentTimetable);
-  }, [currentIndex, timetables, setCurrentTimetable]);
+  }, [currentTimetable, setCurrentTimetable]);
+
+  const saveToPlanner = () => {
+    const courseNames = currentTimetable.map(section => `${section.subject} ${section.course_code}`);
+    const saved = saveScheduleToPlanner({
+      id: Date.now().toString(),
+      name: courseNames.length <= 3 ? courseNames.join(', ') : `Generated Timetable ${currentIndex + 1}`,
+      year: Number(year),
+      term: Number(term),
+      crns: currentTimetable.map(section => section.crn.toString()),
+      createdAt: Date.now()
+    });
+    if (saved) setSavedKey(timetableKey(currentTimetable));
+  };
+
+  const copyShareLink = async () => {
+    const shareUrl = window.location.origin + encodeTimetableLink(year, term, courses, constraints);
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
 
 
   return (
@@ -39,42 +169,86 @@ export default function TimetableSections({ courses, setCurrentTimetable }: Cour
         <div>
           <h2 className="font-bold text-lg">
             {courses.length === 0 ? "Timetables List" :
-              timetables.length === 0 ? "No timetables found." :
-                `Timetable ${currentIndex + 1} of ${timetables.length}`}
+              timetables.length === 0 ? (status === 'searching' ? "Searching..." : "No timetables found.") :
+                `Timetable ${currentIndex + 1} of ${timetables.length}${status === 'paused' ? '+' : ''}`}
           </h2>
-          {/* commented out until i can write better error messages that actually tell you what went wrong */}
-          {/* {timetables.length === 0 && courses.length > 0 && (
-            <>
-              <p>There is likely an unfixable time conflict.</p>
-              <p>Try selecting some different sections.</p>
-            </>
-          )} */}
+          {sortByScore && found > timetables.length && (
+            <p className="text-sm">The best {timetables.length} of {found} found</p>
+          )}
+          {status === 'searching' && (
+            <p className="text-sm">Searching... {Math.floor(progress * 100)}%</p>
+          )}
+          {timetables.length > 0 && (
+            <p className="text-sm">Score: {currentScore}/100</p>
+          )}
+          {timetables.length === 0 && diagnosis && (
+            <div className="text-sm mt-1">
+              {diagnosis.emptyCourses.map(({ course, reason }) => (
+                <p key={course}>{course} has no usable sections: {reason}.</p>
+              ))}
+              {diagnosis.clashingPairs.map(([first, second]) => (
+                <p key={`${first}-${second}`}>No section of {first} fits with any section of {second}.</p>
+              ))}
+              {diagnosis.noVisibleCourses && (
+                <p>Every course is hidden, so there is nothing to schedule.</p>
+              )}
+              {!diagnosis.noVisibleCourses && diagnosis.emptyCourses.length === 0 && diagnosis.clashingPairs.length === 0 && (
+                <p>{diagnosis.minimalConflict.join(', ')} can&apos;t all be taken together.</p>
+              )}
+              {diagnosis.suggestions.length > 0 && (
+                <>
+                  <p className="font-semibold mt-1">Try:</p>
+                  <ul className="list-disc pl-5">
+                    {diagnosis.suggestions.map(suggestion => (
+                      <li key={suggestion}>{suggestion}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
         </div>
 
 
         <div className="flex gap-2 flex-row">
           <button
-            onClick={() => setCurrentIndex(prev => Math.max(0, prev - 1))}
+            onClick={() => goTo(Math.max(0, currentIndex - 1))}
             disabled={currentIndex === 0}
             className="px-4 py-2 bg-blue-500 text-white rounded disabled:bg-gray-300"
           >
             Prev
           </button>
           <button
-            onClick={() => setCurrentIndex(prev => Math.min(timetables.length - 1, prev + 1))}
+            onClick={() => goTo(Math.min(timetables.length - 1, currentIndex + 1))}
             disabled={timetables.length == 0 || currentIndex === timetables.length - 1}
             className="px-4 py-2 bg-blue-500 text-white rounded disabled:bg-gray-300"
           >
             Next
           </button>
+          {status === 'paused' && (
+            <button
+              onClick={loadMore}
+              className="px-4 py-2 bg-green-500 text-white rounded cursor-pointer"
+              title={`Find up to ${PAGE_SIZE} more timetables`}
+            >
+              Load more
+            </button>
+          )}
+          {status === 'searching' && timetables.length > 0 && (
+            <button
+              onClick={stopSearch}
+              className="px-4 py-2 bg-red-500 text-white rounded cursor-pointer"
+            >
+              Stop
+            </button>
+          )}
         </div>
       </div>
 
-      {/* todo: make shareable link */}
       {timetables.length > 0 && (
         <div className="text-sm mb-1">
           <span className="text-sm">CRNS: </span>
-          {timetables[currentIndex].map((section) => (
+          {currentTimetable.map((section) => (
             <span key={section.crn} className="mr-2">
               {section.crn}
             </span>
@@ -82,8 +256,27 @@ export default function TimetableSections({ courses, setCurrentTimetable }: Cour
         </div>
       )}
 
+      {courses.length > 0 && (
+        <div className="flex gap-3 text-sm mb-1">
+          {timetables.length > 0 && (
+            savedKey === timetableKey(currentTimetable) ? (
+              <span>
+                Saved! <Link href="/planner" className="text-blue-700 hover:underline">Open in planner</Link>
+              </span>
+            ) : (
+              <button onClick={saveToPlanner} className="text-blue-700 hover:text-blue-900 cursor-pointer">
+                Save to planner
+              </button>
+            )
+          )}
+          <button onClick={copyShareLink} className="text-blue-700 hover:text-blue-900 cursor-pointer">
+            {linkCopied ? 'Link copied!' : 'Copy share link'}
+          </button>
+        </div>
+      )}
+
       <div className='flex-grow border-2 rounded overflow-auto'>
-        {timetables.length > 0 && timetables[currentIndex].map((section, index) => (
+        {currentTimetable.map((section, index) => (
           <div key={index} className="p-2 border-b">
             <h3 className="font-semibold">{section.subject} {section.course_code} - Section {section.section}</h3>
             <p className="text-sm">
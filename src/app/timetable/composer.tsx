@@ -5,8 +5,14 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import SelectedCourses from './SelectedCourses';
 import TimetableSections from './TimetableSections';
 import Calendar from './Calendar';
-import { Course, CourseInternal, CoursesResponse, LatestSemesterResponse } from '../../types/Course';
-import { SectionsResponse, Section } from '../../types/Section';
+import ConstraintsPanel from './ConstraintsPanel';
+import RankingPanel from './RankingPanel';
+import { Course, CourseInternal } from '../../types/Course';
+import { Section } from '../../types/Section';
+import { apiClient } from '@/lib/api-client';
+import { DEFAULT_CONSTRAINTS, TimetableConstraints } from '@/utils/timetableGenerator';
+import { DEFAULT_WEIGHTS, RankingWeights } from '@/utils/timetableRanking';
+import { decodeTimetableLink } from '@/utils/timetableLink';
 
 export default function Composer() {
     const router = useRouter();
@@ -17,6 +23,9 @@ export default function Composer() {
 
     const [selectedCourses, setSelectedCourses] = useState<CourseInternal[]>([]);
     const [currentTimetable, setCurrentTimetable] = useState<Section[]>([]);
+    const [constraints, setConstraints] = useState<TimetableConstraints>(DEFAULT_CONSTRAINTS);
+    const [weights, setWeights] = useState<RankingWeights>(DEFAULT_WEIGHTS);
+    const [sortByScore, setSortByScore] = useState(true);
     const [courses, setCourses] = useState<Course[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -31,8 +40,7 @@ export default function Composer() {
         } else {
             const fetchLatestSemester = async () => {
                 try {
-                    const latestSemesterResponse = await fetch(`https://api.langaracourses.ca/v1/index/latest_semester`);
-                    const latestSemesterData: LatestSemesterResponse = await latestSemesterResponse.json();
+                    const latestSemesterData = await apiClient.getLatestSemester();
 
                     setYear(String(latestSemesterData.year));
                     setTerm(String(latestSemesterData.term));
@@ -50,33 +58,21 @@ export default function Composer() {
 
         const fetchData = async () => {
             try {
-                const [coursesResponse, sectionsResponse] = await Promise.all([
-                    fetch(`https://api.langaracourses.ca/v1/semester/${year}/${term}/courses`),
-                    fetch(`https://api.langaracourses.ca/v1/semester/${year}/${term}/sections`)
-                ]);
-
-                if (coursesResponse.status !== 200 || sectionsResponse.status !== 200) {
-                    setError('Error: '+  sectionsResponse.status + ' ' + sectionsResponse.statusText);
-                    setIsLoading(false);
-                    return;
-                }
-
-                const coursesData: CoursesResponse = await coursesResponse.json();
-                const sectionsData: SectionsResponse = await sectionsResponse.json();
-
-                coursesData.courses.forEach(course => {
-                    course.sections = sectionsData.sections.filter(
-                        section =>
-                            section.subject === course.subject && section.course_code === course.course_code
-                    );
-                });
+                const semesterCourses = await apiClient.getSemesterCoursesWithSections(year, term);
 
                 if (!searchParams.get('year') || !searchParams.get('term')) {
                     router.replace(`/timetable?year=${year}&term=${term}`, { scroll: false });
                     return;
                 }
 
-                setCourses(coursesData.courses);
+                setCourses(semesterCourses);
+
+                // opened from a shared timetable link
+                const shared = decodeTimetableLink(searchParams, semesterCourses);
+                if (shared) {
+                    setSelectedCourses(shared.selectedCourses);
+                    setConstraints(shared.constraints);
+                }
             } catch (err) {
                 setError('Failed to fetch data: ' + (err as Error).message);
             } finally {
@@ -101,9 +97,24 @@ export default function Composer() {
                     term={term}
                 />
             </div>
-            <div className="w-1/4 overflow-auto ">
+            <div className="w-1/4 overflow-auto flex flex-col">
+                <ConstraintsPanel
+                    constraints={constraints}
+                    setConstraints={setConstraints}
+                />
+                <RankingPanel
+                    weights={weights}
+                    setWeights={setWeights}
+                    sortByScore={sortByScore}
+                    setSortByScore={setSortByScore}
+                />
                 <TimetableSections
                     courses={selectedCourses}
+                    constraints={constraints}
+                    year={year}
+                    term={term}
+                    weights={weights}
+                    sortByScore={sortByScore}
                     setCurrentTimetable={setCurrentTimetable}
                 />
             </div>
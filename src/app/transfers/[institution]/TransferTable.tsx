@@ -1,21 +1,7 @@
 'use client'
 
 import Link from "next/link";
-
-interface Transfer {
-    id: string;
-    source: string;
-    source_credits: string;
-    source_title: string;
-    destination: string;
-    destination_name: string;
-    credit: string;
-    condition: string | null;
-    effective_start: string;
-    effective_end: string | null;
-    subject: string;
-    course_code: string;
-}
+import { Transfer } from "@/types/Course";
 
 interface TransferTableProps {
     transfers: Transfer[];
@@ -53,8 +39,7 @@ export default function TransferTable({ transfers, title, isInactive = false, op
             // Handle cases like "UBCV CPSC_V 1st (3)"
             const creditMatch = transfer.credit.match(/\((\d+)\)/);
             const destinationCredits = creditMatch ? parseInt(creditMatch[1]) : 0;
-            const sourceCredits = parseInt(transfer.source_credits);
-            return destinationCredits < sourceCredits ? 'bg-yellow-200 hover:bg-yellow-300' : tintred ? 'bg-red-100 hover:bg-red-200' : 'hover:bg-gray-50';
+            return destinationCredits < transfer.source_credits ? 'bg-yellow-200 hover:bg-yellow-300' : tintred ? 'bg-red-100 hover:bg-red-200' : 'hover:bg-gray-50';
         }
     };
 
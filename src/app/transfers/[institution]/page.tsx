@@ -1,25 +1,8 @@
 import { notFound } from "next/navigation";
 import Header from "@/components/shared/header";
 import TransferTable from "@/app/transfers/[institution]/TransferTable";
-
-interface Transfer {
-  id: string;
-  source: string;
-  source_credits: string;
-  source_title: string;
-  destination: string;
-  destination_name: string;
-  credit: string;
-  condition: string | null;
-  effective_start: string;
-  effective_end: string | null;
-  subject: string;
-  course_code: string;
-}
-
-interface TransferResponse {
-  transfers: Transfer[];
-}
+import { apiClient, isNotFound } from "@/lib/api-client";
+import { TransfersResponse } from "@/types/Course";
 
 type ExpectedParams = Promise<{ institution: string }>;
 
@@ -36,19 +19,18 @@ export default async function InstitutionTransfersPage({ params }: { params: Exp
   const { institution } = await params;
   
   // Fetch transfer data
-  const response = await fetch(`https://api.langaracourses.ca/v1/transfers/${institution.toUpperCase()}`, {
-    next: { revalidate: 3600 } // Cache for 1 hour
-  });
-
-  if (!response.ok) {
-    if (response.status === 404) {
+  let data: TransfersResponse;
+  try {
+    data = await apiClient.getTransfers(institution.toUpperCase(), {
+      next: { revalidate: 3600 } // Cache for 1 hour
+    });
+  } catch (error) {
+    if (isNotFound(error)) {
       notFound();
     }
-    throw new Error(`Failed to fetch transfers: ${response.status}`);
+    throw error;
   }
 
-  const data: TransferResponse = await response.json();
-
   // the api kind of sucks and doesn't 404
   if (data.transfers.length === 0) {
     notFound();
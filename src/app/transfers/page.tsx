@@ -1,14 +1,6 @@
 import Link from "next/link";
 import Header from "@/components/shared/header";
-
-interface TransferDestination {
-  code: string;
-  name: string;
-}
-
-interface TransferDestinationsResponse {
-  transfers: TransferDestination[];
-}
+import { apiClient } from "@/lib/api-client";
 
 export const metadata = {
   title: "Transfer credits from Langara College to other institutions.",
@@ -17,15 +9,9 @@ export const metadata = {
 
 export default async function TransfersPage() {
   // Fetch transfer destinations
-  const response = await fetch('https://api.langaracourses.ca/v1/index/transfer_destinations', {
+  const data = await apiClient.getTransferDestinations({
     next: { revalidate: 3600 } // Cache for 1 hour
   });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch transfer destinations: ${response.status}`);
-  }
-
-  const data: TransferDestinationsResponse = await response.json();
   
   // Define pinned institutions in alphabetical order
   const pinnedInstitutions = ['SFU', 'TRU', 'UBCO', 'UBCV', 'UFV', 'UVIC'];
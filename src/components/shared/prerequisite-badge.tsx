@@ -0,0 +1,46 @@
+'use client'
+
+import { useMemo } from 'react';
+import { checkEligibility, CompletedCourse, useCompletedCourses } from '@/lib/completed-courses';
+
+interface PrerequisiteBadgeProps {
+    prerequisites: string | null | undefined;
+    // read once by the list, see useCompletedCourses
+    completed: CompletedCourse[];
+    className?: string;
+}
+
+// Shows whether the user meets the prerequisites, based on the courses they marked as completed
+// Nothing is shown until the user has recorded at least one course
+export default function PrerequisiteBadge({ prerequisites, completed, className = '' }: PrerequisiteBadgeProps) {
+    const eligibility = useMemo(() => checkEligibility(prerequisites, completed), [prerequisites, completed]);
+
+    if (completed.length === 0 || eligibility.status === 'none') return null;
+
+    const base = `px-1 rounded text-xs ${className}`;
+
+    switch (eligibility.status) {
+        case 'met':
+            return <span className={`${base} bg-green-700 text-white`} title="You have completed the prerequisites for this course">Prerequisites met</span>;
+        case 'missing':
+            return (
+                <span className={`${base} bg-red-600 text-white`} title={`Missing: ${eligibility.missing.join('; ')}`}>
+                    Missing: {eligibility.missing.join('; ')}
+                </span>
+            );
+        case 'unknown':
+            return (
+                <span className={`${base} bg-yellow-300`} title={`Can't be checked automatically: ${eligibility.unchecked.join('; ')}`}>
+                    Check prerequisites: {eligibility.unchecked.join('; ')}
+                </span>
+            );
+        case 'unparsed':
+            return <span className={`${base} bg-gray-300`} title="The prerequisite text couldn't be understood, read it yourself">Prerequisites not checked</span>;
+    }
+}
+
+// For a page with a single badge, reads the completed courses itself
+export function CoursePrerequisiteBadge(props: Omit<PrerequisiteBadgeProps, 'completed'>) {
+    const [completed] = useCompletedCourses();
+    return <PrerequisiteBadge {...props} completed={completed} />;
+}
@@ -0,0 +1,26 @@
+'use client'
+
+import { useEffect } from 'react';
+import { CHECK_INTERVAL, checkWatchedSections, sendWatchNotification, useWatchedSections } from '@/lib/section-watch';
+
+// Checks the watched sections for open seats while the site is open, see lib/section-watch.ts
+export default function SectionWatcher() {
+    const watched = useWatchedSections();
+    const isWatching = watched.length > 0;
+
+    useEffect(() => {
+        if (!isWatching) return;
+
+        const check = () => {
+            checkWatchedSections()
+                .then(alerts => alerts.forEach(sendWatchNotification))
+                .catch(error => console.error('Failed to check watched sections:', error));
+        };
+
+        check();
+        const interval = setInterval(check, CHECK_INTERVAL);
+        return () => clearInterval(interval);
+    }, [isWatching]);
+
+    return null;
+}
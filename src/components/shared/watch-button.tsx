@@ -0,0 +1,38 @@
+'use client'
+
+import { requestNotificationPermission, unwatchSection, watchSection } from '@/lib/section-watch';
+import { Section } from '@/types/Section';
+
+interface WatchButtonProps {
+    section: Section;
+    // see useWatchedSections
+    isWatched: boolean;
+    className?: string;
+}
+
+// Starts or stops watching a section for open seats, see lib/section-watch.ts
+export default function WatchButton({ section, isWatched, className = '' }: WatchButtonProps) {
+    return (
+        <button
+            onClick={(e) => {
+                // the button sits inside clickable rows
+                e.stopPropagation();
+                if (isWatched) {
+                    unwatchSection(section.id);
+                } else {
+                    watchSection(section);
+                    requestNotificationPermission();
+                }
+            }}
+            className={`px-1 rounded text-xs cursor-pointer ${isWatched
+                ? 'bg-blue-600 text-white hover:bg-blue-700'
+                : 'border border-gray-400 text-gray-700 hover:bg-gray-100'
+                } ${className}`}
+            title={isWatched
+                ? 'Stop watching this section'
+                : 'Get a notification when seats open up, the waitlist gets shorter or the section is cancelled'}
+        >
+            {isWatched ? '🔔 Watching' : '🔔 Watch'}
+        </button>
+    );
+}
@@ -0,0 +1,365 @@
+// The one place the app talks to the api (api.langaracourses.ca unless NEXT_PUBLIC_API_BASE_URL says otherwise)
+// Every response is checked against a schema before it is returned, so a change in the api
+// shows up as an ApiValidationError with the path of the bad field instead of a crash somewhere in the UI
+//
+// Extra fetch options (e.g. next: { revalidate }) are passed straight through to fetch
+
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  numeric,
+  object,
+  optional,
+  Schema,
+  SchemaError,
+  string,
+  withDefault
+} from './api-validation';
+import {
+  Course,
+  CourseAttributes,
+  CourseIndex,
+  CourseMax,
+  Outline,
+  Semester,
+  SemestersResponse,
+  Transfer,
+  TransferDestination,
+  TransfersResponse,
+  v1IndexCoursesResponse,
+  v1IndexSubjectsResponse,
+  v1IndexTransfersResponse,
+  v2SearchCoursesResponse
+} from '@/types/Course';
+import {
+  Schedule,
+  Section,
+  SectionsPageResponse,
+  SectionsResponse,
+  SectionsSearchResponse
+} from '@/types/Section';
+
+// set NEXT_PUBLIC_API_BASE_URL to use another server, e.g. the mock api in mock-api/ (see the README)
+export const API_BASE = (process.env.NEXT_PUBLIC_API_BASE_URL || 'https://api.langaracourses.ca').replace(/\/+$/, '');
+
+export class ApiError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// the api answered, but not with a 2xx
+export class ApiHttpError extends ApiError {
+  constructor(url: string, public readonly status: number, statusText: string) {
+    super(`${status} ${statusText} from ${url}`, url);
+    this.name = 'ApiHttpError';
+  }
+}
+
+// the request never got an answer (offline, dns, cors...)
+export class ApiNetworkError extends ApiError {
+  constructor(url: string, public readonly cause: unknown) {
+    super(`Could not reach ${url}: ${cause instanceof Error ? cause.message : String(cause)}`, url);
+    this.name = 'ApiNetworkError';
+  }
+}
+
+// the api answered with something that isn't the shape we expect
+export class ApiValidationError extends ApiError {
+  constructor(url: string, public readonly path: string, message: string) {
+    super(`Unexpected response from ${url}: ${message}`, url);
+    this.name = 'ApiValidationError';
+  }
+}
+
+export const isNotFound = (error: unknown): boolean =>
+  error instanceof ApiHttpError && error.status === 404;
+
+// for the search pages, which show whether the response came from the api's cache
+export interface CachedResponse<T> {
+  data: T;
+  cached: boolean;
+}
+
+// Schemas
+
+const scheduleSchema = object<Schedule>({
+  id: string,
+  type: string,
+  days: string,
+  time: string,
+  start: nullable(string),
+  end: nullable(string),
+  room: string,
+  instructor: string
+});
+
+const sectionSchema = object<Section>({
+  id: string,
+  crn: numeric,
+  RP: nullable(string),
+  seats: string,
+  waitlist: nullable(string),
+  section: string,
+  credits: nullable(numeric),
+  title: optional(nullable(string)),
+  abbreviated_title: nullable(string),
+  add_fees: optional(nullable(numeric)),
+  rpt_limit: nullable(numeric),
+  notes: optional(nullable(string)),
+  subject: string,
+  course_code: string,
+  year: numeric,
+  term: numeric,
+  course_id: optional(string),
+  schedule: withDefault(array(scheduleSchema), () => [])
+});
+
+// fields shared by the course attributes and the flat courses from v2 search
+const courseFields = {
+  credits: nullable(numeric),
+  title: nullable(string),
+  desc_replacement_course: nullable(string),
+  description: nullable(string),
+  desc_duplicate_credit: nullable(string),
+  desc_registration_restriction: nullable(string),
+  desc_prerequisite: nullable(string),
+  hours_lecture: nullable(numeric),
+  hours_seminar: nullable(numeric),
+  hours_lab: nullable(numeric),
+  offered_online: nullable(boolean),
+  preparatory_course: nullable(boolean),
+  RP: nullable(string),
+  abbreviated_title: nullable(string),
+  add_fees: nullable(numeric),
+  rpt_limit: nullable(numeric),
+  attr_ar: nullable(boolean),
+  attr_sc: nullable(boolean),
+  attr_hum: nullable(boolean),
+  attr_lsc: nullable(boolean),
+  attr_sci: nullable(boolean),
+  attr_soc: nullable(boolean),
+  attr_ut: nullable(boolean),
+  first_offered_year: nullable(numeric),
+  first_offered_term: nullable(numeric),
+  last_offered_year: nullable(numeric),
+  last_offered_term: nullable(numeric),
+  discontinued: nullable(boolean),
+  transfer_destinations: nullable(string),
+  on_langara_website: withDefault(boolean, () => false)
+};
+
+const courseAttributesSchema = object<CourseAttributes>({
+  ...courseFields,
+  active: nullable(boolean)
+});
+
+const transferSchema = object<Transfer>({
+  id: string,
+  source: string,
+  source_credits: numeric,
+  source_title: string,
+  destination: string,
+  destination_name: string,
+  credit: string,
+  condition: nullable(string),
+  effective_start: string,
+  effective_end: nullable(string),
+  subject: string,
+  course_code: string
+});
+
+const outlineSchema = object<Outline>({
+  url: string,
+  file_name: string,
+  id: string
+});
+
+// the semester endpoints leave out sections / transfers / outlines
+const courseSchema = object<Course>({
+  subject: string,
+  course_code: string,
+  id: string,
+  attributes: courseAttributesSchema,
+  sections: withDefault(array(sectionSchema), () => []),
+  transfers: withDefault(array(transferSchema), () => []),
+  outlines: withDefault(array(outlineSchema), () => [])
+});
+
+const courseMaxSchema = object<CourseMax>({
+  ...courseFields,
+  id: string,
+  subject: string,
+  course_code: string,
+  id_course: string
+});
+
+const semesterSchema = object<Semester>({
+  id: string,
+  year: numeric,
+  term: numeric,
+  courses_first_day: nullable(string),
+  courses_last_day: nullable(string)
+});
+
+const semestersSchema = object<SemestersResponse>({
+  semesters: array(semesterSchema)
+});
+
+const subjectsSchema = object<v1IndexSubjectsResponse>({
+  count: number,
+  subjects: array(string)
+});
+
+const courseIndexSchema = object<v1IndexCoursesResponse>({
+  subject_count: number,
+  course_count: number,
+  courses: array(object<CourseIndex>({
+    subject: string,
+    course_code: string,
+    title: string,
+    on_langara_website: boolean
+  }))
+});
+
+const transferDestinationsSchema = object<v1IndexTransfersResponse>({
+  transfers: array(object<TransferDestination>({
+    code: string,
+    name: string
+  }))
+});
+
+const coursesSchema = object<{ courses: Course[] }>({
+  courses: array(courseSchema)
+});
+
+const sectionsSchema = object<SectionsResponse>({
+  sections: array(sectionSchema)
+});
+
+const transfersSchema = object<TransfersResponse>({
+  transfers: array(transferSchema)
+});
+
+const sectionIdsSchema = object<SectionsSearchResponse>({
+  sections: array(string)
+});
+
+const coursesSearchSchema = object<v2SearchCoursesResponse>({
+  courses: array(courseMaxSchema)
+});
+
+const sectionsPageSchema = object<SectionsPageResponse>({
+  page: numeric,
+  sections_per_page: numeric,
+  total_sections: numeric,
+  total_pages: numeric,
+  sections: array(sectionSchema)
+});
+
+// Requests
+
+async function request<T>(path: string, schema: Schema<T>, init?: RequestInit): Promise<CachedResponse<T>> {
+  const url = `${API_BASE}${path}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new ApiNetworkError(url, error);
+  }
+
+  if (!response.ok) {
+    throw new ApiHttpError(url, response.status, response.statusText);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new ApiValidationError(url, '', 'response is not valid JSON');
+  }
+
+  try {
+    // note: some headers are dropped on localhost due to CORS, they should work correctly when hosted on the server.
+    return { data: schema(body, ''), cached: response.headers.get('x-fastapi-cache') === 'HIT' };
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new ApiValidationError(url, error.path, error.message);
+    }
+    throw error;
+  }
+}
+
+const get = async <T>(path: string, schema: Schema<T>, init?: RequestInit): Promise<T> =>
+  (await request(path, schema, init)).data;
+
+const segment = (value: string | number) => encodeURIComponent(String(value));
+
+export const apiClient = {
+  // v1 index
+  getLatestSemester: (init?: RequestInit) =>
+    get('/v1/index/latest_semester', semesterSchema, init),
+
+  getSemesters: (init?: RequestInit) =>
+    get('/v1/index/semesters', semestersSchema, init),
+
+  getSubjects: (init?: RequestInit) =>
+    get('/v1/index/subjects', subjectsSchema, init),
+
+  getCourseIndex: (init?: RequestInit) =>
+    get('/v1/index/courses', courseIndexSchema, init),
+
+  getTransferDestinations: (init?: RequestInit) =>
+    get('/v1/index/transfer_destinations', transferDestinationsSchema, init),
+
+  // v1 semester
+  getSemesterCourses: (year: number | string, term: number | string, init?: RequestInit) =>
+    get(`/v1/semester/${segment(year)}/${segment(term)}/courses`, coursesSchema, init),
+
+  getSemesterSections: (year: number | string, term: number | string, init?: RequestInit) =>
+    get(`/v1/semester/${segment(year)}/${segment(term)}/sections`, sectionsSchema, init),
+
+  // courses of a semester with their sections attached
+  getSemesterCoursesWithSections: async (year: number | string, term: number | string, init?: RequestInit): Promise<Course[]> => {
+    const [coursesData, sectionsData] = await Promise.all([
+      apiClient.getSemesterCourses(year, term, init),
+      apiClient.getSemesterSections(year, term, init)
+    ]);
+
+    const sectionsDict = new Map<string, Section[]>();
+    for (const section of sectionsData.sections) {
+      const key = `${section.subject}-${section.course_code}`;
+      if (!sectionsDict.has(key)) sectionsDict.set(key, []);
+      sectionsDict.get(key)!.push(section);
+    }
+
+    return coursesData.courses.map(course => ({
+      ...course,
+      sections: sectionsDict.get(`${course.subject}-${course.course_code}`) ?? []
+    }));
+  },
+
+  // v1 courses / transfers
+  getCourse: (subject: string, courseCode: string, init?: RequestInit) =>
+    get(`/v1/courses/${segment(subject)}/${segment(courseCode)}`, courseSchema, init),
+
+  getTransfers: (institution: string, init?: RequestInit) =>
+    get(`/v1/transfers/${segment(institution)}`, transfersSchema, init),
+
+  // v1 search, only returns the ids of the matching sections
+  searchSectionIds: (query: string, year: number, term: number, init?: RequestInit) => {
+    const params = new URLSearchParams({ query, year: String(year), term: String(term) });
+    return get(`/v1/search/sections?${params}`, sectionIdsSchema, init);
+  },
+
+  // v2 search
+  searchCourses: (params: URLSearchParams | string = '', init?: RequestInit) =>
+    request(`/v2/search/courses${params.toString() ? `?${params}` : ''}`, coursesSearchSchema, init),
+
+  searchSections: (params: URLSearchParams | string = '', init?: RequestInit) =>
+    request(`/v2/search/sections${params.toString() ? `?${params}` : ''}`, sectionsPageSchema, init)
+};
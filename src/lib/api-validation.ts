@@ -0,0 +1,71 @@
+// Tiny runtime validators for api responses
+// A schema is a function that either returns the value with the right type or throws a SchemaError
+// saying where the response didn't match, e.g. "courses[12].attributes.credits: expected number, got string"
+//
+// Objects only check the keys they list, anything else the api sends is passed through untouched
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export class SchemaError extends Error {
+    constructor(public readonly path: string, expected: string, value: unknown) {
+        super(`${path || 'response'}: expected ${expected}, got ${value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value}`);
+        this.name = 'SchemaError';
+    }
+}
+
+export const string: Schema<string> = (value, path) => {
+    if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+    return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+    if (typeof value !== 'number' || isNaN(value)) throw new SchemaError(path, 'number', value);
+    return value;
+};
+
+// some numbers come back as strings depending on the endpoint ("3" vs 3)
+export const numeric: Schema<number> = (value, path) => {
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    return number(value, path);
+};
+
+export const boolean: Schema<boolean> = (value, path) => {
+    if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+    return value;
+};
+
+// missing values are treated the same as null
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => (value, path) =>
+    value === null || value === undefined ? null : schema(value, path);
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+    value === undefined ? undefined : schema(value, path);
+
+// for fields that some endpoints leave out
+export const withDefault = <T>(schema: Schema<T>, fallback: () => T): Schema<T> => (value, path) =>
+    value === null || value === undefined ? fallback() : schema(value, path);
+
+export const array = <T>(schema: Schema<T>): Schema<T[]> => (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+};
+
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+    return (value, path) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new SchemaError(path, 'object', value);
+        }
+
+        const record = value as Record<string, unknown>;
+        const result: Record<string, unknown> = { ...record };
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+            const validated = shape[key](record[key], path ? `${path}.${key}` : key);
+            if (validated === undefined) {
+                delete result[key];
+            } else {
+                result[key] = validated;
+            }
+        }
+        return result as T;
+    };
+}
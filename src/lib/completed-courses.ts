@@ -0,0 +1,168 @@
+// Courses the user has already completed, kept in localStorage next to the saved schedules
+// Used to check whether the user meets the prerequisites of a course
+
+import { useEffect, useState } from 'react';
+import { nullable, object, SchemaError, string } from './api-validation';
+import { PrerequisiteNode, parsePrerequisites } from './prerequisite-parser';
+
+export interface CompletedCourse {
+    subject: string;
+    course_code: string;
+    // null if the user didn't enter a grade, we assume they passed
+    grade: string | null;
+}
+
+export type EligibilityStatus = 'none' | 'met' | 'missing' | 'unknown' | 'unparsed';
+
+export interface Eligibility {
+    status: EligibilityStatus;
+    // what is still needed, e.g. "MATH 1171 (minimum C)" or "MATH 1150 or MATH 1125"
+    missing: string[];
+    // requirements we can't check ourselves, e.g. placement tests
+    unchecked: string[];
+}
+
+const STORAGE_KEY = 'langara-completed-courses';
+// fired on the window when the list changes, so every component on the page stays in sync
+const CHANGE_EVENT = 'langara-completed-courses-changed';
+
+export const GRADES = ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D', 'P', 'F'];
+
+const completedCourseSchema = object<CompletedCourse>({
+    subject: string,
+    course_code: string,
+    grade: nullable(string)
+});
+
+// Anything that isn't a list is thrown away, and so are the entries that can't be read
+function validateCompletedCourses(data: unknown): CompletedCourse[] {
+    if (!Array.isArray(data)) return [];
+    return data.flatMap((item, index) => {
+        try {
+            const course = completedCourseSchema(item, `completed[${index}]`);
+            return [{ ...course, grade: course.grade !== null && GRADES.includes(course.grade) ? course.grade : null }];
+        } catch (error) {
+            if (!(error instanceof SchemaError)) throw error;
+            console.error('Skipping a completed course that can\'t be read:', error.message);
+            return [];
+        }
+    });
+}
+
+export function loadCompletedCourses(): CompletedCourse[] {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (!saved) return [];
+        return validateCompletedCourses(JSON.parse(saved));
+    } catch (error) {
+        console.error('Failed to load completed courses from localStorage:', error);
+        return [];
+    }
+}
+
+export function saveCompletedCourses(courses: CompletedCourse[]): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(courses));
+        window.dispatchEvent(new Event(CHANGE_EVENT));
+    } catch (error) {
+        console.error('Failed to save completed courses to localStorage:', error);
+    }
+}
+
+export function useCompletedCourses(): [CompletedCourse[], (courses: CompletedCourse[]) => void] {
+    const [completed, setCompleted] = useState<CompletedCourse[]>([]);
+
+    useEffect(() => {
+        const reload = () => setCompleted(loadCompletedCourses());
+        reload();
+
+        // changes from this tab and from other tabs
+        window.addEventListener(CHANGE_EVENT, reload);
+        const onStorage = (e: StorageEvent) => {
+            if (e.key === STORAGE_KEY) reload();
+        };
+        window.addEventListener('storage', onStorage);
+
+        return () => {
+            window.removeEventListener(CHANGE_EVENT, reload);
+            window.removeEventListener('storage', onStorage);
+        };
+    }, []);
+
+    return [completed, saveCompletedCourses];
+}
+
+// F never meets a requirement, P meets any of them
+function gradeMeets(grade: string | null, minGrade: string | null): boolean {
+    if (grade === 'F') return false;
+    if (!grade || !minGrade || grade === 'P') return true;
+
+    const gradeIndex = GRADES.indexOf(grade);
+    const minIndex = GRADES.indexOf(minGrade);
+    if (gradeIndex === -1 || minIndex === -1) return true;
+    return gradeIndex <= minIndex;
+}
+
+const describe = (node: PrerequisiteNode): string => {
+    switch (node.type) {
+        case 'course':
+            return `${node.subject} ${node.courseCode}${node.minGrade ? ` (minimum ${node.minGrade})` : ''}${node.orEquivalent ? ' or equivalent' : ''}`;
+        case 'placement':
+        case 'other':
+            return node.text;
+        case 'and':
+            return node.children.map(describe).join(' and ');
+        case 'or':
+            return node.children.map(describe).join(' or ');
+    }
+};
+
+// true = met, false = not met, null = can't tell (placement tests etc.)
+function evaluate(node: PrerequisiteNode, completed: CompletedCourse[], missing: string[], unchecked: string[]): boolean | null {
+    switch (node.type) {
+        case 'course': {
+            const record = completed.find(c => c.subject === node.subject && c.course_code === node.courseCode);
+            const met = record !== undefined && gradeMeets(record.grade, node.minGrade);
+            if (!met) missing.push(describe(node));
+            return met;
+        }
+        case 'placement':
+        case 'other':
+            unchecked.push(node.text);
+            return null;
+        case 'and': {
+            const results = node.children.map(child => evaluate(child, completed, missing, unchecked));
+            if (results.includes(false)) return false;
+            if (results.includes(null)) return null;
+            return true;
+        }
+        case 'or': {
+            // evaluate the alternatives on their own so that one missing alternative isn't reported as missing
+            const results = node.children.map(child => evaluate(child, completed, [], []));
+            if (results.includes(true)) return true;
+            if (results.includes(null)) {
+                unchecked.push(describe(node));
+                return null;
+            }
+            missing.push(describe(node));
+            return false;
+        }
+    }
+}
+
+export function checkEligibility(prerequisites: string | null | undefined, completed: CompletedCourse[]): Eligibility {
+    if (!prerequisites) return { status: 'none', missing: [], unchecked: [] };
+
+    const tree = parsePrerequisites(prerequisites);
+    if (!tree) return { status: 'unparsed', missing: [], unchecked: [] };
+
+    const missing: string[] = [];
+    const unchecked: string[] = [];
+    const result = evaluate(tree, completed, missing, unchecked);
+
+    return {
+        status: result === true ? 'met' : result === false ? 'missing' : 'unknown',
+        missing,
+        unchecked
+    };
+}
@@ -0,0 +1,184 @@
+// Credit and weekly contact-hour totals of a schedule, and whether that makes it a full-time load
+// What counts as full-time depends on the student (student loans, study permits, ...), so the thresholds
+// can be changed and are kept in localStorage
+
+import { useEffect, useState } from 'react';
+import { Course } from '@/types/Course';
+import { Schedule, Section } from '@/types/Section';
+
+export interface LoadThresholds {
+  // this many credits or more is full-time
+  fullTimeCredits: number;
+  // warn above this many credits
+  maxCredits: number;
+}
+
+// Langara's usual full-time load, and the most you can register in without permission
+export const DEFAULT_LOAD_THRESHOLDS: LoadThresholds = {
+  fullTimeCredits: 9,
+  maxCredits: 18
+};
+
+export interface ScheduleTotals {
+  sections: number;
+  credits: number;
+  // sections whose credits aren't known, they aren't in credits
+  unknownCredits: number;
+  // per week
+  lectureHours: number;
+  labHours: number;
+  seminarHours: number;
+  campusDays: number;
+}
+
+export type LoadStatus = 'none' | 'part-time' | 'full-time';
+
+const STORAGE_KEY = 'langara-load-thresholds';
+// fired on the window when the thresholds change, so the planner and the save bar stay in sync
+const CHANGE_EVENT = 'langara-load-thresholds-changed';
+
+const findCourse = (section: Section, courses: Course[]): Course | undefined =>
+  courses.find(course => course.subject === section.subject && course.course_code === section.course_code);
+
+export function sectionCredits(section: Section, course?: Course): number | null {
+  return section.credits ?? course?.attributes.credits ?? null;
+}
+
+// hours a week of one schedule entry, entries that only run part of the semester are counted as if they ran all of it
+function weeklyHours(schedule: Schedule): number {
+  const match = schedule.time.match(/^(\d{2})(\d{2})-(\d{2})(\d{2})$/);
+  if (!match) return 0;
+  const [, startH, startM, endH, endM] = match.map(Number);
+  const days = schedule.days.replace(/-/g, '').trim().length;
+  return days * ((endH * 60 + endM) - (startH * 60 + startM)) / 60;
+}
+
+// positions in schedule.days that have a meeting, e.g. "M-W----" -> 0, 2
+function meetingDays(section: Section): number[] {
+  return section.schedule
+    .filter(schedule => schedule.type !== 'Exam' && /\d{4}-\d{4}/.test(schedule.time))
+    .flatMap(schedule => [...schedule.days].flatMap((day, index) => day !== '-' && day !== ' ' ? [index] : []));
+}
+
+// The course's official contact hours if it has them, otherwise what the section is scheduled for
+export function sectionHours(section: Section, course?: Course): { lecture: number; lab: number; seminar: number } {
+  const attributes = course?.attributes;
+  if (attributes && (attributes.hours_lecture !== null || attributes.hours_lab !== null || attributes.hours_seminar !== null)) {
+    return {
+      lecture: attributes.hours_lecture ?? 0,
+      lab: attributes.hours_lab ?? 0,
+      seminar: attributes.hours_seminar ?? 0
+    };
+  }
+
+  const hours = { lecture: 0, lab: 0, seminar: 0 };
+  section.schedule.forEach(schedule => {
+    const type = schedule.type.toLowerCase();
+    if (type.startsWith('lec')) hours.lecture += weeklyHours(schedule);
+    else if (type.startsWith('lab')) hours.lab += weeklyHours(schedule);
+    else if (type.startsWith('sem')) hours.seminar += weeklyHours(schedule);
+  });
+  return hours;
+}
+
+export function scheduleTotals(sections: Section[], courses: Course[]): ScheduleTotals {
+  const totals: ScheduleTotals = {
+    sections: sections.length,
+    credits: 0,
+    unknownCredits: 0,
+    lectureHours: 0,
+    labHours: 0,
+    seminarHours: 0,
+    campusDays: new Set(sections.flatMap(meetingDays)).size
+  };
+
+  sections.forEach(section => {
+    const course = findCourse(section, courses);
+    const credits = sectionCredits(section, course);
+    if (credits === null) {
+      totals.unknownCredits++;
+    } else {
+      totals.credits += credits;
+    }
+
+    const hours = sectionHours(section, course);
+    totals.lectureHours += hours.lecture;
+    totals.labHours += hours.lab;
+    totals.seminarHours += hours.seminar;
+  });
+
+  return totals;
+}
+
+export function loadStatus(totals: ScheduleTotals, thresholds: LoadThresholds): LoadStatus {
+  if (totals.sections === 0) return 'none';
+  return totals.credits >= thresholds.fullTimeCredits ? 'full-time' : 'part-time';
+}
+
+export const isOverloaded = (totals: ScheduleTotals, thresholds: LoadThresholds): boolean =>
+  totals.credits > thresholds.maxCredits;
+
+// 4.5 -> "4.5", 3 -> "3"
+export const formatHours = (hours: number): string =>
+  Number.isInteger(hours) ? String(hours) : hours.toFixed(1);
+
+// "9 cr, 12 h/wk, 3 days" for small spaces like the schedule chips
+export const formatTotals = (totals: ScheduleTotals): string =>
+  [
+    `${formatHours(totals.credits)}${totals.unknownCredits > 0 ? '+' : ''} cr`,
+    `${formatHours(totals.lectureHours + totals.labHours + totals.seminarHours)} h/wk`,
+    `${totals.campusDays} day${totals.campusDays !== 1 ? 's' : ''}`
+  ].join(', ');
+
+// Thresholds
+
+// A threshold that isn't a non-negative number goes back to its default
+function validateLoadThresholds(data: unknown): LoadThresholds {
+  const record = data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, unknown> : {};
+  const threshold = (key: keyof LoadThresholds): number => {
+    const value = record[key];
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : DEFAULT_LOAD_THRESHOLDS[key];
+  };
+  return { fullTimeCredits: threshold('fullTimeCredits'), maxCredits: threshold('maxCredits') };
+}
+
+export function loadLoadThresholds(): LoadThresholds {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? validateLoadThresholds(JSON.parse(saved)) : DEFAULT_LOAD_THRESHOLDS;
+  } catch (error) {
+    console.error('Failed to load load thresholds from localStorage:', error);
+    return DEFAULT_LOAD_THRESHOLDS;
+  }
+}
+
+export function saveLoadThresholds(thresholds: LoadThresholds): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  } catch (error) {
+    console.error('Failed to save load thresholds to localStorage:', error);
+  }
+}
+
+export function useLoadThresholds(): [LoadThresholds, (thresholds: LoadThresholds) => void] {
+  const [thresholds, setThresholds] = useState<LoadThresholds>(DEFAULT_LOAD_THRESHOLDS);
+
+  useEffect(() => {
+    const reload = () => setThresholds(loadLoadThresholds());
+    reload();
+
+    // changes from this tab and from other tabs
+    window.addEventListener(CHANGE_EVENT, reload);
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) reload();
+    };
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, reload);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  return [thresholds, saveLoadThresholds];
+}
@@ -0,0 +1,111 @@
+// Persistent cache for api responses the planner needs, so that it keeps working on a bad connection
+// Responses are kept in IndexedDB (the semester payloads are too big for localStorage)
+// and served stale-while-revalidate: the cached copy is returned straight away,
+// and if it is older than STALE_AFTER a fresh copy is fetched in the background
+
+import { apiClient } from './api-client';
+import { Course, SemestersResponse } from '@/types/Course';
+
+const DB_NAME = 'langara-planner-cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+const STALE_AFTER = 15 * 60 * 1000; // 15 minutes
+
+export interface CachedData<T> {
+  data: T;
+  // when the data was fetched from the api, in ms
+  fetchedAt: number;
+  // true if this is the cached copy and a newer one couldn't be fetched
+  stale: boolean;
+}
+
+interface CacheEntry<T> {
+  key: string;
+  data: T;
+  fetchedAt: number;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // let the next call try again (e.g. private browsing in some browsers has no IndexedDB)
+    database.catch(() => { database = null; });
+  }
+  return database;
+}
+
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const db = await openDatabase();
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(key);
+      request.onsuccess = () => resolve(request.result ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to read from the offline cache:', error);
+    return null;
+  }
+}
+
+async function writeEntry<T>(entry: CacheEntry<T>): Promise<void> {
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE, 'readwrite');
+      transaction.objectStore(STORE).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Failed to write to the offline cache:', error);
+  }
+}
+
+async function fetchAndStore<T>(key: string, fetcher: () => Promise<T>): Promise<CachedData<T>> {
+  const data = await fetcher();
+  const fetchedAt = Date.now();
+  await writeEntry({ key, data, fetchedAt });
+  return { data, fetchedAt, stale: false };
+}
+
+// Returns the cached copy if there is one, otherwise waits for the api
+// onRefresh is called with the fresh copy when a stale cached copy was returned and the refetch succeeded
+export async function staleWhileRevalidate<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  onRefresh?: (fresh: CachedData<T>) => void
+): Promise<CachedData<T>> {
+  const cached = await readEntry<T>(key);
+  if (!cached) {
+    return fetchAndStore(key, fetcher);
+  }
+
+  const isStale = Date.now() - cached.fetchedAt > STALE_AFTER;
+  if (isStale) {
+    fetchAndStore(key, fetcher)
+      .then(fresh => onRefresh?.(fresh))
+      .catch(error => console.error(`Failed to refresh ${key}, using the cached copy:`, error));
+  }
+
+  return { data: cached.data, fetchedAt: cached.fetchedAt, stale: isStale };
+}
+
+export const getCachedSemesterCourses = (
+  year: number,
+  term: number,
+  onRefresh?: (fresh: CachedData<Course[]>) => void
+) => staleWhileRevalidate(`semester-${year}-${term}`, () => apiClient.getSemesterCoursesWithSections(year, term), onRefresh);
+
+export const getCachedSemesters = (onRefresh?: (fresh: CachedData<SemestersResponse>) => void) =>
+  staleWhileRevalidate('semesters', () => apiClient.getSemesters(), onRefresh);
@@ -0,0 +1,135 @@
+// History for the planner: an in-memory undo/redo stack for the current session,
+// and a few saved revisions of each schedule in localStorage so an older version can be brought back later
+
+import { array, number, numeric, object, SchemaError, string } from './api-validation';
+import { SavedSchedule } from '@/types/Planner2';
+
+// Undo / redo
+
+export interface UndoStack<T> {
+  // oldest first, the last entry is undone first
+  past: T[];
+  future: T[];
+}
+
+const MAX_UNDO = 100;
+
+export const emptyUndoStack = <T>(): UndoStack<T> => ({ past: [], future: [] });
+
+// a new edit makes the redo entries meaningless
+export const pushEdit = <T>(stack: UndoStack<T>, edit: T): UndoStack<T> => ({
+  past: [...stack.past, edit].slice(-MAX_UNDO),
+  future: []
+});
+
+export const undoEdit = <T>(stack: UndoStack<T>): UndoStack<T> => ({
+  past: stack.past.slice(0, -1),
+  future: stack.past.length ? [...stack.future, stack.past[stack.past.length - 1]] : stack.future
+});
+
+export const redoEdit = <T>(stack: UndoStack<T>): UndoStack<T> => ({
+  past: stack.future.length ? [...stack.past, stack.future[stack.future.length - 1]] : stack.past,
+  future: stack.future.slice(0, -1)
+});
+
+// Revisions
+
+export interface ScheduleRevision {
+  savedAt: number;
+  name: string;
+  year: number;
+  term: number;
+  crns: string[];
+}
+
+const REVISIONS_KEY = 'langara-schedule-revisions';
+const MAX_REVISIONS = 20;
+// single clicks within this long of the last revision are folded into it, so that building a schedule
+// one section at a time doesn't push everything else out
+const MERGE_WINDOW = 5 * 60 * 1000;
+
+// schedule id -> revisions, newest first
+type RevisionStore = Record<string, ScheduleRevision[]>;
+
+const revisionSchema = object<ScheduleRevision>({
+  savedAt: number,
+  name: string,
+  year: number,
+  term: number,
+  crns: array((value, path) => String(numeric(value, path)))
+});
+
+// Anything that isn't an object of lists is thrown away, and so are the revisions that can't be read
+function validateRevisionStore(data: unknown): RevisionStore {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return {};
+
+  const store: RevisionStore = {};
+  Object.entries(data).forEach(([scheduleId, revisions]) => {
+    if (!Array.isArray(revisions)) return;
+    const valid = revisions.flatMap((revision, index) => {
+      try {
+        return [revisionSchema(revision, `revisions.${scheduleId}[${index}]`)];
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error;
+        console.error('Skipping a schedule revision that can\'t be read:', error.message);
+        return [];
+      }
+    });
+    if (valid.length > 0) store[scheduleId] = valid;
+  });
+  return store;
+}
+
+function loadRevisionStore(): RevisionStore {
+  try {
+    const saved = localStorage.getItem(REVISIONS_KEY);
+    if (!saved) return {};
+    return validateRevisionStore(JSON.parse(saved));
+  } catch (error) {
+    console.error('Failed to load schedule revisions from localStorage:', error);
+    return {};
+  }
+}
+
+function saveRevisionStore(store: RevisionStore): void {
+  try {
+    localStorage.setItem(REVISIONS_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('Failed to save schedule revisions to localStorage:', error);
+  }
+}
+
+export const loadRevisions = (scheduleId: string): ScheduleRevision[] =>
+  loadRevisionStore()[scheduleId] ?? [];
+
+const toRevision = (schedule: SavedSchedule): ScheduleRevision => ({
+  savedAt: Date.now(),
+  name: schedule.name,
+  year: schedule.year,
+  term: schedule.term,
+  crns: [...schedule.crns]
+});
+
+// Call with the schedule before and after a change, the newest revision is always the current version
+export function recordRevision(before: SavedSchedule, after: SavedSchedule): void {
+  const store = loadRevisionStore();
+  // schedules saved before there were revisions start with their previous version
+  const revisions = store[after.id]?.length ? store[after.id] : [toRevision(before)];
+  const latest = revisions[0];
+  const revision = toRevision(after);
+
+  const sameSemester = latest.year === revision.year && latest.term === revision.term;
+  const changed = [
+    ...latest.crns.filter(crn => !revision.crns.includes(crn)),
+    ...revision.crns.filter(crn => !latest.crns.includes(crn))
+  ];
+  if (changed.length === 0 && sameSemester) return;
+
+  const merge = revisions.length > 1
+    && revision.savedAt - latest.savedAt < MERGE_WINDOW
+    && changed.length <= 1
+    && sameSemester;
+
+  store[after.id] = [revision, ...revisions.slice(merge ? 1 : 0)].slice(0, MAX_REVISIONS);
+  saveRevisionStore(store);
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { mentionedCorequisites, mentionedCourses, parsePrerequisites, PrerequisiteNode } from './prerequisite-parser';
+
+const course = (subject: string, courseCode: string, minGrade: string | null = 'C', orEquivalent = false): PrerequisiteNode =>
+    ({ type: 'course', subject, courseCode, minGrade, orEquivalent });
+const and = (...children: PrerequisiteNode[]): PrerequisiteNode => ({ type: 'and', children, orEquivalent: false });
+const or = (...children: PrerequisiteNode[]): PrerequisiteNode => ({ type: 'or', children, orEquivalent: false });
+
+// Prerequisite strings in the shapes the calendar uses, with its inconsistent quotes, spacing, list markers and trailing notes
+const FIXTURES: [string, PrerequisiteNode][] = [
+    [
+        'Prerequisite(s): A minimum "C" grade in CPSC 1150.',
+        course('CPSC', '1150'),
+    ],
+    [
+        'Prerequisite(s): A minimum "C" grade in CPSC 1150 and MATH 1150 (or MATH 1125 or equivalent).',
+        and(course('CPSC', '1150'), or(course('MATH', '1150'), course('MATH', '1125', 'C', true))),
+    ],
+    [
+        'Prerequisite(s): A minimum "C" grade in (CPSC 1150 and CPSC 1160) or CPSC 1181.',
+        or(and(course('CPSC', '1150'), course('CPSC', '1160')), course('CPSC', '1181')),
+    ],
+    [
+        // curly quotes, and a comma list that ends in "one of"
+        'Prerequisite(s): A minimum “C-” grade in CPSC 1150, MATH 1130 and one of MATH 1151, MATH 1153 or MATH 1171.',
+        and(
+            course('CPSC', '1150', 'C-'),
+            course('MATH', '1130', 'C-'),
+            or(course('MATH', '1151', 'C-'), course('MATH', '1153', 'C-'), course('MATH', '1171', 'C-'))
+        ),
+    ],
+    [
+        // single quotes, line breaks and lettered items
+        "Prerequisite(s): One of the following:\n(a) a minimum 'C' grade in MATH 1171; or\n(b) a minimum 'B' grade in BC Calculus 12 (or equivalent).",
+        or(course('MATH', '1171'), { type: 'other', text: 'a minimum "B" grade in BC Calculus 12' }),
+    ],
+    [
+        'Prerequisite(s): A minimum "C" grade in one of the following: (a) CPSC 1150; (b) CPSC 1155; or (c) a placement test.',
+        or(course('CPSC', '1150'), course('CPSC', '1155'), { type: 'placement', text: 'a placement test' }),
+    ],
+    [
+        // numbered items
+        'Prerequisite(s): A minimum "C" grade in one of: 1. CPSC 1150; 2. CPSC 1155.',
+        or(course('CPSC', '1150'), course('CPSC', '1155')),
+    ],
+    [
+        // the subject carries over to the bare course codes
+        'Prerequisite(s): A minimum of 45 credits, including a minimum "C" grade in ENGL 1123 and one of ENGL 1127, 1128 or 1129.',
+        and(
+            { type: 'other', text: 'A minimum of 45 credits' },
+            course('ENGL', '1123'),
+            or(course('ENGL', '1127'), course('ENGL', '1128'), course('ENGL', '1129'))
+        ),
+    ],
+    [
+        // the grade is in the same phrase as a high school course
+        'Prerequisite(s): A minimum "C" grade in Precalculus 12 or MATH 1170; or a placement test.',
+        or(
+            { type: 'other', text: 'A minimum "C" grade in Precalculus 12' },
+            course('MATH', '1170'),
+            { type: 'placement', text: 'a placement test' }
+        ),
+    ],
+    [
+        // grades after what they are for only apply there
+        'Prerequisite(s): (MATH 1150 or MATH 1153 with a minimum "C" grade; or Precalculus 12 with a minimum "B" grade) and CPSC 1030.',
+        and(
+            or(
+                course('MATH', '1150', null),
+                course('MATH', '1153'),
+                { type: 'other', text: 'Precalculus 12 with a minimum "B" grade' }
+            ),
+            course('CPSC', '1030', null)
+        ),
+    ],
+    [
+        'Prerequisite(s): CHEM 1120 and CHEM 1220 with a minimum "C" grade in each.',
+        and(course('CHEM', '1120'), course('CHEM', '1220')),
+    ],
+    [
+        'Prerequisite(s): LPI with a minimum score of 26; or a minimum "C" grade in ENGL 1120.',
+        or({ type: 'placement', text: 'LPI with a minimum score of 26' }, course('ENGL', '1120')),
+    ],
+    [
+        // stray spaces around the punctuation
+        'Prerequisite(s):  A minimum "C" grade in CPSC 1181 ; and  MATH 2362 .',
+        and(course('CPSC', '1181'), course('MATH', '2362')),
+    ],
+    [
+        'Prerequisite(s): A minimum "C" grade in CPSC 1160. Discontinued Fall 2014.',
+        course('CPSC', '1160'),
+    ],
+    [
+        // corequisites aren't part of the tree
+        'Prerequisite(s): A minimum "C" grade in MATH 1171 and MATH 1271. Corequisite(s): MATH 2362.',
+        and(course('MATH', '1171'), course('MATH', '1271')),
+    ],
+];
+
+// Strings without a tree, the page shows them as linked text and the courses in them still count as mentioned
+const UNPARSEABLE: [string, { subject: string; courseCode: string }[]][] = [
+    ['Prerequisite(s): Permission of the department.', []],
+    ['Prerequisite(s): Enrolment in the Post-Degree Diploma in Data Analytics program.', []],
+    [
+        'Prerequisite(s): Language Proficiency Index score of 26 or higher; or a minimum "C" grade in English 12.',
+        [],
+    ],
+    [
+        'Prerequisite(s): A minimum "C" grade in (CPSC 1150 or CPSC 1155.',
+        [{ subject: 'CPSC', courseCode: '1150' }, { subject: 'CPSC', courseCode: '1155' }],
+    ],
+    [
+        'Prerequisite(s): CPSC 1150 (or 1155)) and MATH 1171.',
+        [{ subject: 'CPSC', courseCode: '1150' }, { subject: 'CPSC', courseCode: '1155' }, { subject: 'MATH', courseCode: '1171' }],
+    ],
+];
+
+describe('parsePrerequisites', () => {
+    it.each(FIXTURES)('%s', (text, expected) => {
+        expect(parsePrerequisites(text)).toEqual(expected);
+    });
+
+    it.each(UNPARSEABLE)('falls back to the text for %s', (text, mentioned) => {
+        expect(parsePrerequisites(text)).toBeNull();
+        expect(mentionedCourses(text)).toEqual(mentioned);
+    });
+
+    it('returns null without text', () => {
+        expect(parsePrerequisites(null)).toBeNull();
+        expect(parsePrerequisites('')).toBeNull();
+    });
+});
+
+describe('mentionedCourses', () => {
+    it('finds courses even when the brackets are unbalanced', () => {
+        expect(mentionedCourses('Prerequisite(s): A minimum "C" grade in (CPSC 1150 or 1155.')).toEqual([
+            { subject: 'CPSC', courseCode: '1150' },
+            { subject: 'CPSC', courseCode: '1155' },
+        ]);
+    });
+
+    it('ignores years', () => {
+        expect(mentionedCourses('CPSC 1150. Discontinued Fall 2014.')).toEqual([{ subject: 'CPSC', courseCode: '1150' }]);
+    });
+});
+
+describe('mentionedCorequisites', () => {
+    it('finds the courses after "Corequisite(s):"', () => {
+        const text = 'Prerequisite(s): A minimum "C" grade in CPSC 1150. Corequisite(s): MATH 1150 or 1155.';
+        expect(mentionedCourses(text)).toEqual([{ subject: 'CPSC', courseCode: '1150' }]);
+        expect(mentionedCorequisites(text)).toEqual([
+            { subject: 'MATH', courseCode: '1150' },
+            { subject: 'MATH', courseCode: '1155' },
+        ]);
+    });
+
+    it('is empty without corequisites', () => {
+        expect(mentionedCorequisites('Prerequisite(s): A minimum "C" grade in CPSC 1150.')).toEqual([]);
+        expect(mentionedCorequisites(null)).toEqual([]);
+    });
+});
@@ -0,0 +1,450 @@
+// Turns the free text prerequisites from the Langara calendar into a tree of requirements
+// e.g. 'A minimum "C" grade in CPSC 1150 and MATH 1150 (or MATH 1125 or equivalent).'
+// becomes AND(CPSC 1150 [C], OR(MATH 1150 [C], MATH 1125 [C] or equivalent))
+//
+// The text is written by humans so this will never be perfect,
+// if it can't make sense of something it returns null and the page shows the plain text instead
+
+export type PrerequisiteNode =
+    | {
+        type: 'course';
+        subject: string;
+        courseCode: string;
+        minGrade: string | null;
+        orEquivalent: boolean;
+    }
+    // language / math placement tests and assessments
+    | { type: 'placement'; text: string }
+    // anything else we can't break down further (high school courses, permission of the department, etc.)
+    | { type: 'other'; text: string }
+    | { type: 'and' | 'or'; children: PrerequisiteNode[]; orEquivalent: boolean };
+
+type TokenType =
+    | 'course' | 'code' | 'grade' | 'word'
+    | 'and' | 'or' | 'equivalent' | 'one_of'
+    | 'lparen' | 'rparen' | 'semi' | 'comma' | 'marker';
+
+interface Token {
+    type: TokenType;
+    start: number;
+    end: number;
+    subject?: string;
+    courseCode?: string;
+    grade?: string;
+}
+
+// order matters, the first pattern that matches wins
+const TOKEN_PATTERNS: [TokenType, RegExp][] = [
+    ['one_of', /^(?:one of the following|one of|either)\b:?/i],
+    ['equivalent', /^or\s+(?:an?\s+)?equivalent\b/i],
+    ['or', /^(?:or\b|\/)/i],
+    ['and', /^and\b/i],
+    // list markers like (a) (b) (ii) or 1. 2.
+    ['marker', /^(?:\((?:[a-h]|\d|i{1,3}|iv|v)\)|[a-h]\)|\d\.(?=\s))/i],
+    ['lparen', /^\(/],
+    ['rparen', /^\)/],
+    ['semi', /^;/],
+    ['comma', /^,/],
+    ['grade', /^"([A-D][+-]?|P)"/],
+    ['course', /^([A-Z]{4,8})\s+(\d{4})\b/],
+    ['code', /^\d{4}\b/],
+    ['word', /^[^\s(),;/"]+|^"/],
+];
+
+const PLACEMENT_PATTERN = /placement|assessment|\bLET\b|\bLPI\b|\bLMPT\b|\btest\b|\bscore\b/i;
+
+// "Corequisite(s): ..." at the end of the prerequisites, group 1 is the corequisites
+const COREQUISITE_PATTERN = /\bcorequisites?(?:\s*\(s\))?\s*:([\s\S]*)$/i;
+
+// words that are only there to make the sentence read nicely
+const FILLER_PATTERN = /^(?:a|an|the|in|of|with|minimum|min\.?|grade|grades|final|following|both|all|at|least|completion|successful|successfully|completed|higher|better|:|\.)+$/i;
+
+function cleanText(text: string): string {
+    return text
+        .replace(/[“”]/g, '"')
+        .replace(/[‘’]/g, "'")
+        // 'C' -> "C" so grades only have one form
+        .replace(/'([A-D][+-]?)'/g, '"$1"')
+        .replace(/^\s*prerequisites?(?:\s*\(s\))?\s*:/i, '')
+        // corequisites are a different requirement
+        .replace(COREQUISITE_PATTERN, '')
+        .trim()
+        .replace(/\.$/, '')
+        // "CHEM 1120 and CHEM 1220 with a minimum "C" grade in each" -> the grade goes first like everywhere else
+        .replace(/^(.*?),?\s+with a minimum ("[A-D][+-]?") grade in (?:each|both|all)\b/i, 'A minimum $2 grade in $1');
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+    let lastSubject: string | null = null;
+
+    while (position < text.length) {
+        const rest = text.slice(position);
+        const whitespace = rest.match(/^\s+/);
+        if (whitespace) {
+            position += whitespace[0].length;
+            continue;
+        }
+
+        for (const [type, pattern] of TOKEN_PATTERNS) {
+            const match = rest.match(pattern);
+            if (!match) continue;
+
+            const token: Token = { type, start: position, end: position + match[0].length };
+
+            if (type === 'course') {
+                lastSubject = match[1];
+                token.subject = match[1];
+                token.courseCode = match[2];
+            } else if (type === 'code') {
+                // "CPSC 1150 or 1155", but not "Discontinued Fall 2014"
+                const previous = tokens[tokens.length - 1];
+                const isYear = previous?.type === 'word' && /^(?:fall|spring|summer)$/i.test(text.slice(previous.start, previous.end));
+                if (lastSubject && !isYear) {
+                    token.subject = lastSubject;
+                    token.courseCode = match[0];
+                } else {
+                    token.type = 'word';
+                }
+            } else if (type === 'grade') {
+                token.grade = match[1];
+            }
+
+            tokens.push(token);
+            position = token.end;
+            break;
+        }
+    }
+
+    return mergeWordParens(tokens);
+}
+
+// Brackets that only contain words, like "Langara English Test (LET)", are part of the surrounding text
+function mergeWordParens(tokens: Token[]): Token[] {
+    const merged = [...tokens];
+    for (let i = 0; i < merged.length; i++) {
+        if (merged[i].type !== 'lparen') continue;
+
+        let j = i + 1;
+        while (j < merged.length && (merged[j].type === 'word' || merged[j].type === 'grade')) j++;
+
+        if (j > i + 1 && merged[j]?.type === 'rparen') {
+            for (let k = i; k <= j; k++) merged[k] = { ...merged[k], type: 'word' };
+        }
+    }
+    return merged;
+}
+
+class PrerequisiteParseError extends Error { }
+
+// Split a token list on the given separator types, ignoring separators inside brackets
+function splitTopLevel(tokens: Token[], separators: TokenType[]): { parts: Token[][]; separators: Token[] } {
+    const parts: Token[][] = [[]];
+    const found: Token[] = [];
+    let depth = 0;
+
+    tokens.forEach(token => {
+        if (token.type === 'lparen') depth++;
+        if (token.type === 'rparen') depth--;
+        if (depth < 0) throw new PrerequisiteParseError('Unbalanced brackets');
+
+        if (depth === 0 && separators.includes(token.type)) {
+            found.push(token);
+            parts.push([]);
+        } else {
+            parts[parts.length - 1].push(token);
+        }
+    });
+
+    if (depth !== 0) throw new PrerequisiteParseError('Unbalanced brackets');
+    return { parts, separators: found };
+}
+
+function group(type: 'and' | 'or', children: PrerequisiteNode[]): PrerequisiteNode | null {
+    // flatten AND(AND(a, b), c) into AND(a, b, c)
+    const flattened = children.flatMap(child =>
+        child.type === type && !child.orEquivalent ? child.children : [child]
+    );
+    if (flattened.length === 0) return null;
+    if (flattened.length === 1) return flattened[0];
+    return { type, children: flattened, orEquivalent: false };
+}
+
+const markEquivalent = (node: PrerequisiteNode): PrerequisiteNode =>
+    node.type === 'course' || node.type === 'and' || node.type === 'or'
+        ? { ...node, orEquivalent: true }
+        : node;
+
+class Parser {
+    // the last minimum grade mentioned applies to the courses after it
+    private grade: string | null = null;
+
+    constructor(private text: string) { }
+
+    parse(tokens: Token[]): PrerequisiteNode | null {
+        const oneOf = this.findTopLevel(tokens, 'one_of');
+        if (oneOf !== -1) {
+            // "MATH 1171 and one of MATH 1271 or MATH 1273"
+            const before = tokens.slice(0, oneOf);
+            const connector = before.length > 0 ? before[before.length - 1].type : null;
+            const left = connector === 'and' || connector === 'or'
+                ? this.parse(before.slice(0, -1))
+                : this.parse(before);
+            const right = this.parseAlternatives(tokens.slice(oneOf + 1));
+            if (!left) return right;
+            if (!right) return left;
+            return group(connector === 'or' ? 'or' : 'and', [left, right]);
+        }
+
+        if (this.findTopLevel(tokens, 'marker') !== -1) {
+            return this.parseList(tokens, 'and');
+        }
+
+        return this.parseConnected(tokens, ['semi']);
+    }
+
+    // everything after "one of" is an alternative
+    private parseAlternatives(tokens: Token[]): PrerequisiteNode | null {
+        if (this.findTopLevel(tokens, 'marker') !== -1) {
+            return this.parseList(tokens, 'or');
+        }
+
+        const { parts } = splitTopLevel(tokens, ['semi', 'comma', 'or']);
+        const children = parts
+            .map(part => this.parse(this.stripConnectors(part)))
+            .filter((child): child is PrerequisiteNode => child !== null);
+        return group('or', children);
+    }
+
+    // "(a) ...; or (b) ..." - the word before each marker decides how they are joined
+    private parseList(tokens: Token[], defaultType: 'and' | 'or'): PrerequisiteNode | null {
+        const { parts } = splitTopLevel(tokens, ['marker']);
+        const intro = parts.shift()!;
+        const introNode = this.parse(this.stripConnectors(intro));
+        // 'a minimum "C" grade in one of the following: (a) ...' applies to every item
+        const introGrade = this.grade;
+
+        let type = defaultType;
+        const children: PrerequisiteNode[] = [];
+        parts.forEach(part => {
+            const trailing = part.filter(token => token.type !== 'semi' && token.type !== 'comma');
+            const connector = trailing[trailing.length - 1];
+            if (connector?.type === 'or') type = 'or';
+
+            // grades given inside a list item don't carry over to the next one
+            this.grade = introGrade;
+            const child = this.parse(this.stripConnectors(part));
+            if (child) children.push(child);
+        });
+
+        const list = group(type, children);
+        if (introNode && list) return group('and', [introNode, list]);
+        return list ?? introNode;
+    }
+
+    // Split on the separators, then on and/or/commas. "and" binds tighter than "or"
+    private parseConnected(tokens: Token[], separators: TokenType[]): PrerequisiteNode | null {
+        if (separators.length > 0) {
+            const { parts } = splitTopLevel(tokens, separators);
+            if (parts.length > 1) {
+                return this.joinParts(parts, part => this.parseConnected(part, []));
+            }
+        }
+
+        const { parts, separators: found } = splitTopLevel(tokens, ['and', 'or', 'comma', 'equivalent']);
+
+        // "A, B, and C" - commas take the meaning of the next and/or
+        const connectors: ('and' | 'or')[] = [];
+        const equivalentAfter = new Set<number>();
+        found.forEach((token, index) => {
+            if (token.type === 'equivalent') equivalentAfter.add(index);
+            if (token.type === 'and' || token.type === 'or') {
+                connectors.push(token.type);
+            } else if (token.type === 'comma') {
+                const next = found.slice(index + 1).find(t => t.type === 'and' || t.type === 'or');
+                connectors.push(next?.type === 'or' ? 'or' : 'and');
+            } else {
+                connectors.push('or');
+            }
+        });
+
+        const items: (PrerequisiteNode | null)[] = parts.map(part => this.parseItem(part));
+        equivalentAfter.forEach(index => {
+            const item = items[index];
+            if (item) items[index] = markEquivalent(item);
+        });
+
+        // group the and-ed items together, then or the groups
+        const orGroups: PrerequisiteNode[][] = [[]];
+        items.forEach((item, index) => {
+            if (index > 0 && connectors[index - 1] === 'or' && !equivalentAfter.has(index - 1)) {
+                orGroups.push([]);
+            }
+            if (item) orGroups[orGroups.length - 1].push(item);
+        });
+
+        return group('or', orGroups
+            .map(items => group('and', items))
+            .filter((node): node is PrerequisiteNode => node !== null));
+    }
+
+    // "A; or B" - segments that start with "or" are alternatives
+    private joinParts(parts: Token[][], parsePart: (part: Token[]) => PrerequisiteNode | null): PrerequisiteNode | null {
+        const orGroups: PrerequisiteNode[][] = [[]];
+        parts.forEach((part, index) => {
+            if (index > 0 && part[0]?.type === 'or') orGroups.push([]);
+            const node = parsePart(this.stripConnectors(part));
+            if (node) orGroups[orGroups.length - 1].push(node);
+        });
+
+        return group('or', orGroups
+            .map(items => group('and', items))
+            .filter((node): node is PrerequisiteNode => node !== null));
+    }
+
+    private parseItem(tokens: Token[]): PrerequisiteNode | null {
+        if (tokens.length === 0) return null;
+
+        // a bracketed group
+        if (tokens[0].type === 'lparen') {
+            const close = this.findClosing(tokens, 0);
+            const inner = this.parse(tokens.slice(1, close));
+            const after = this.parseItem(tokens.slice(close + 1));
+            if (inner && after) return group('and', [inner, after]);
+            return inner ?? after;
+        }
+
+        const bracket = tokens.findIndex(token => token.type === 'lparen');
+        if (bracket !== -1) {
+            // "MATH 1150 (or MATH 1125)" - the text in front of the bracket and the bracket are alternatives
+            // when the bracket starts with "or", otherwise both are needed
+            const before = this.parseItem(tokens.slice(0, bracket));
+            const close = this.findClosing(tokens, bracket);
+            const inside = tokens.slice(bracket + 1, close);
+            const insideNode = this.parse(this.stripConnectors(inside));
+            const after = this.parseItem(tokens.slice(close + 1));
+
+            let combined: PrerequisiteNode | null;
+            if (before && inside[0]?.type === 'equivalent') {
+                // "MATH 1171 (or equivalent)"
+                combined = markEquivalent(before);
+            } else if (before && insideNode && inside[0]?.type === 'or') {
+                combined = group('or', [before, insideNode]);
+            } else {
+                combined = group('and', [before, insideNode].filter((node): node is PrerequisiteNode => node !== null));
+            }
+
+            if (combined && after) return group('and', [combined, after]);
+            return combined ?? after;
+        }
+
+        return this.parseAtom(tokens);
+    }
+
+    // A run of words, grades and courses with no structure in between
+    private parseAtom(tokens: Token[]): PrerequisiteNode | null {
+        const gradeToken = tokens.find(token => token.type === 'grade');
+        const courses = tokens.filter(token => token.type === 'course' || token.type === 'code');
+        const words = tokens.filter(token => token.type === 'word');
+        const text = this.text.slice(tokens[0].start, tokens[tokens.length - 1].end).trim();
+        // 'MATH 1153 with a minimum "C" grade' - a grade after what it is for doesn't carry over to the next courses
+        const trailingGrade = gradeToken !== undefined && /\bwith\b[^"]*$/i.test(this.text.slice(tokens[0].start, gradeToken.start));
+
+        if (courses.length === 0) {
+            if (words.length === 0 && !gradeToken) return null;
+            if (PLACEMENT_PATTERN.test(text)) return { type: 'placement', text };
+            if (gradeToken && words.every(word => FILLER_PATTERN.test(this.text.slice(word.start, word.end)))) {
+                // just "a minimum "C" grade in", the courses come next
+                this.grade = gradeToken.grade!;
+                return null;
+            }
+            if (words.every(word => FILLER_PATTERN.test(this.text.slice(word.start, word.end)))) return null;
+            // 'a minimum "C" grade in Precalculus 12 or MATH 1170' - the grade still applies to the courses after it
+            if (gradeToken && !trailingGrade) this.grade = gradeToken.grade!;
+            return { type: 'other', text };
+        }
+
+        if (gradeToken && !trailingGrade) this.grade = gradeToken.grade!;
+        const minGrade = trailingGrade ? gradeToken.grade! : this.grade;
+
+        return group('and', courses.map(course => ({
+            type: 'course',
+            subject: course.subject!,
+            courseCode: course.courseCode!,
+            minGrade,
+            orEquivalent: false
+        })));
+    }
+
+    private stripConnectors(tokens: Token[]): Token[] {
+        const skip: TokenType[] = ['and', 'or', 'semi', 'comma'];
+        let start = 0;
+        let end = tokens.length;
+        while (start < end && skip.includes(tokens[start].type)) start++;
+        while (end > start && skip.includes(tokens[end - 1].type)) end--;
+        return tokens.slice(start, end);
+    }
+
+    private findTopLevel(tokens: Token[], type: TokenType): number {
+        let depth = 0;
+        for (let i = 0; i < tokens.length; i++) {
+            if (tokens[i].type === 'lparen') depth++;
+            if (tokens[i].type === 'rparen') depth--;
+            if (depth === 0 && tokens[i].type === type) return i;
+        }
+        return -1;
+    }
+
+    private findClosing(tokens: Token[], open: number): number {
+        let depth = 0;
+        for (let i = open; i < tokens.length; i++) {
+            if (tokens[i].type === 'lparen') depth++;
+            if (tokens[i].type === 'rparen') depth--;
+            if (depth === 0) return i;
+        }
+        throw new PrerequisiteParseError('Unbalanced brackets');
+    }
+}
+
+const containsCourse = (node: PrerequisiteNode): boolean =>
+    node.type === 'course' || ((node.type === 'and' || node.type === 'or') && node.children.some(containsCourse));
+
+// Returns null if the text couldn't be parsed into something useful
+export function parsePrerequisites(text: string | null): PrerequisiteNode | null {
+    if (!text) return null;
+
+    const cleaned = cleanText(text);
+    try {
+        const tree = new Parser(cleaned).parse(tokenize(cleaned));
+        return tree && containsCourse(tree) ? tree : null;
+    } catch (error) {
+        if (error instanceof PrerequisiteParseError) return null;
+        throw error;
+    }
+}
+
+// Every course mentioned in the tree
+export function prerequisiteCourses(node: PrerequisiteNode): { subject: string; courseCode: string }[] {
+    if (node.type === 'course') return [{ subject: node.subject, courseCode: node.courseCode }];
+    if (node.type === 'and' || node.type === 'or') return node.children.flatMap(prerequisiteCourses);
+    return [];
+}
+
+const tokenCourses = (text: string): { subject: string; courseCode: string }[] =>
+    tokenize(text)
+        .filter(token => token.type === 'course' || token.type === 'code')
+        .map(token => ({ subject: token.subject!, courseCode: token.courseCode! }));
+
+// Every course code that appears in the text (but not in its corequisites), even if the text can't be parsed into a tree
+export function mentionedCourses(text: string | null): { subject: string; courseCode: string }[] {
+    if (!text) return [];
+    return tokenCourses(cleanText(text));
+}
+
+// Every course code in the "Corequisite(s):" part of the text
+export function mentionedCorequisites(text: string | null): { subject: string; courseCode: string }[] {
+    const corequisites = text?.match(COREQUISITE_PATTERN)?.[1];
+    if (!corequisites) return [];
+    return tokenCourses(corequisites);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { applyImport, BackupError, parseBackup, planImport } from './schedule-backup';
+import { SavedSchedule } from '@/types/Planner2';
+
+const schedule = (id: string, name: string, crns: string[]): SavedSchedule =>
+  ({ id, name, year: 2025, term: 30, crns, createdAt: 0 });
+
+describe('parseBackup', () => {
+  it('reads a bare array of schedules', () => {
+    const { schedules } = parseBackup(JSON.stringify([{ id: 'a', name: 'Fall', year: 2025, term: 30, crns: [30001] }]));
+    expect(schedules.map(s => s.crns)).toEqual([['30001']]);
+  });
+
+  it.each([
+    ['a missing version', { schedules: [] }],
+    ['a version of 0', { version: 0, schedules: [] }],
+    ['a fractional version', { version: 1.5, schedules: [] }],
+    ['a version that is a string', { version: '2', schedules: [] }],
+  ])('rejects %s', (_, data) => {
+    expect(() => parseBackup(JSON.stringify(data))).toThrow(BackupError);
+  });
+});
+
+describe('planImport', () => {
+  it('marks a schedule repeated in the file as a duplicate of its first copy', () => {
+    const first = schedule('a', 'Fall', ['30001']);
+    const copy = schedule('b', 'Fall', ['30001']);
+    const items = planImport([], [first, copy]);
+    expect(items.map(item => item.status)).toEqual(['new', 'duplicate']);
+    expect(items[1].existing).toBe(first);
+  });
+
+  it('imports a repeated schedule once', () => {
+    const existing = [schedule('a', 'Other', ['30009'])];
+    const incoming = [schedule('a', 'Fall', ['30001']), schedule('b', 'Fall', ['30001'])];
+    const result = applyImport(existing, planImport(existing, incoming), {}, 'b');
+    expect(result.added).toBe(1);
+    expect(result.skipped).toBe(1);
+    // the first copy was given a new id because "a" is taken, the current schedule follows it
+    expect(result.currentScheduleId).toBe(result.schedules[1].id);
+  });
+});
@@ -0,0 +1,190 @@
+// Backup files of the saved schedules, for moving them between computers
+//
+// A backup has the same { version, schedules } shape as the stored schedules, so an old backup goes through the
+// same migrations when it is imported. A raw copy of the localStorage value can be imported as well
+//
+// Importing merges into the existing schedules: exact copies are skipped, and a schedule with the same id
+// or the same name and semester as an existing one is a conflict that the user resolves (keep both or replace)
+
+import {
+  loadCurrentScheduleId,
+  loadSchedules,
+  MAX_SCHEDULES,
+  migrate,
+  sameCrns,
+  STORAGE_VERSION,
+  validateSchedules
+} from './schedule-storage';
+import { Course } from '@/types/Course';
+import { SavedSchedule } from '@/types/Planner2';
+
+const BACKUP_TYPE = 'langara-planner-backup';
+
+export interface ScheduleBackup {
+  type: typeof BACKUP_TYPE;
+  // the version of the schedules format, see lib/schedule-storage
+  version: number;
+  exportedAt: string;
+  currentScheduleId: string | null;
+  // saved as they are, so anything else stored on a schedule (filters...) comes along
+  schedules: SavedSchedule[];
+}
+
+// the file can't be used at all
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export interface ParsedBackup {
+  schedules: SavedSchedule[];
+  currentScheduleId: string | null;
+  // schedules in the file that couldn't be read
+  unreadable: number;
+}
+
+export type ImportStatus = 'new' | 'duplicate' | 'conflict';
+export type ConflictResolution = 'keep-both' | 'replace';
+
+export interface ImportItem {
+  schedule: SavedSchedule;
+  status: ImportStatus;
+  // the existing schedule it duplicates or conflicts with
+  existing?: SavedSchedule;
+}
+
+export interface ImportResult {
+  schedules: SavedSchedule[];
+  added: number;
+  replaced: number;
+  skipped: number;
+  // not imported because of the MAX_SCHEDULES cap
+  overCap: number;
+  // the id the backup's current schedule ended up with, if it was imported
+  currentScheduleId: string | null;
+}
+
+// Export
+
+export const createBackup = (): ScheduleBackup => ({
+  type: BACKUP_TYPE,
+  version: STORAGE_VERSION,
+  exportedAt: new Date().toISOString(),
+  currentScheduleId: loadCurrentScheduleId(),
+  schedules: loadSchedules()
+});
+
+export const backupFileName = (backup: ScheduleBackup): string =>
+  `langara-schedules-${backup.exportedAt.slice(0, 10)}.json`;
+
+// Import
+
+export function parseBackup(text: string): ParsedBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupError('This file is not a schedule backup (it is not valid JSON).');
+  }
+
+  const isBackup = Array.isArray(data) || (typeof data === 'object' && data !== null && 'schedules' in data);
+  if (!isBackup) {
+    throw new BackupError('This file is not a schedule backup.');
+  }
+
+  // a bare array is the first version, it had no version number
+  const version = Array.isArray(data) ? 1 : (data as { version?: unknown }).version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new BackupError('This file is not a schedule backup (it has no valid version).');
+  }
+
+  const migrated = migrate(data);
+  if (migrated.version > STORAGE_VERSION) {
+    throw new BackupError('This backup was made by a newer version of the planner, reload the page and try again.');
+  }
+  if (!Array.isArray(migrated.schedules)) {
+    throw new BackupError('This file is not a schedule backup.');
+  }
+
+  const { schedules, rejected } = validateSchedules(migrated.schedules);
+  const currentScheduleId = (data as Partial<ScheduleBackup>).currentScheduleId;
+  return {
+    schedules,
+    currentScheduleId: typeof currentScheduleId === 'string' ? currentScheduleId : null,
+    unreadable: rejected.length
+  };
+}
+
+const sameContent = (a: SavedSchedule, b: SavedSchedule): boolean =>
+  a.name === b.name && a.year === b.year && a.term === b.term && sameCrns(a.crns, b.crns);
+
+// Schedules repeated in the file itself are duplicates of their first copy
+export function planImport(existing: SavedSchedule[], incoming: SavedSchedule[]): ImportItem[] {
+  const planned: SavedSchedule[] = [];
+  return incoming.map(schedule => {
+    const duplicate = existing.find(s => sameContent(s, schedule)) ?? planned.find(s => sameContent(s, schedule));
+    if (duplicate) return { schedule, status: 'duplicate', existing: duplicate };
+
+    planned.push(schedule);
+    const conflict = existing.find(s => s.id === schedule.id)
+      ?? existing.find(s => s.name === schedule.name && s.year === schedule.year && s.term === schedule.term);
+    if (conflict) return { schedule, status: 'conflict', existing: conflict };
+
+    return { schedule, status: 'new' };
+  });
+}
+
+// resolutions are by index into items, conflicts without one are kept as both
+export function applyImport(
+  existing: SavedSchedule[],
+  items: ImportItem[],
+  resolutions: Record<number, ConflictResolution>,
+  backupCurrentScheduleId: string | null = null
+): ImportResult {
+  const schedules = [...existing];
+  const result: ImportResult = { schedules, added: 0, replaced: 0, skipped: 0, overCap: 0, currentScheduleId: null };
+  const importedAt = Date.now();
+  // the id each schedule from the file ended up with, for the ones that duplicate an earlier schedule in the file
+  const importedIds = new Map<SavedSchedule, string | null>();
+
+  items.forEach((item, index) => {
+    let id: string | null = null;
+
+    if (item.status === 'duplicate') {
+      result.skipped++;
+      id = importedIds.has(item.existing!) ? importedIds.get(item.existing!)! : item.existing!.id;
+    } else if (item.status === 'conflict' && resolutions[index] === 'replace') {
+      // keeps the existing id, so it stays selected if it was the current schedule
+      const position = schedules.findIndex(s => s.id === item.existing!.id);
+      schedules[position] = { ...item.schedule, id: item.existing!.id };
+      result.replaced++;
+      id = item.existing!.id;
+    } else if (schedules.length >= MAX_SCHEDULES) {
+      result.overCap++;
+    } else {
+      const idTaken = schedules.some(s => s.id === item.schedule.id);
+      const nameTaken = schedules.some(s => s.name === item.schedule.name);
+      const schedule = {
+        ...item.schedule,
+        id: idTaken ? `imported-${importedAt}-${index}` : item.schedule.id,
+        name: nameTaken ? `${item.schedule.name} (imported)` : item.schedule.name
+      };
+      schedules.push(schedule);
+      result.added++;
+      id = schedule.id;
+    }
+
+    importedIds.set(item.schedule, id);
+    if (item.schedule.id === backupCurrentScheduleId && result.currentScheduleId === null) result.currentScheduleId = id;
+  });
+
+  return result;
+}
+
+// CRNs of a schedule that aren't in the semester's sections anymore (cancelled, or the semester was re-scraped)
+export function findMissingCrns(schedule: SavedSchedule, courses: Course[]): string[] {
+  const offered = new Set(courses.flatMap(course => course.sections.map(section => section.crn.toString())));
+  return schedule.crns.filter(crn => !offered.has(crn));
+}
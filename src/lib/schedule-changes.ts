@@ -0,0 +1,135 @@
+// Finds what happened to the sections of a saved schedule since they were added: cancelled, moved to another
+// time or room, taught by someone else, or gone from the semester altogether
+//
+// Each schedule remembers what its sections looked like (SavedSchedule.snapshots). That is compared with the
+// latest section data whenever the schedule is opened, and updated once the user has seen the change
+
+import { sectionAvailability, SectionAvailability } from './section-filters';
+import { SavedSchedule } from '@/types/Planner2';
+import { Section } from '@/types/Section';
+
+export interface SectionSnapshot {
+  subject: string;
+  course_code: string;
+  section: string;
+  seats: string;
+  // of the meetings that aren't exams, sorted so that the order doesn't matter
+  times: string[]; // e.g. "Lecture M-W---- 1030-1220"
+  rooms: string[];
+  instructors: string[];
+}
+
+export type SectionChangeKind = 'missing' | 'cancelled' | 'changed';
+
+export interface SectionChange {
+  kind: SectionChangeKind;
+  crn: string;
+  // e.g. "CPSC 1150 001", or "CRN 12345" if we don't know which course it was
+  name: string;
+  // the latest data, undefined if the crn no longer exists
+  section?: Section;
+  snapshot?: SectionSnapshot;
+  // e.g. "Room: A130 → B141"
+  details: string[];
+}
+
+const unique = (values: string[]): string[] => [...new Set(values)].sort();
+
+export function snapshotSection(section: Section): SectionSnapshot {
+  const meetings = section.schedule.filter(schedule => schedule.type !== 'Exam');
+  return {
+    subject: section.subject,
+    course_code: section.course_code,
+    section: section.section,
+    seats: section.seats,
+    times: unique(meetings.map(m => `${m.type} ${m.days} ${m.time}`)),
+    rooms: unique(meetings.map(m => m.room)),
+    instructors: unique(meetings.map(m => m.instructor))
+  };
+}
+
+// Adds snapshots for the crns that don't have one yet, the existing ones are kept until the user has seen what changed
+export function withSnapshots(schedule: SavedSchedule, sections: Section[]): SavedSchedule {
+  const missing = sections.filter(section =>
+    schedule.crns.includes(section.crn.toString()) && !schedule.snapshots?.[section.crn.toString()]
+  );
+  if (missing.length === 0) return schedule;
+
+  return {
+    ...schedule,
+    snapshots: {
+      ...schedule.snapshots,
+      ...Object.fromEntries(missing.map(section => [section.crn.toString(), snapshotSection(section)]))
+    }
+  };
+}
+
+// Forgets the sections that were removed from the schedule
+export function pruneSnapshots(schedule: SavedSchedule): SavedSchedule {
+  if (!schedule.snapshots) return schedule;
+  return {
+    ...schedule,
+    snapshots: Object.fromEntries(Object.entries(schedule.snapshots).filter(([crn]) => schedule.crns.includes(crn)))
+  };
+}
+
+function describeChanges(before: SectionSnapshot, after: SectionSnapshot): string[] {
+  const fields: [string, keyof Pick<SectionSnapshot, 'times' | 'rooms' | 'instructors'>][] = [
+    ['Time', 'times'],
+    ['Room', 'rooms'],
+    ['Instructor', 'instructors']
+  ];
+  return fields
+    .filter(([, key]) => before[key].join() !== after[key].join())
+    .map(([label, key]) => `${label}: ${before[key].join(', ') || 'none'} → ${after[key].join(', ') || 'none'}`);
+}
+
+// Compares the schedule's crns with the sections of its semester
+export function findScheduleChanges(schedule: SavedSchedule, sections: Section[]): SectionChange[] {
+  const sectionsByCrn = new Map(sections.map(section => [section.crn.toString(), section]));
+  const changes: SectionChange[] = [];
+
+  schedule.crns.forEach(crn => {
+    const section = sectionsByCrn.get(crn);
+    const snapshot = schedule.snapshots?.[crn];
+    const name = section
+      ? `${section.subject} ${section.course_code} ${section.section}`
+      : snapshot ? `${snapshot.subject} ${snapshot.course_code} ${snapshot.section}` : `CRN ${crn}`;
+
+    if (!section) {
+      changes.push({ kind: 'missing', crn, name, snapshot, details: [] });
+    } else if (section.seats === 'Cancel' && snapshot?.seats !== 'Cancel') {
+      changes.push({ kind: 'cancelled', crn, name, section, snapshot, details: [] });
+    } else if (snapshot) {
+      const details = describeChanges(snapshot, snapshotSection(section));
+      if (details.length > 0) changes.push({ kind: 'changed', crn, name, section, snapshot, details });
+    }
+  });
+
+  return changes;
+}
+
+// best first
+const AVAILABILITY_ORDER: SectionAvailability[] = ['open', 'waitlist', 'long-waitlist', 'full', 'cancelled'];
+
+// Other sections of the same course that aren't cancelled and fit, e.g. don't conflict with the rest of the schedule
+export function suggestReplacements(
+  change: SectionChange,
+  sections: Section[],
+  fits: (section: Section) => boolean,
+  limit = 5
+): Section[] {
+  const course = change.section ?? change.snapshot;
+  if (!course) return [];
+
+  return sections
+    .filter(section =>
+      section.subject === course.subject &&
+      section.course_code === course.course_code &&
+      section.crn.toString() !== change.crn &&
+      section.seats !== 'Cancel' &&
+      fits(section)
+    )
+    .sort((a, b) => AVAILABILITY_ORDER.indexOf(sectionAvailability(a)) - AVAILABILITY_ORDER.indexOf(sectionAvailability(b)))
+    .slice(0, limit);
+}
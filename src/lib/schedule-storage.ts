@@ -0,0 +1,250 @@
+// The saved schedules in localStorage, everything that reads or writes them goes through here
+//
+// They are stored as { version, schedules } so that the format can change: older data is migrated
+// one version at a time when it is loaded, then every schedule is validated. A schedule that can't be
+// read is moved to a quarantine key instead of being dropped, so nothing a user saved is ever silently lost
+//
+// The first version was a bare SavedSchedule[] with no version field
+
+import { array, number, numeric, object, optional, Schema, SchemaError, string, withDefault } from './api-validation';
+import { withDefaultFilters } from './section-filters';
+import { SavedSchedule } from '@/types/Planner2';
+
+const SCHEDULES_KEY = 'langara-saved-schedules';
+const CURRENT_SCHEDULE_KEY = 'langara-current-schedule-id';
+const QUARANTINE_KEY = 'langara-saved-schedules-quarantine';
+
+export const STORAGE_VERSION = 2;
+export const MAX_SCHEDULES = 50;
+const MAX_QUARANTINED = 20;
+
+export interface StoredSchedules {
+  version: number;
+  schedules: unknown[];
+}
+
+export interface QuarantinedRecord {
+  quarantinedAt: number;
+  reason: string;
+  // exactly what was stored, so it can be recovered by hand
+  data: unknown;
+}
+
+// Migrations
+
+// MIGRATIONS[n] turns version n data into version n + 1
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // wrap the bare array, crns were sometimes saved as numbers
+  1: (data) => ({
+    version: 2,
+    schedules: (Array.isArray(data) ? data : []).map(schedule =>
+      schedule && typeof schedule === 'object' && Array.isArray(schedule.crns)
+        ? { ...schedule, crns: schedule.crns.map(String) }
+        : schedule
+    )
+  })
+};
+
+const versionOf = (data: unknown): number =>
+  Array.isArray(data) ? 1 : (data as StoredSchedules).version;
+
+export function migrate(data: unknown): StoredSchedules {
+  let version = versionOf(data);
+  while (version < STORAGE_VERSION) {
+    data = MIGRATIONS[version](data);
+    version = versionOf(data);
+  }
+  return data as StoredSchedules;
+}
+
+// Validation
+
+const crn: Schema<string> = (value, path) => String(numeric(value, path));
+
+// filters are a nice to have, a bad set is reset instead of losing the schedule
+const filters: Schema<SavedSchedule['filters']> = (value) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? withDefaultFilters(value) : undefined;
+
+const stringArray = (value: unknown): boolean => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// snapshots only power the change alerts (lib/schedule-changes.ts), bad ones are dropped and taken again
+const snapshots: Schema<SavedSchedule['snapshots']> = (value) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  return Object.fromEntries(Object.entries(value).filter(([, snapshot]) =>
+    snapshot && typeof snapshot === 'object' &&
+    ['subject', 'course_code', 'section', 'seats'].every(key => typeof snapshot[key] === 'string') &&
+    ['times', 'rooms', 'instructors'].every(key => stringArray(snapshot[key]))
+  ));
+};
+
+const savedScheduleSchema = object<SavedSchedule>({
+  id: string,
+  name: string,
+  year: numeric,
+  term: numeric,
+  crns: array(crn),
+  createdAt: withDefault(number, () => 0),
+  filters,
+  notes: optional(string),
+  snapshots
+});
+
+// Splits records into valid schedules and the ones that can't be read, with the reason
+export function validateSchedules(records: unknown[]): { schedules: SavedSchedule[]; rejected: QuarantinedRecord[] } {
+  const schedules: SavedSchedule[] = [];
+  const rejected: QuarantinedRecord[] = [];
+  records.forEach((record, index) => {
+    try {
+      schedules.push(savedScheduleSchema(record, `schedules[${index}]`));
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      rejected.push({ quarantinedAt: Date.now(), reason: error.message, data: record });
+    }
+  });
+  return { schedules, rejected };
+}
+
+// Quarantine
+
+export function loadQuarantine(): QuarantinedRecord[] {
+  try {
+    const saved = localStorage.getItem(QUARANTINE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Failed to load quarantined schedules from localStorage:', error);
+    return [];
+  }
+}
+
+function quarantine(records: QuarantinedRecord[]): void {
+  console.error('Moved unreadable saved schedules to quarantine:', records);
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...loadQuarantine(), ...records].slice(-MAX_QUARANTINED)));
+  } catch (error) {
+    console.error('Failed to quarantine saved schedules:', error);
+  }
+}
+
+// Schedules
+
+export function saveSchedules(schedules: SavedSchedule[]): boolean {
+  try {
+    const stored: StoredSchedules = { version: STORAGE_VERSION, schedules };
+    localStorage.setItem(SCHEDULES_KEY, JSON.stringify(stored));
+    return true;
+  } catch (error) {
+    console.error('Failed to save schedules to localStorage:', error);
+    return false;
+  }
+}
+
+// Parses the stored value, migrating and cleaning it up in storage if needed
+function parseSchedules(saved: string | null): SavedSchedule[] {
+  if (!saved) return [];
+
+  let savedVersion: number;
+  let data: StoredSchedules;
+  try {
+    const parsed = JSON.parse(saved);
+    savedVersion = versionOf(parsed);
+    data = migrate(parsed);
+    if (!data || !Array.isArray(data.schedules)) throw new Error('no schedules list');
+  } catch (error) {
+    // keep the original text and start over, rather than overwriting it later
+    quarantine([{ quarantinedAt: Date.now(), reason: `Unreadable data: ${error instanceof Error ? error.message : error}`, data: saved }]);
+    saveSchedules([]);
+    return [];
+  }
+
+  // saved by a newer version of the site in another tab, read what we can but don't rewrite it
+  const isNewer = data.version > STORAGE_VERSION;
+  if (isNewer) {
+    console.error(`Saved schedules are version ${data.version}, this page only knows up to ${STORAGE_VERSION}`);
+  }
+
+  const { schedules, rejected } = validateSchedules(data.schedules);
+
+  if (!isNewer && rejected.length > 0) quarantine(rejected);
+  if (!isNewer && (savedVersion < STORAGE_VERSION || rejected.length > 0)) {
+    saveSchedules(schedules);
+  }
+  return schedules;
+}
+
+export function loadSchedules(): SavedSchedule[] {
+  try {
+    return parseSchedules(localStorage.getItem(SCHEDULES_KEY));
+  } catch (error) {
+    console.error('Failed to load schedules from localStorage:', error);
+    return [];
+  }
+}
+
+// Adds a schedule at the end, unless there are already MAX_SCHEDULES
+export function addSchedule(schedule: SavedSchedule): boolean {
+  const schedules = loadSchedules();
+  if (schedules.length >= MAX_SCHEDULES) {
+    console.error(`Can't save more than ${MAX_SCHEDULES} schedules`);
+    return false;
+  }
+  return saveSchedules([...schedules, schedule]);
+}
+
+export function clearSchedules(): void {
+  try {
+    localStorage.removeItem(SCHEDULES_KEY);
+    localStorage.removeItem(CURRENT_SCHEDULE_KEY);
+  } catch (error) {
+    console.error('Failed to clear schedules from localStorage:', error);
+  }
+}
+
+// The raw stored value, for the debugger
+export function loadRawSchedules(): string | null {
+  try {
+    return localStorage.getItem(SCHEDULES_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// Current schedule
+
+export function loadCurrentScheduleId(): string | null {
+  try {
+    return localStorage.getItem(CURRENT_SCHEDULE_KEY);
+  } catch (error) {
+    console.error('Failed to get current schedule from localStorage:', error);
+    return null;
+  }
+}
+
+export function saveCurrentScheduleId(scheduleId: string | null): void {
+  try {
+    if (scheduleId) {
+      localStorage.setItem(CURRENT_SCHEDULE_KEY, scheduleId);
+    } else {
+      localStorage.removeItem(CURRENT_SCHEDULE_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to set current schedule in localStorage:', error);
+  }
+}
+
+// Cross-tab sync
+
+// Calls listener with the new schedules when another tab changes them, returns the unsubscribe function
+export function subscribeToSchedules(listener: (schedules: SavedSchedule[]) => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    // key is null when the other tab cleared all of localStorage
+    if (event.key !== SCHEDULES_KEY && event.key !== null) return;
+    listener(loadSchedules());
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+// crns are kept in selection order, so compare them as sets
+export const sameCrns = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(crn => b.includes(crn));
@@ -0,0 +1,111 @@
+// Filters for the planner's section list, saved with each schedule
+// These are applied on top of the search box (lib/section-search.ts)
+
+import { Section } from '@/types/Section';
+import { isOnlineSection, parseTime } from './section-search';
+
+export interface PlannerFilters {
+  // days a section may meet on (M T W R F S), empty = any day
+  days: string[];
+  // "HH:MM" from <input type="time">, empty = no limit
+  startsAfter: string;
+  endsBefore: string;
+  hideCancelled: boolean;
+  hideFull: boolean;
+  hideLongWaitlist: boolean;
+  delivery: 'any' | 'online' | 'in-person';
+  instructor: string;
+  hideConflicts: boolean;
+}
+
+export const DEFAULT_PLANNER_FILTERS: PlannerFilters = {
+  days: [],
+  startsAfter: '',
+  endsBefore: '',
+  hideCancelled: false,
+  hideFull: false,
+  hideLongWaitlist: false,
+  delivery: 'any',
+  instructor: '',
+  hideConflicts: false,
+};
+
+export const FILTER_DAYS = ['M', 'T', 'W', 'R', 'F', 'S'];
+
+// more people than this on the waitlist and you're unlikely to get in
+export const LONG_WAITLIST = 10;
+
+export type SectionAvailability = 'cancelled' | 'full' | 'long-waitlist' | 'waitlist' | 'open';
+
+// cancelled / full / long-waitlist are shown in red on the calendar, waitlist in yellow
+export function sectionAvailability(section: Pick<Section, 'seats' | 'waitlist'>): SectionAvailability {
+  if (section.seats === 'Cancel') return 'cancelled';
+  if (section.waitlist === 'Full') return 'full';
+  if (parseInt(section.seats) <= 0 && section.waitlist && parseInt(section.waitlist) > LONG_WAITLIST) return 'long-waitlist';
+  if ((section.waitlist && parseInt(section.waitlist) <= LONG_WAITLIST) || section.seats == '0') return 'waitlist';
+  return 'open';
+}
+
+// open seats, 0 for "Cancel"
+export const seatCount = (section: Pick<Section, 'seats'>): number => parseInt(section.seats) || 0;
+
+// people on the waitlist, Infinity when it is full and null when the section has no waitlist
+export function waitlistCount(section: Pick<Section, 'waitlist'>): number | null {
+  if (section.waitlist === 'Full') return Infinity;
+  const count = parseInt(section.waitlist ?? '');
+  return isNaN(count) ? null : count;
+}
+
+// filters saved by an older version may be missing fields
+export const withDefaultFilters = (filters: Partial<PlannerFilters> | undefined): PlannerFilters =>
+  ({ ...DEFAULT_PLANNER_FILTERS, ...filters });
+
+export function countActiveFilters(filters: PlannerFilters): number {
+  return [
+    filters.days.length > 0,
+    filters.startsAfter !== '',
+    filters.endsBefore !== '',
+    filters.hideCancelled,
+    filters.hideFull,
+    filters.hideLongWaitlist,
+    filters.delivery !== 'any',
+    filters.instructor.trim() !== '',
+    filters.hideConflicts,
+  ].filter(Boolean).length;
+}
+
+const toMinutes = (time: string): number => parseInt(time.slice(0, 2)) * 60 + parseInt(time.slice(2, 4));
+
+// everything except hideConflicts, which depends on the current selection
+export function sectionMatchesFilters(section: Section, filters: PlannerFilters): boolean {
+  const meetings = section.schedule.filter(s => s.type !== 'Exam');
+
+  if (filters.days.length > 0) {
+    const meetsOnOtherDays = meetings.some(s => [...s.days].some(day => day !== '-' && !filters.days.includes(day)));
+    if (meetsOnOtherDays) return false;
+  }
+
+  const startsAfter = filters.startsAfter ? parseTime(filters.startsAfter) : null;
+  const endsBefore = filters.endsBefore ? parseTime(filters.endsBefore) : null;
+  if (startsAfter !== null || endsBefore !== null) {
+    const outsideWindow = meetings
+      .filter(s => /^\d{4}-\d{4}$/.test(s.time))
+      .some(s =>
+        (startsAfter !== null && toMinutes(s.time.slice(0, 4)) < startsAfter) ||
+        (endsBefore !== null && toMinutes(s.time.slice(5, 9)) > endsBefore)
+      );
+    if (outsideWindow) return false;
+  }
+
+  const availability = sectionAvailability(section);
+  if (filters.hideCancelled && availability === 'cancelled') return false;
+  if (filters.hideFull && availability === 'full') return false;
+  if (filters.hideLongWaitlist && availability === 'long-waitlist') return false;
+
+  if (filters.delivery !== 'any' && isOnlineSection(section) !== (filters.delivery === 'online')) return false;
+
+  const instructor = filters.instructor.trim().toLowerCase();
+  if (instructor && !meetings.some(s => s.instructor.toLowerCase().includes(instructor))) return false;
+
+  return true;
+}
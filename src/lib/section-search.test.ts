@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { buildSectionSearchIndex, parseSearchQuery, parseTime, searchSections } from './section-search';
+import { Course, CourseAttributes } from '@/types/Course';
+import { Schedule, Section } from '@/types/Section';
+
+const meeting = (days: string, time: string, instructor = 'Jane Smith', room = 'A130'): Schedule =>
+  ({ id: `${days}-${time}`, type: 'Lecture', days, time, start: null, end: null, room, instructor });
+
+const section = (subject: string, code: string, crn: number, schedule: Schedule[], seats = '10'): Section => ({
+  id: `SECT-${subject}-${code}-${crn}`, crn, RP: null, seats, waitlist: ' ', section: '001', credits: 3,
+  abbreviated_title: null, rpt_limit: null, subject, course_code: code, year: 2025, term: 30, schedule
+});
+
+const course = (subject: string, code: string, title: string, sections: Section[]): Course => ({
+  subject, course_code: code, id: `CRS-${subject}-${code}`,
+  attributes: { title } as CourseAttributes,
+  sections, transfers: [], outlines: []
+});
+
+const COURSES = [
+  course('CPSC', '1050', 'Introduction to Computer Science', [
+    section('CPSC', '1050', 30001, [meeting('M-W----', '0830-1020', 'Ali Smithers')]),
+  ]),
+  course('CPSC', '1150', 'Program Design', [
+    section('CPSC', '1150', 30002, [meeting('M-W----', '1030-1220')]),
+    section('CPSC', '1150', 30003, [meeting('-T-R---', '1430-1620')], '0'),
+  ]),
+  course('MATH', '1150', 'Foundations of Mathematics', [
+    section('MATH', '1150', 30004, [meeting('----F--', '1230-1520', 'Jane Smith', 'B019')]),
+  ]),
+  course('ENGL', '1123', 'Introduction to Academic Writing', [
+    section('ENGL', '1123', 30005, [meeting('-------', ' ', 'Kim Lee', 'WWW')], 'Cancel'),
+  ]),
+];
+
+const index = buildSectionSearchIndex(COURSES);
+const search = (query: string) => searchSections(index, query).ids.map(id => Number(id.split('-').pop()));
+
+describe('parseTime', () => {
+  it.each([
+    ['10', 600],
+    ['10:30', 630],
+    ['1030', 630],
+    ['2pm', 840],
+    ['2:30pm', 870],
+    ['12am', 0],
+    ['12pm', 720],
+  ])('reads %s', (value, minutes) => {
+    expect(parseTime(value)).toBe(minutes);
+  });
+
+  it.each(['25', '10:75', 'noon', ''])('rejects %s', (value) => {
+    expect(parseTime(value)).toBeNull();
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('splits words and filters', () => {
+    const parsed = parseSearchQuery('cpsc 1150 instructor:smith days:mw after:10:00 before:2pm open:true online:no');
+    expect(parsed.words).toEqual(['cpsc', '1150']);
+    expect(parsed.text).toEqual([{ field: 'instructor', value: 'smith' }]);
+    expect(parsed.days).toBe('MW');
+    expect(parsed.after).toBe(600);
+    expect(parsed.before).toBe(840);
+    expect(parsed.open).toBe(true);
+    expect(parsed.online).toBe(false);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it('keeps quoted values together', () => {
+    expect(parseSearchQuery('title:"program design" cpsc').text).toEqual([{ field: 'title', value: 'program design' }]);
+    // still typing the closing quote
+    expect(parseSearchQuery('instructor:"jane sm').text).toEqual([{ field: 'instructor', value: 'jane sm' }]);
+  });
+
+  it('treats a time on its own as words', () => {
+    expect(parseSearchQuery('10:30').words).toEqual(['10', '30']);
+  });
+
+  it('ignores a filter without a value', () => {
+    const parsed = parseSearchQuery('days: cpsc');
+    expect(parsed.days).toBeNull();
+    expect(parsed.words).toEqual(['cpsc']);
+  });
+
+  it('reports filters it can\'t read', () => {
+    expect(parseSearchQuery('days:MX after:later open:maybe colour:red').errors).toEqual([
+      'days: use the letters M T W R F S U (R is Thursday)',
+      'after: "later" is not a time',
+      'open: use true or false',
+      'Unknown filter "colour:"',
+    ]);
+  });
+});
+
+describe('searchSections', () => {
+  it('filters on days, times and seats', () => {
+    expect(search('days:MW')).toEqual([30001, 30002, 30005]);
+    expect(search('after:10:00')).toEqual([30002, 30003, 30004]);
+    expect(search('before:1pm')).toEqual([30001, 30002]);
+    expect(search('open:true')).toEqual([30001, 30002, 30004]);
+    expect(search('open:false')).toEqual([30003, 30005]);
+    expect(search('online:true')).toEqual([30005]);
+  });
+
+  it('doesn\'t treat a different course code as a typo', () => {
+    // 1150 is not a typo of 1050
+    expect(search('1150')).toEqual([30002, 30003, 30004]);
+  });
+
+  it('allows a typo in longer words', () => {
+    expect(search('progam')).toEqual([30002, 30003]);
+    expect(search('intorduction')).toEqual([30001, 30005]);
+  });
+
+  it('ranks exact matches above prefixes and typos', () => {
+    // "smith" exactly before "smithers"
+    expect(search('smith')).toEqual([30002, 30003, 30004, 30001]);
+    // "smithers" by prefix before "smith" with a typo
+    expect(search('smithe')).toEqual([30001, 30002, 30003, 30004]);
+    // subject and code together
+    expect(search('cpsc1150')).toEqual([30002, 30003]);
+  });
+
+  it('needs every word to match', () => {
+    expect(search('cpsc smith')).toEqual([30002, 30003, 30001]);
+    expect(search('cpsc 1150 instructor:smith days:MW after:10:00 open:true')).toEqual([30002]);
+  });
+
+  it('keeps the course list order without a query', () => {
+    expect(search('')).toEqual([30001, 30002, 30003, 30004, 30005]);
+  });
+});
@@ -0,0 +1,300 @@
+// In-browser search over the sections of a semester, used by the planner sidebar
+//
+// A query is a list of words and filters, all of which have to match:
+//   cpsc 1150 instructor:smith days:MW after:10:00 open:true
+//
+// Words are matched against the subject, course code, title, instructors, CRN and room, and results
+// are ranked by how well they match (exact > prefix > contains > typo). Filters narrow the list down:
+//   subject:  code:  title:  instructor:  room:  crn:   text fields, "quotes" for spaces
+//   days:MWF          only meets on these days (M T W R F S U)
+//   after:10:00       every meeting starts at or after this time (10, 10:30, 1030, 2pm...)
+//   before:15:00      every meeting ends at or before this time
+//   open:true         has open seats (false: full or cancelled)
+//   online:true       is an online section (false: in person)
+
+import { Course } from '@/types/Course';
+import { Section } from '@/types/Section';
+
+type TextFilter = 'subject' | 'code' | 'title' | 'instructor' | 'room' | 'crn';
+
+export interface ParsedSearchQuery {
+  words: string[];
+  text: { field: TextFilter; value: string }[];
+  days: string | null;
+  after: number | null; // minutes since midnight
+  before: number | null;
+  open: boolean | null;
+  online: boolean | null;
+  // filters that couldn't be understood, shown to the user
+  errors: string[];
+}
+
+interface IndexedSection {
+  id: string;
+  position: number;
+  subject: string;
+  code: string;
+  crn: string;
+  title: string;
+  instructors: string;
+  rooms: string;
+  // words of each field, lower case
+  titleWords: string[];
+  instructorWords: string[];
+  roomWords: string[];
+  // union of the days of all meetings that aren't exams
+  days: Set<string>;
+  earliestStart: number | null;
+  latestEnd: number | null;
+  open: boolean;
+  online: boolean;
+}
+
+export interface SectionSearchIndex {
+  sections: IndexedSection[];
+}
+
+export interface SectionSearchResult {
+  // ids of the matching sections, best match first
+  ids: string[];
+  errors: string[];
+}
+
+const TEXT_FILTERS: Record<string, TextFilter> = {
+  subject: 'subject',
+  subj: 'subject',
+  code: 'code',
+  title: 'title',
+  instructor: 'instructor',
+  prof: 'instructor',
+  room: 'room',
+  crn: 'crn',
+};
+
+const DAY_LETTERS = 'MTWRFSU';
+
+// the same check the planner uses for the online sections list and the timetable ranking
+export const isOnlineSection = (section: Section): boolean => {
+  if (section.section.endsWith('W')) return true;
+
+  const nonExamSchedules = section.schedule.filter(s => s.type !== 'Exam');
+  if (nonExamSchedules.length === 0) return false;
+
+  return nonExamSchedules.every(s => s.days === '-------');
+};
+
+const words = (text: string): string[] => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// "10", "10:30", "1030", "10am", "2:30pm" -> minutes since midnight
+export function parseTime(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?::?(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = match[2] ? parseInt(match[2]) : 0;
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+const parseBoolean = (value: string): boolean | null =>
+  ['true', 'yes', 'y', '1'].includes(value.toLowerCase()) ? true
+    : ['false', 'no', 'n', '0'].includes(value.toLowerCase()) ? false
+      : null;
+
+// splits on spaces, keeping key:"quoted values" together
+const tokenize = (query: string): string[] =>
+  query.match(/[^\s:"]+:"[^"]*"?|"[^"]*"?|\S+/g) ?? [];
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    words: [], text: [], days: null, after: null, before: null, open: null, online: null, errors: []
+  };
+
+  for (const token of tokenize(query)) {
+    const separator = token.indexOf(':');
+    const key = separator > 0 ? token.slice(0, separator).toLowerCase() : '';
+    const value = separator > 0 ? token.slice(separator + 1).replace(/"/g, '').trim() : '';
+
+    if (!key || /^\d+$/.test(key)) {
+      // plain words, and things like "10:30" that aren't a filter
+      parsed.words.push(...words(token));
+      continue;
+    }
+    if (!value) continue; // still typing
+
+    if (TEXT_FILTERS[key]) {
+      parsed.text.push({ field: TEXT_FILTERS[key], value: value.toLowerCase() });
+    } else if (key === 'days' || key === 'day') {
+      const days = value.toUpperCase();
+      if ([...days].every(d => DAY_LETTERS.includes(d))) {
+        parsed.days = days;
+      } else {
+        parsed.errors.push(`days: use the letters ${DAY_LETTERS.split('').join(' ')} (R is Thursday)`);
+      }
+    } else if (key === 'after' || key === 'before') {
+      const time = parseTime(value);
+      if (time === null) {
+        parsed.errors.push(`${key}: "${value}" is not a time`);
+      } else {
+        parsed[key] = time;
+      }
+    } else if (key === 'open' || key === 'online') {
+      const flag = parseBoolean(value);
+      if (flag === null) {
+        parsed.errors.push(`${key}: use true or false`);
+      } else {
+        parsed[key] = flag;
+      }
+    } else {
+      parsed.errors.push(`Unknown filter "${key}:"`);
+    }
+  }
+
+  return parsed;
+}
+
+const toMinutes = (time: string): number => parseInt(time.slice(0, 2)) * 60 + parseInt(time.slice(2, 4));
+
+export function buildSectionSearchIndex(courses: Course[]): SectionSearchIndex {
+  const sections: IndexedSection[] = [];
+
+  courses.forEach(course => {
+    course.sections.forEach(section => {
+      const meetings = section.schedule.filter(s => s.type !== 'Exam');
+      const times = meetings
+        .filter(s => /^\d{4}-\d{4}$/.test(s.time))
+        .map(s => [toMinutes(s.time.slice(0, 4)), toMinutes(s.time.slice(5, 9))]);
+
+      const title = section.title || course.attributes.title || section.abbreviated_title || '';
+      const instructors = [...new Set(meetings.map(s => s.instructor))].join(' ');
+      const rooms = [...new Set(meetings.map(s => s.room))].join(' ');
+
+      sections.push({
+        id: section.id,
+        position: sections.length,
+        subject: section.subject.toLowerCase(),
+        code: section.course_code.toLowerCase(),
+        crn: section.crn.toString(),
+        title: title.toLowerCase(),
+        instructors: instructors.toLowerCase(),
+        rooms: rooms.toLowerCase(),
+        titleWords: words(title),
+        instructorWords: words(instructors),
+        roomWords: words(rooms),
+        days: new Set(meetings.flatMap(s => [...s.days].filter(d => d !== '-'))),
+        earliestStart: times.length ? Math.min(...times.map(t => t[0])) : null,
+        latestEnd: times.length ? Math.max(...times.map(t => t[1])) : null,
+        open: section.seats !== 'Cancel' && Number(section.seats) > 0,
+        online: isOnlineSection(section),
+      });
+    });
+  });
+
+  return { sections };
+}
+
+// edit distance where swapping two letters counts as one typo, giving up once it is over max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      best = Math.min(best, current[j]);
+    }
+    if (best > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// how well a search word matches one word of a field, 0 = not at all
+function matchWord(word: string, candidate: string): number {
+  if (candidate === word) return 1;
+  if (candidate.startsWith(word)) return 0.75;
+  if (word.length >= 3 && candidate.includes(word)) return 0.5;
+
+  // allow a typo in longer words, but not in numbers: 1150 is not a typo of 1050
+  const allowed = /\d/.test(word) ? 0 : word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+  if (allowed > 0 && editDistance(word, candidate.slice(0, word.length + allowed), allowed) <= allowed) return 0.3;
+  return 0;
+}
+
+const bestMatch = (word: string, candidates: string[]): number =>
+  candidates.reduce((best, candidate) => Math.max(best, matchWord(word, candidate)), 0);
+
+// score of one search word against a section, 0 = no match
+function scoreWord(word: string, section: IndexedSection): number {
+  return Math.max(
+    // "cpsc1150"
+    word === section.subject + section.code ? 12 : 0,
+    bestMatch(word, [section.subject]) * 10,
+    bestMatch(word, [section.code]) * 10,
+    word.length >= 3 && section.crn.startsWith(word) ? 10 : 0,
+    bestMatch(word, section.instructorWords) * 5,
+    bestMatch(word, section.titleWords) * 4,
+    bestMatch(word, section.roomWords) * 3,
+  );
+}
+
+function matchesFilters(section: IndexedSection, query: ParsedSearchQuery): boolean {
+  for (const { field, value } of query.text) {
+    const haystack = {
+      subject: section.subject,
+      code: section.code,
+      title: section.title,
+      instructor: section.instructors,
+      room: section.rooms,
+      crn: section.crn,
+    }[field];
+    if (!haystack.includes(value)) return false;
+  }
+
+  if (query.days !== null && [...section.days].some(day => !query.days!.includes(day))) return false;
+  if (query.after !== null && (section.earliestStart === null || section.earliestStart < query.after)) return false;
+  if (query.before !== null && (section.latestEnd === null || section.latestEnd > query.before)) return false;
+  if (query.open !== null && section.open !== query.open) return false;
+  if (query.online !== null && section.online !== query.online) return false;
+  return true;
+}
+
+export function searchSections(index: SectionSearchIndex, query: string): SectionSearchResult {
+  const parsed = parseSearchQuery(query);
+
+  const scored: { section: IndexedSection; score: number }[] = [];
+  for (const section of index.sections) {
+    if (!matchesFilters(section, parsed)) continue;
+
+    let score = 0;
+    let matchesAll = true;
+    for (const word of parsed.words) {
+      const wordScore = scoreWord(word, section);
+      if (wordScore === 0) {
+        matchesAll = false;
+        break;
+      }
+      score += wordScore;
+    }
+
+    if (matchesAll) scored.push({ section, score });
+  }
+
+  // best match first, otherwise keep the order of the course list
+  scored.sort((a, b) => b.score - a.score || a.section.position - b.section.position);
+
+  return { ids: scored.map(s => s.section.id), errors: parsed.errors };
+}
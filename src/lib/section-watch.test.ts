@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CHECK_INTERVAL,
+  checkWatchedSections,
+  detectAlerts,
+  loadWatchedSections,
+  saveWatchedSections,
+  SeatSnapshot,
+  WatchedSection
+} from './section-watch';
+import { Section } from '@/types/Section';
+
+const snapshot = (seats: string, waitlist: string | null = ' ', checkedAt = 0): SeatSnapshot => ({ checkedAt, seats, waitlist });
+
+const watched = (history: SeatSnapshot[], waitlistThreshold = 10): WatchedSection => ({
+  id: 'SECT-CPSC-1150-2025-30-30001',
+  crn: 30001,
+  year: 2025,
+  term: 30,
+  name: 'CPSC 1150 001',
+  watchedAt: 0,
+  waitlistThreshold,
+  history
+});
+
+const section = (seats: string, waitlist: string | null = ' '): Section => ({
+  id: 'SECT-CPSC-1150-2025-30-30001', crn: 30001, RP: null, seats, waitlist, section: '001', credits: 3,
+  abbreviated_title: null, rpt_limit: null, subject: 'CPSC', course_code: '1150', year: 2025, term: 30, schedule: []
+});
+
+describe('detectAlerts', () => {
+  it('alerts when seats open up', () => {
+    const alerts = detectAlerts(watched([]), snapshot('0'), snapshot('3'));
+    expect(alerts.map(alert => alert.kind)).toEqual(['seats']);
+    expect(alerts[0].message).toBe('CPSC 1150 001 (CRN 30001) has 3 open seats.');
+  });
+
+  it('doesn\'t alert when there were already seats', () => {
+    expect(detectAlerts(watched([]), snapshot('2'), snapshot('5'))).toEqual([]);
+  });
+
+  it('alerts when the waitlist drops below the threshold', () => {
+    expect(detectAlerts(watched([], 10), snapshot('0', '12'), snapshot('0', '9')).map(alert => alert.kind)).toEqual(['waitlist']);
+    expect(detectAlerts(watched([], 10), snapshot('0', 'Full'), snapshot('0', '4')).map(alert => alert.kind)).toEqual(['waitlist']);
+  });
+
+  it('doesn\'t alert while the waitlist stays on one side of the threshold', () => {
+    expect(detectAlerts(watched([], 10), snapshot('0', '15'), snapshot('0', '10'))).toEqual([]);
+    expect(detectAlerts(watched([], 10), snapshot('0', '8'), snapshot('0', '5'))).toEqual([]);
+  });
+
+  it('only alerts about a cancellation', () => {
+    const alerts = detectAlerts(watched([]), snapshot('0', '12'), snapshot('Cancel', ' '));
+    expect(alerts.map(alert => alert.kind)).toEqual(['cancelled']);
+  });
+});
+
+describe('checkWatchedSections', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+    vi.stubGlobal('window', new EventTarget());
+    vi.useFakeTimers({ now: 10 * CHECK_INTERVAL });
+    return () => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    };
+  });
+
+  it('records the new seats and returns the alerts', async () => {
+    saveWatchedSections([watched([snapshot('0', '3')])]);
+    const fetchSections = vi.fn(async () => [section('2', '3')]);
+
+    const alerts = await checkWatchedSections(false, fetchSections);
+
+    expect(fetchSections).toHaveBeenCalledWith(2025, 30);
+    expect(alerts.map(alert => alert.kind)).toEqual(['seats']);
+    expect(loadWatchedSections()[0].history).toEqual([snapshot('0', '3'), snapshot('2', '3', Date.now())]);
+  });
+
+  it('doesn\'t add to the history when nothing changed', async () => {
+    saveWatchedSections([watched([snapshot('0', '3')])]);
+    expect(await checkWatchedSections(false, async () => [section('0', '3')])).toEqual([]);
+    expect(loadWatchedSections()[0].history).toHaveLength(1);
+  });
+
+  it('skips the check when another tab just checked', async () => {
+    saveWatchedSections([watched([snapshot('0', '3')])]);
+    const fetchSections = vi.fn(async () => [section('2', '3')]);
+
+    await checkWatchedSections(false, fetchSections);
+    vi.advanceTimersByTime(CHECK_INTERVAL - 1);
+    expect(await checkWatchedSections(false, fetchSections)).toEqual([]);
+    expect(fetchSections).toHaveBeenCalledTimes(1);
+
+    // a check the user asked for always runs
+    await checkWatchedSections(true, fetchSections);
+    expect(fetchSections).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the sections it couldn\'t fetch as they were', async () => {
+    saveWatchedSections([watched([snapshot('0', '3')])]);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await checkWatchedSections(false, async () => { throw new Error('offline'); })).toEqual([]);
+    expect(loadWatchedSections()[0].history).toEqual([snapshot('0', '3')]);
+  });
+});
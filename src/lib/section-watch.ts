@@ -0,0 +1,305 @@
+// Sections the user is watching for open seats, kept in localStorage
+// While any page of the site is open the watched sections are checked every few minutes
+// (components/shared/section-watcher.tsx), and a browser notification is sent when:
+// - seats open up in a full section
+// - the waitlist gets shorter than the user's threshold
+// - the section is cancelled
+//
+// Every check that changed something is kept as the section's seat history
+
+import { useEffect, useState } from 'react';
+import { apiClient } from './api-client';
+import { array, nullable, number, object, SchemaError, string } from './api-validation';
+import { LONG_WAITLIST, seatCount, waitlistCount } from './section-filters';
+import { Section } from '@/types/Section';
+
+export interface SeatSnapshot {
+  checkedAt: number;
+  seats: string;
+  waitlist: string | null;
+}
+
+export interface WatchedSection {
+  id: string;
+  crn: number;
+  year: number;
+  term: number;
+  // e.g. "CPSC 1150 001"
+  name: string;
+  watchedAt: number;
+  // notify when the waitlist gets shorter than this
+  waitlistThreshold: number;
+  // oldest first, the last one is the latest known state
+  history: SeatSnapshot[];
+}
+
+export type WatchAlertKind = 'seats' | 'waitlist' | 'cancelled';
+
+export interface WatchAlert {
+  kind: WatchAlertKind;
+  watched: WatchedSection;
+  message: string;
+}
+
+const STORAGE_KEY = 'langara-watched-sections';
+// when any tab last checked, so that several open tabs don't all check (and notify) at once
+const CHECKED_AT_KEY = 'langara-watched-sections-checked-at';
+// fired on the window when the list changes, so every watch button on the page stays in sync
+const CHANGE_EVENT = 'langara-watched-sections-changed';
+
+export const CHECK_INTERVAL = 5 * 60 * 1000;
+const MAX_HISTORY = 200;
+
+const snapshotOf = (section: Pick<Section, 'seats' | 'waitlist'>, checkedAt: number): SeatSnapshot =>
+  ({ checkedAt, seats: section.seats, waitlist: section.waitlist });
+
+export const latestSnapshot = (watched: WatchedSection): SeatSnapshot | undefined =>
+  watched.history[watched.history.length - 1];
+
+// Validation
+
+const seatSnapshotSchema = object<SeatSnapshot>({
+  checkedAt: number,
+  seats: string,
+  waitlist: nullable(string)
+});
+
+const watchedSectionSchema = object<WatchedSection>({
+  id: string,
+  crn: number,
+  year: number,
+  term: number,
+  name: string,
+  watchedAt: number,
+  waitlistThreshold: number,
+  history: array(seatSnapshotSchema)
+});
+
+// Anything that isn't a list is thrown away, and so are the sections that can't be read
+function validateWatchedSections(data: unknown): WatchedSection[] {
+  if (!Array.isArray(data)) return [];
+  return data.flatMap((item, index) => {
+    try {
+      const watched = watchedSectionSchema(item, `watched[${index}]`);
+      // the checks compare against the latest snapshot, so there has to be one
+      return watched.history.length > 0 ? [watched] : [];
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      console.error('Skipping a watched section that can\'t be read:', error.message);
+      return [];
+    }
+  });
+}
+
+// Storage
+
+export function loadWatchedSections(): WatchedSection[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    return validateWatchedSections(JSON.parse(saved));
+  } catch (error) {
+    console.error('Failed to load watched sections from localStorage:', error);
+    return [];
+  }
+}
+
+export function saveWatchedSections(sections: WatchedSection[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sections));
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  } catch (error) {
+    console.error('Failed to save watched sections to localStorage:', error);
+  }
+}
+
+export function watchSection(section: Section): void {
+  const watched = loadWatchedSections();
+  if (watched.some(w => w.id === section.id)) return;
+
+  saveWatchedSections([...watched, {
+    id: section.id,
+    crn: section.crn,
+    year: section.year,
+    term: section.term,
+    name: `${section.subject} ${section.course_code} ${section.section}`,
+    watchedAt: Date.now(),
+    waitlistThreshold: LONG_WAITLIST,
+    history: [snapshotOf(section, Date.now())]
+  }]);
+}
+
+export function unwatchSection(id: string): void {
+  saveWatchedSections(loadWatchedSections().filter(w => w.id !== id));
+}
+
+export function setWaitlistThreshold(id: string, waitlistThreshold: number): void {
+  saveWatchedSections(loadWatchedSections().map(w => w.id === id ? { ...w, waitlistThreshold } : w));
+}
+
+export function useWatchedSections(): WatchedSection[] {
+  const [watched, setWatched] = useState<WatchedSection[]>([]);
+
+  useEffect(() => {
+    const reload = () => setWatched(loadWatchedSections());
+    reload();
+
+    // changes from this tab and from other tabs
+    window.addEventListener(CHANGE_EVENT, reload);
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) reload();
+    };
+    window.addEventListener('storage', onStorage);
+
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, reload);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  return watched;
+}
+
+// Checking
+
+// when the watched sections were last checked by any tab, null if never
+export function loadLastChecked(): number | null {
+  try {
+    return Number(localStorage.getItem(CHECKED_AT_KEY)) || null;
+  } catch {
+    return null;
+  }
+}
+
+// What changed between two snapshots that the user would want to hear about
+export function detectAlerts(watched: WatchedSection, previous: SeatSnapshot, current: SeatSnapshot): WatchAlert[] {
+  const alerts: WatchAlert[] = [];
+
+  if (previous.seats !== 'Cancel' && current.seats === 'Cancel') {
+    alerts.push({ kind: 'cancelled', watched, message: `${watched.name} (CRN ${watched.crn}) was cancelled.` });
+    return alerts;
+  }
+
+  if (seatCount(previous) <= 0 && seatCount(current) > 0) {
+    alerts.push({
+      kind: 'seats',
+      watched,
+      message: `${watched.name} (CRN ${watched.crn}) has ${seatCount(current)} open seat${seatCount(current) !== 1 ? 's' : ''}.`
+    });
+  }
+
+  const before = waitlistCount(previous);
+  const after = waitlistCount(current);
+  if (before !== null && after !== null && before >= watched.waitlistThreshold && after < watched.waitlistThreshold) {
+    alerts.push({
+      kind: 'waitlist',
+      watched,
+      message: `The waitlist for ${watched.name} (CRN ${watched.crn}) is down to ${after}.`
+    });
+  }
+
+  return alerts;
+}
+
+const semesterSections = async (year: number, term: number): Promise<Section[]> =>
+  (await apiClient.getSemesterSections(year, term)).sections;
+
+// Fetches the latest seats of every watched section, records what changed and returns the alerts
+// Does nothing if another tab checked less than CHECK_INTERVAL ago, unless force is set
+export async function checkWatchedSections(
+  force = false,
+  fetchSections: (year: number, term: number) => Promise<Section[]> = semesterSections
+): Promise<WatchAlert[]> {
+  const watched = loadWatchedSections();
+  if (watched.length === 0) return [];
+
+  const checkedAt = Date.now();
+  try {
+    const lastChecked = Number(localStorage.getItem(CHECKED_AT_KEY));
+    if (!force && checkedAt - lastChecked < CHECK_INTERVAL) return [];
+    localStorage.setItem(CHECKED_AT_KEY, String(checkedAt));
+  } catch (error) {
+    console.error('Failed to read the last seat check from localStorage:', error);
+  }
+
+  // section id -> latest data
+  const latest = new Map<string, Section>();
+  const semesters = [...new Set(watched.map(w => `${w.year}-${w.term}`))];
+  await Promise.all(semesters.map(async semester => {
+    const [year, term] = semester.split('-').map(Number);
+    try {
+      (await fetchSections(year, term)).forEach(section => latest.set(section.id, section));
+    } catch (error) {
+      console.error(`Failed to check watched sections for ${semester}:`, error);
+    }
+  }));
+
+  const alerts: WatchAlert[] = [];
+  // load again, the list may have changed while we were fetching
+  const updated = loadWatchedSections().map(w => {
+    const section = latest.get(w.id);
+    const previous = latestSnapshot(w);
+    if (!section) return w;
+
+    const current = snapshotOf(section, checkedAt);
+    if (previous && previous.seats === current.seats && previous.waitlist === current.waitlist) return w;
+
+    if (previous) alerts.push(...detectAlerts(w, previous, current));
+    return { ...w, history: [...w.history, current].slice(-MAX_HISTORY) };
+  });
+
+  saveWatchedSections(updated);
+  return alerts;
+}
+
+// Notifications
+
+export const notificationsSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+// Asks for permission if the user hasn't decided yet, returns whether notifications can be sent
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'default') {
+    try {
+      await Notification.requestPermission();
+    } catch (error) {
+      console.error('Failed to request notification permission:', error);
+    }
+  }
+  return Notification.permission === 'granted';
+}
+
+// Mobile browsers (e.g. Chrome on Android) only allow notifications through the service worker, `new Notification`
+// throws there. The worker is registered by the planner, pages opened before visiting it fall back to `new Notification`
+export async function sendWatchNotification(alert: WatchAlert): Promise<void> {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const titles: Record<WatchAlertKind, string> = {
+    seats: 'Seats open',
+    waitlist: 'Waitlist is shorter',
+    cancelled: 'Section cancelled'
+  };
+  const title = titles[alert.kind];
+  const options: NotificationOptions = {
+    body: alert.message,
+    // one notification per section, a newer one replaces the old one
+    tag: `watch-${alert.watched.id}`
+  };
+
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      // clicks are handled by public/sw.js
+      await registration.showNotification(title, options);
+      return;
+    }
+
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    console.error('Failed to show a watch notification:', error);
+  }
+}
@@ -0,0 +1,206 @@
+// First / last day of classes for each semester, and the days in between that have no classes
+// The dates come from the semester index of the api, the holidays are worked out from the BC statutory holiday rules
+//
+// All dates are 'YYYY-MM-DD' strings, so that we never have to think about timezones
+
+import { apiClient } from './api-client';
+import { Semester } from '@/types/Course';
+
+export interface SemesterExclusion {
+  date: string;
+  name: string;
+}
+
+export interface SemesterCalendar {
+  year: number;
+  term: number;
+  firstDay: string;
+  lastDay: string;
+  // holidays and reading break days between the first and last day
+  exclusions: SemesterExclusion[];
+  // true if the api didn't have dates for this semester and we had to guess
+  estimated: boolean;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const toDateString = (date: Date) => `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+const utcDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+}
+
+// 0 = Sunday, same as Date.getDay()
+export const dayOfWeek = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// the nth (1-based) weekday of a month, e.g. the 3rd Monday of February
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const date = utcDate(year, month, 1);
+  date.setUTCDate(1 + ((weekday - date.getUTCDay() + 7) % 7) + (n - 1) * 7);
+  return date;
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month, day);
+}
+
+// BC statutory holidays, plus Easter Monday which the college also closes for
+export function getHolidays(year: number): SemesterExclusion[] {
+  const easter = easterSunday(year);
+  const goodFriday = new Date(easter);
+  goodFriday.setUTCDate(easter.getUTCDate() - 2);
+  const easterMonday = new Date(easter);
+  easterMonday.setUTCDate(easter.getUTCDate() + 1);
+
+  // Victoria Day is the last Monday before May 25
+  const victoriaDay = utcDate(year, 5, 24);
+  victoriaDay.setUTCDate(24 - ((victoriaDay.getUTCDay() + 6) % 7));
+
+  return [
+    { date: utcDate(year, 1, 1), name: "New Year's Day" },
+    { date: nthWeekday(year, 2, 1, 3), name: 'Family Day' },
+    { date: goodFriday, name: 'Good Friday' },
+    { date: easterMonday, name: 'Easter Monday' },
+    { date: victoriaDay, name: 'Victoria Day' },
+    { date: utcDate(year, 7, 1), name: 'Canada Day' },
+    { date: nthWeekday(year, 8, 1, 1), name: 'BC Day' },
+    { date: nthWeekday(year, 9, 1, 1), name: 'Labour Day' },
+    { date: utcDate(year, 9, 30), name: 'National Day for Truth and Reconciliation' },
+    { date: nthWeekday(year, 10, 1, 2), name: 'Thanksgiving' },
+    { date: utcDate(year, 11, 11), name: 'Remembrance Day' },
+    { date: utcDate(year, 12, 25), name: 'Christmas Day' },
+    { date: utcDate(year, 12, 26), name: 'Boxing Day' },
+  ].map(({ date, name }) => ({ date: toDateString(date), name }));
+}
+
+// The spring reading break is the week of Family Day
+function getReadingBreak(year: number, term: number): SemesterExclusion[] {
+  if (term !== 10) return [];
+
+  const familyDay = toDateString(nthWeekday(year, 2, 1, 3));
+  return [1, 2, 3, 4].map(offset => ({ date: addDays(familyDay, offset), name: 'Reading Break' }));
+}
+
+function buildCalendar(year: number, term: number, firstDay: string, lastDay: string, estimated: boolean): SemesterCalendar {
+  const exclusions = [...getHolidays(year), ...getReadingBreak(year, term)]
+    .filter(exclusion => exclusion.date >= firstDay && exclusion.date <= lastDay)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { year, term, firstDay, lastDay, exclusions, estimated };
+}
+
+export const termToSeason = (term: number): string => {
+  switch (term) {
+    case 10: return "Spring";
+    case 20: return "Summer";
+    case 30: return "Fall";
+    default: return "Unknown";
+  }
+};
+
+// Rough dates for when the api hasn't loaded yet or doesn't know the semester
+// Never throws: a semester that doesn't exist (e.g. from a broken link) gets the whole year instead
+export function estimateSemesterCalendar(year: number, term: number): SemesterCalendar {
+  if (!Number.isInteger(year) || year < 1000 || year > 9999) {
+    console.error(`Invalid year ${year}, using this year instead`);
+    year = new Date().getFullYear();
+  }
+
+  switch (term) {
+    case 10:
+      return buildCalendar(year, term, `${year}-01-08`, `${year}-04-04`, true);
+    case 20:
+      return buildCalendar(year, term, `${year}-05-05`, `${year}-08-01`, true);
+    case 30:
+      return buildCalendar(year, term, `${year}-09-02`, `${year}-12-01`, true);
+    default:
+      console.error(`Invalid term ${term}, using the whole year instead`);
+      return buildCalendar(year, term, `${year}-01-01`, `${year}-12-31`, true);
+  }
+}
+
+// the api returns either a date or a full timestamp
+const toDateOnly = (value: string | null | undefined): string | null => value ? value.slice(0, 10) : null;
+
+let semesterIndex: Promise<Semester[]> | null = null;
+const calendarCache = new Map<string, Promise<SemesterCalendar>>();
+
+async function loadSemesterIndex(): Promise<Semester[]> {
+  const [semesters, latest] = await Promise.all([
+    apiClient.getSemesters(),
+    apiClient.getLatestSemester()
+  ]);
+
+  // the latest semester endpoint sometimes has dates that the index doesn't have yet
+  return semesters.semesters.map(semester =>
+    semester.year === latest.year && semester.term === latest.term && !semester.courses_first_day
+      ? { ...semester, ...latest }
+      : semester
+  );
+}
+
+export function getSemesterCalendar(year: number, term: number): Promise<SemesterCalendar> {
+  const key = `${year}-${term}`;
+  const cached = calendarCache.get(key);
+  if (cached) return cached;
+
+  const calendar = (async () => {
+    try {
+      if (!semesterIndex) semesterIndex = loadSemesterIndex();
+      const semester = (await semesterIndex).find(s => s.year === year && s.term === term);
+
+      const firstDay = toDateOnly(semester?.courses_first_day);
+      const lastDay = toDateOnly(semester?.courses_last_day);
+      if (firstDay && lastDay) {
+        return buildCalendar(year, term, firstDay, lastDay, false);
+      }
+    } catch (error) {
+      console.error('Failed to load semester dates:', error);
+      // try again next time
+      semesterIndex = null;
+      calendarCache.delete(key);
+    }
+    return estimateSemesterCalendar(year, term);
+  })();
+
+  calendarCache.set(key, calendar);
+  return calendar;
+}
+
+// FullCalendar can't skip single days of a recurring event, so the recurrence is split into
+// ranges around the excluded days. endRecur is exclusive, so the last range ends the day after lastDay
+export function recurrenceRanges(
+  firstDay: string,
+  lastDay: string,
+  exclusions: SemesterExclusion[]
+): { startRecur: string; endRecur: string }[] {
+  const ranges: { startRecur: string; endRecur: string }[] = [];
+  let start = firstDay;
+
+  exclusions
+    .filter(exclusion => exclusion.date >= firstDay && exclusion.date <= lastDay)
+    .forEach(exclusion => {
+      if (exclusion.date > start) ranges.push({ startRecur: start, endRecur: exclusion.date });
+      start = addDays(exclusion.date, 1);
+    });
+
+  if (start <= lastDay) ranges.push({ startRecur: start, endRecur: addDays(lastDay, 1) });
+  return ranges;
+}
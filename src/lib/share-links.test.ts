@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { decodeShareLink, encodeShareLink, ShareLinkError } from './share-links';
+
+const params = (link: string) => new URLSearchParams(link.slice(link.indexOf('?') + 1));
+const payload = (data: unknown) => btoa(JSON.stringify(data)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('decodeShareLink', () => {
+  it('reads back an encoded link', () => {
+    const schedules = [{ name: 'Fall', year: 2025, term: 30, crns: ['30001', '30002'], notes: 'Mornings' }];
+    expect(decodeShareLink(params(encodeShareLink(schedules)))).toEqual(schedules);
+  });
+
+  it('reads the old links', () => {
+    expect(decodeShareLink(new URLSearchParams('y=2025&t=30&crns=30001,30002'))).toEqual([
+      { name: 'Shared Schedule', year: 2025, term: 30, crns: ['30001', '30002'] }
+    ]);
+  });
+
+  it('returns null without a shared schedule', () => {
+    expect(decodeShareLink(new URLSearchParams('y=2025'))).toBeNull();
+  });
+
+  it.each([
+    ['a version below 1', `s=0.${payload([['Fall', 2025, 30, 'n5t']])}`],
+    ['a version that is not a whole number', `s=1.5.${payload([['Fall', 2025, 30, 'n5t']])}`],
+    ['an unknown term', `s=1.${payload([['Fall', 2025, 40, 'n5t']])}`],
+    ['a fractional year', `s=1.${payload([['Fall', 2025.5, 30, 'n5t']])}`],
+    ['a crn that is not base 36', `s=1.${payload([['Fall', 2025, 30, 'n5t.!']])}`],
+    ['a crn with a damaged end', `s=1.${payload([['Fall', 2025, 30, 'n5t-']])}`],
+    ['a crn out of range', `s=1.${payload([['Fall', 2025, 30, 'zzzz']])}`],
+    ['an old link with an unknown term', 'y=2025&t=40&crns=30001'],
+    ['an old link with a bad year', 'y=20x5&t=30&crns=30001'],
+    ['an old link with a bad crn', 'y=2025&t=30&crns=30001,abc'],
+    ['an old link with a crn out of range', 'y=2025&t=30&crns=30001,12'],
+  ])('rejects %s', (_, query) => {
+    expect(() => decodeShareLink(new URLSearchParams(query))).toThrow(ShareLinkError);
+  });
+});
@@ -0,0 +1,125 @@
+// Share links for planner schedules
+//
+//   /planner?s=1.<payload>
+//
+// The payload is base64url JSON of [[name, year, term, crns, notes?], ...] with the crns in base 36 joined by dots,
+// which keeps a link with a few schedules short enough to paste in a chat. The number before the dot is the
+// format version, so the format can change without breaking links that are already out there
+//
+// The old /planner?y=2025&t=30&crns=30001,30002 links are still understood
+
+import { SavedSchedule } from '@/types/Planner2';
+import { sameCrns } from './schedule-storage';
+
+export const SHARE_LINK_VERSION = 1;
+
+export interface SharedSchedule {
+  name: string;
+  year: number;
+  term: number;
+  crns: string[];
+  notes?: string;
+}
+
+// the link is there but can't be read
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+type EncodedSchedule = [string, number, number, string, string?];
+
+const TERMS = [10, 20, 30];
+
+const isSemester = (year: number, term: number): boolean => Number.isInteger(year) && TERMS.includes(term);
+
+// CRNs are five digits
+const isCrn = (crn: number): boolean => Number.isInteger(crn) && crn >= 10000 && crn <= 99999;
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+export function encodeShareLink(schedules: SharedSchedule[]): string {
+  const encoded: EncodedSchedule[] = schedules.map(schedule => {
+    const crns = schedule.crns.map(crn => Number(crn).toString(36)).join('.');
+    return schedule.notes?.trim()
+      ? [schedule.name, schedule.year, schedule.term, crns, schedule.notes.trim()]
+      : [schedule.name, schedule.year, schedule.term, crns];
+  });
+  return `/planner?s=${SHARE_LINK_VERSION}.${toBase64Url(JSON.stringify(encoded))}`;
+}
+
+function decodeVersion1(payload: string): SharedSchedule[] {
+  const data: unknown = JSON.parse(fromBase64Url(payload));
+  if (!Array.isArray(data)) throw new Error('not a list');
+
+  return data.map((entry: unknown) => {
+    if (!Array.isArray(entry)) throw new Error('not a schedule');
+    const [name, year, term, crns, notes] = entry;
+    if (typeof name !== 'string' || typeof year !== 'number' || typeof term !== 'number' || typeof crns !== 'string') {
+      throw new Error('bad schedule');
+    }
+    if (!isSemester(year, term)) throw new Error(`bad semester ${year} ${term}`);
+
+    const tokens = crns.split('.').filter(Boolean);
+    // parseInt would read the start of a damaged token like "abc-"
+    if (!tokens.every(token => /^[0-9a-z]+$/.test(token))) throw new Error(`bad crns ${crns}`);
+    const decoded = tokens.map(token => parseInt(token, 36));
+    if (!decoded.every(isCrn)) throw new Error(`bad crns ${crns}`);
+    return {
+      name,
+      year,
+      term,
+      crns: decoded.map(String),
+      ...(typeof notes === 'string' && notes ? { notes } : {})
+    };
+  });
+}
+
+// Returns null when there is no shared schedule in the url
+export function decodeShareLink(params: URLSearchParams): SharedSchedule[] | null {
+  const shared = params.get('s');
+  if (shared) {
+    const separator = shared.indexOf('.');
+    const version = Number(shared.slice(0, separator));
+    if (separator === -1 || !Number.isInteger(version) || version < 1) {
+      throw new ShareLinkError('This share link is incomplete.');
+    }
+    if (version > SHARE_LINK_VERSION) {
+      throw new ShareLinkError('This link was made by a newer version of the planner, reload the page and try again.');
+    }
+
+    try {
+      return decodeVersion1(shared.slice(separator + 1));
+    } catch {
+      throw new ShareLinkError('This share link is damaged, it may have been cut off when it was copied.');
+    }
+  }
+
+  // the original ?y=&t=&crns= format, which had no name
+  const year = params.get('y');
+  const term = params.get('t');
+  const crns = params.get('crns');
+  if (year && term && crns) {
+    const list = crns.split(',').filter(Boolean);
+    if (!/^\d+$/.test(year) || !isSemester(Number(year), Number(term)) || !list.every(crn => /^\d+$/.test(crn) && isCrn(Number(crn)))) {
+      throw new ShareLinkError('This share link is damaged, it may have been cut off when it was copied.');
+    }
+    return [{ name: 'Shared Schedule', year: Number(year), term: Number(term), crns: list }];
+  }
+
+  return null;
+}
+
+// A saved schedule with the same semester and sections, i.e. the link has been opened before
+export const findSavedCopy = (shared: SharedSchedule, schedules: SavedSchedule[]): SavedSchedule | undefined =>
+  schedules.find(s => s.year === shared.year && s.term === shared.term && sameCrns(s.crns, shared.crns));
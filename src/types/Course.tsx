@@ -2,36 +2,36 @@
 import { Section } from "./Section";
 
 export interface CourseAttributes {
-    credits: number;
-    title: string;
-    desc_replacement_course: string;
-    description: string;
-    desc_duplicate_credit: string;
-    desc_registration_restriction: string;
-    desc_prerequisite: string;
-    hours_lecture: number;
-    hours_seminar: number;
-    hours_lab: number;
-    offered_online: boolean;
-    preparatory_course: boolean;
-    RP: string;
-    abbreviated_title: string;
-    add_fees: number;
-    rpt_limit: number;
-    attr_ar: boolean;
-    attr_sc: boolean;
-    attr_hum: boolean;
-    attr_lsc: boolean;
-    attr_sci: boolean;
-    attr_soc: boolean;
-    attr_ut: boolean;
-    first_offered_year: number;
-    first_offered_term: number;
-    last_offered_year: number;
-    last_offered_term: number;
-    active: boolean;
-    discontinued: boolean;
-    transfer_destinations: string;
+    credits: number | null;
+    title: string | null;
+    desc_replacement_course: string | null;
+    description: string | null;
+    desc_duplicate_credit: string | null;
+    desc_registration_restriction: string | null;
+    desc_prerequisite: string | null;
+    hours_lecture: number | null;
+    hours_seminar: number | null;
+    hours_lab: number | null;
+    offered_online: boolean | null;
+    preparatory_course: boolean | null;
+    RP: string | null;
+    abbreviated_title: string | null;
+    add_fees: number | null;
+    rpt_limit: number | null;
+    attr_ar: boolean | null;
+    attr_sc: boolean | null;
+    attr_hum: boolean | null;
+    attr_lsc: boolean | null;
+    attr_sci: boolean | null;
+    attr_soc: boolean | null;
+    attr_ut: boolean | null;
+    first_offered_year: number | null;
+    first_offered_term: number | null;
+    last_offered_year: number | null;
+    last_offered_term: number | null;
+    active: boolean | null;
+    discontinued: boolean | null;
+    transfer_destinations: string | null;
     on_langara_website: boolean;
   }
   
@@ -43,9 +43,9 @@ export interface CourseAttributes {
     destination: string;
     destination_name: string;
     credit: string;
-    condition: string;
+    condition: string | null;
     effective_start: string;
-    effective_end: string;
+    effective_end: string | null;
     subject: string;
     course_code: string;
   }
@@ -72,46 +72,56 @@ export interface CourseAttributes {
     ui_hidden: boolean;
   }
 
-  export interface LatestSemesterResponse {
-    courses_first_day: string;
-    courses_last_day: string;
+  export interface Semester {
+    courses_first_day: string | null;
+    courses_last_day: string | null;
     id: string;
     term: number;
     year: number;
   }
 
+  export type LatestSemesterResponse = Semester;
+
+  export interface SemestersResponse {
+    semesters: Semester[];
+  }
+
+  export interface TransfersResponse {
+    transfers: Transfer[];
+  }
+
   
 export interface CourseMax {
-  credits: number;
-  title: string;
-  desc_replacement_course: string;
-  description: string;
-  desc_duplicate_credit: string;
-  desc_registration_restriction: string;
-  desc_prerequisite: string;
-  hours_lecture: number;
-  hours_seminar: number;
-  hours_lab: number;
-  offered_online: boolean;
-  preparatory_course: boolean;
-  RP: string;
-  abbreviated_title: string;
-  add_fees: number;
-  rpt_limit: number;
-  attr_ar: boolean;
-  attr_sc: boolean;
-  attr_hum: boolean;
-  attr_lsc: boolean;
-  attr_sci: boolean;
-  attr_soc: boolean;
-  attr_ut: boolean;
-  first_offered_year: number;
-  first_offered_term: number;
-  last_offered_year: number;
-  last_offered_term: number;
+  credits: number | null;
+  title: string | null;
+  desc_replacement_course: string | null;
+  description: string | null;
+  desc_duplicate_credit: string | null;
+  desc_registration_restriction: string | null;
+  desc_prerequisite: string | null;
+  hours_lecture: number | null;
+  hours_seminar: number | null;
+  hours_lab: number | null;
+  offered_online: boolean | null;
+  preparatory_course: boolean | null;
+  RP: string | null;
+  abbreviated_title: string | null;
+  add_fees: number | null;
+  rpt_limit: number | null;
+  attr_ar: boolean | null;
+  attr_sc: boolean | null;
+  attr_hum: boolean | null;
+  attr_lsc: boolean | null;
+  attr_sci: boolean | null;
+  attr_soc: boolean | null;
+  attr_ut: boolean | null;
+  first_offered_year: number | null;
+  first_offered_term: number | null;
+  last_offered_year: number | null;
+  last_offered_term: number | null;
   on_langara_website: boolean;
-  discontinued: boolean;
-  transfer_destinations: string;
+  discontinued: boolean | null;
+  transfer_destinations: string | null;
   id: string;
   subject: string;
   course_code: string;
@@ -133,6 +143,19 @@ export interface CourseBrowserProps {
   initialCourses: CourseMax[];
   validCourses: string[];
 }
+export interface CourseIndex {
+  subject: string;
+  course_code: string;
+  title: string;
+  on_langara_website: boolean;
+}
+
+export interface v1IndexCoursesResponse {
+  subject_count: number;
+  course_count: number;
+  courses: CourseIndex[];
+}
+
 export interface v1IndexTransfersResponse {
   transfers: {
     code: string;
@@ -1,33 +1,9 @@
 // Types specific to the planner functionality
+// Sections and courses use the same types as the rest of the app (types/Section.tsx, types/Course.tsx)
 
-export interface Schedule {
-  id: string;
-  days: string;
-  time: string;
-  start?: string;
-  end?: string;
-  type: string;
-  room: string;
-  instructor: string;
-}
-
-export interface Section {
-  id: string;
-  subject: string;
-  course_code: string;
-  section: string;
-  title: string;
-  abbreviated_title?: string;
-  crn: number;
-  seats: string;
-  waitlist?: string;
-  schedule: Schedule[];
-  // UI state properties
-  rendered?: boolean;
-  selected?: boolean;
-  ghost?: boolean;
-  weekends?: boolean;
-}
+import { Course } from './Course';
+import { PlannerFilters } from '@/lib/section-filters';
+import { SectionSnapshot } from '@/lib/schedule-changes';
 
 export interface SavedSchedule {
   id: string;
@@ -36,54 +12,12 @@ export interface SavedSchedule {
   term: number;
   crns: string[];
   createdAt: number;
+  // filters of the section list, missing for schedules saved before filters existed
+  filters?: PlannerFilters;
+  // free text that travels with share links
+  notes?: string;
+  // what each section looked like when it was added (or last checked), by crn, see lib/schedule-changes.ts
+  snapshots?: Record<string, SectionSnapshot>;
 }
 
-export interface PlannerCourse {
-  subject: string;
-  course_code: string;
-  sections: Section[];
-  attributes?: {
-    title?: string;
-    credits?: number;
-    description?: string;
-    abbreviated_title?: string;
-  };
-}
-
-export interface Semester {
-  id: string;
-  year: number;
-  term: number;
-}
-
-export interface PlannerApiResponse {
-  courses: PlannerCourse[];
-}
-
-export interface SemestersResponse {
-  semesters: Semester[];
-}
-
-export interface LatestSemesterResponse {
-  year: number;
-  term: number;
-}
-
-export interface SectionsSearchResponse {
-  sections: string[];
-}
-
-export interface CoursesApiResponse {
-  courses: Array<{
-    subject: string;
-    course_code: string;
-    [key: string]: unknown;
-    attributes?: {
-      title: string;
-    }
-  }>;
-}
-
-export interface SectionsApiResponse {
-  sections: Section[];
-}
+export type PlannerCourse = Course;
@@ -1,40 +1,59 @@
 // src/types/Section.ts
+// The one Section type for the whole app, validated by the schemas in lib/api-client.ts
 
 export interface Schedule {
+    id: string;
     type: string;
-    days: string;
-    time: string;
-    start: null;
-    end: null;
+    days: string; // e.g. "M-W----"
+    time: string; // e.g. "1030-1220"
+    // only set when the meeting doesn't run for the whole semester
+    start: string | null;
+    end: string | null;
     room: string;
     instructor: string;
-    id: string;
 }
 
 export interface Section {
-    RP: string;
-    abbreviated_title: string;
-    course_code: string;
-    credits: number;
-    crn: number;
     id: string;
-    rpt_limit: number;
-    schedule: Schedule[]; // Adjust type if you have a specific structure for schedule
-    seats: string;
-    waitlist: string;
+    crn: number;
+    RP: string | null;
+    seats: string; // a number, or "Cancel"
+    waitlist: string | null; // a number, "Full", or " "
     section: string;
+    credits: number | null;
+    title?: string | null;
+    abbreviated_title: string | null;
+    add_fees?: number | null;
+    rpt_limit: number | null;
+    notes?: string | null;
     subject: string;
-    term: number;
+    course_code: string;
     year: number;
-    course_id: string;
-  }
+    term: number;
+    course_id?: string;
+    schedule: Schedule[];
+}
 
 export interface SectionInternal extends Section {
     hidden: boolean;
     pinned: boolean;
     hidden_by_pin: boolean;
 }
-  
-  export interface SectionsResponse {
+
+export interface SectionsResponse {
+    sections: Section[];
+}
+
+// v1/search/sections, only returns the ids of the matching sections
+export interface SectionsSearchResponse {
+    sections: string[];
+}
+
+// v2/search/sections
+export interface SectionsPageResponse {
+    page: number;
+    sections_per_page: number;
+    total_sections: number;
+    total_pages: number;
     sections: Section[];
-  }
\ No newline at end of file
+}
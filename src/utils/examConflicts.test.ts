@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { findExamClashes, findExamHardships, getAllExams } from './examConflicts';
+import { Section } from '../types/Section';
+
+// a section with one final exam, time like "0900-1200" or " " when it isn't posted yet
+const section = (crn: number, exams: [date: string, time: string][]): Section => ({
+  id: `SECT-${crn}`, crn, RP: null, seats: '10', waitlist: ' ', section: '001', credits: 3, abbreviated_title: null,
+  rpt_limit: null, subject: 'CPSC', course_code: String(crn), year: 2025, term: 30,
+  schedule: [
+    { id: `${crn}-lecture`, type: 'Lecture', days: 'M-W----', time: '1030-1220', start: null, end: null, room: 'A130', instructor: 'Jane Smith' },
+    ...exams.map(([date, time], index) =>
+      ({ id: `${crn}-exam-${index}`, type: 'Exam', days: '-------', time, start: date, end: date, room: 'A130', instructor: 'Jane Smith' })
+    ),
+  ],
+});
+
+const crns = (exams: { section: Section }[]) => exams.map(exam => exam.section.crn);
+
+describe('findExamClashes', () => {
+  it('finds overlapping exams on the same day', () => {
+    const clashes = findExamClashes([
+      section(1, [['2025-12-08', '0900-1200']]),
+      section(2, [['2025-12-08', '1100-1400']]),
+    ]);
+    expect(clashes.map(clash => [clash.first.section.crn, clash.second.section.crn])).toEqual([[1, 2]]);
+  });
+
+  it('doesn\'t count back to back exams or the same time on another day', () => {
+    expect(findExamClashes([
+      section(1, [['2025-12-08', '0900-1200']]),
+      section(2, [['2025-12-08', '1200-1500']]),
+      section(3, [['2025-12-09', '0900-1200']]),
+    ])).toEqual([]);
+  });
+
+  it('doesn\'t compare the exams of one section with each other', () => {
+    expect(findExamClashes([section(1, [['2025-12-08', '0900-1200'], ['2025-12-08', '1000-1100']])])).toEqual([]);
+  });
+
+  it('ignores exams without a posted time', () => {
+    expect(findExamClashes([
+      section(1, [['2025-12-08', ' ']]),
+      section(2, [['2025-12-08', '0900-1200']]),
+    ])).toEqual([]);
+  });
+});
+
+describe('findExamHardships', () => {
+  it('finds three exams within 24 hours', () => {
+    const hardships = findExamHardships([
+      section(1, [['2025-12-08', '0900-1200']]),
+      section(2, [['2025-12-08', '1400-1700']]),
+      section(3, [['2025-12-09', '0859-1159']]),
+    ]);
+    expect(hardships.map(crns)).toEqual([[1, 2, 3]]);
+  });
+
+  it('doesn\'t count an exam that starts exactly 24 hours after the first', () => {
+    expect(findExamHardships([
+      section(1, [['2025-12-08', '0900-1200']]),
+      section(2, [['2025-12-08', '1400-1700']]),
+      section(3, [['2025-12-09', '0900-1200']]),
+    ])).toEqual([]);
+  });
+
+  it('reports four exams within 24 hours once', () => {
+    const hardships = findExamHardships([
+      section(1, [['2025-12-08', '0900-1100']]),
+      section(2, [['2025-12-08', '1200-1400']]),
+      section(3, [['2025-12-08', '1500-1700']]),
+      section(4, [['2025-12-08', '1800-2000']]),
+    ]);
+    expect(hardships.map(crns)).toEqual([[1, 2, 3, 4]]);
+  });
+
+  it('reports a later window that adds a new exam', () => {
+    const hardships = findExamHardships([
+      section(1, [['2025-12-08', '0900-1100']]),
+      section(2, [['2025-12-08', '1500-1700']]),
+      section(3, [['2025-12-08', '1900-2100']]),
+      section(4, [['2025-12-09', '1300-1500']]),
+    ]);
+    expect(hardships.map(crns)).toEqual([[1, 2, 3], [2, 3, 4]]);
+  });
+
+  it('ignores exams without a posted time', () => {
+    expect(findExamHardships([
+      section(1, [['2025-12-08', '0900-1200']]),
+      section(2, [['2025-12-08', ' ']]),
+      section(3, [['2025-12-08', '1400-1700']]),
+    ])).toEqual([]);
+  });
+});
+
+describe('getAllExams', () => {
+  it('lists exams without a time first on their day', () => {
+    const exams = getAllExams([
+      section(1, [['2025-12-09', '0900-1200']]),
+      section(2, [['2025-12-08', '1400-1700']]),
+      section(3, [['2025-12-08', ' ']]),
+    ]);
+    expect(crns(exams)).toEqual([3, 2, 1]);
+    expect(exams[0].start).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+// Final exams of a set of sections, and the problems Langara's exam policy cares about:
+// - a clash: two exams at the same time
+// - a hardship: three or more exams within 24 hours (the student can ask for one to be moved)
+//
+// Exams come from the schedule entries with type "Exam", which have a date in start and usually a time
+// Exams without a time yet can't clash or cause a hardship as far as we know, but are still listed
+
+import { Section } from '../types/Section';
+
+export interface Exam {
+  section: Section;
+  date: string; // YYYY-MM-DD
+  start: number | null; // minutes from midnight, null if the time isn't posted yet
+  end: number | null;
+  room: string;
+}
+
+export interface ExamClash {
+  first: Exam;
+  second: Exam;
+}
+
+// three or more exams within 24 hours, in order
+export type ExamHardship = Exam[];
+
+const DAY = 24 * 60;
+
+const toMinutes = (time: string): number => parseInt(time.slice(0, 2)) * 60 + parseInt(time.slice(2, 4));
+
+export function getExams(section: Section): Exam[] {
+  return section.schedule
+    .filter(schedule => schedule.type === 'Exam' && schedule.start)
+    .map(schedule => {
+      const hasTime = /^\d{4}-\d{4}$/.test(schedule.time);
+      return {
+        section,
+        date: schedule.start!.slice(0, 10),
+        start: hasTime ? toMinutes(schedule.time.slice(0, 4)) : null,
+        end: hasTime ? toMinutes(schedule.time.slice(5, 9)) : null,
+        room: schedule.room
+      };
+    });
+}
+
+// minutes since the epoch, for comparing exams on different days
+const startsAt = (exam: Exam): number => Date.parse(`${exam.date}T00:00:00Z`) / 60000 + exam.start!;
+
+const isTimed = (exam: Exam): boolean => exam.start !== null && exam.end !== null;
+
+export const examsClash = (a: Exam, b: Exam): boolean =>
+  isTimed(a) && isTimed(b) && a.date === b.date && a.start! < b.end! && b.start! < a.end!;
+
+// Every exam of the sections, earliest first (exams without a time go first on their day)
+export function getAllExams(sections: Section[]): Exam[] {
+  return sections
+    .flatMap(getExams)
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.start ?? -1) - (b.start ?? -1));
+}
+
+export function findExamClashes(sections: Section[]): ExamClash[] {
+  const exams = getAllExams(sections);
+  const clashes: ExamClash[] = [];
+  for (let i = 0; i < exams.length; i++) {
+    for (let j = i + 1; j < exams.length; j++) {
+      if (exams[i].section.id !== exams[j].section.id && examsClash(exams[i], exams[j])) {
+        clashes.push({ first: exams[i], second: exams[j] });
+      }
+    }
+  }
+  return clashes;
+}
+
+// Each hardship is the longest run of exams that start within 24 hours of the first one
+export function findExamHardships(sections: Section[]): ExamHardship[] {
+  const exams = getAllExams(sections).filter(isTimed);
+  const hardships: ExamHardship[] = [];
+
+  let covered = -1; // index of the last exam already part of a hardship
+  for (let i = 0; i < exams.length; i++) {
+    let j = i;
+    while (j + 1 < exams.length && startsAt(exams[j + 1]) - startsAt(exams[i]) < DAY) j++;
+
+    // skip windows that are already inside the previous hardship
+    if (j - i >= 2 && j > covered) {
+      hardships.push(exams.slice(i, j + 1));
+      covered = j;
+    }
+  }
+  return hardships;
+}
+
+// For the timetable generator: would adding this section put two exams at the same time
+export function sectionHasExamClash(section: Section, others: Section[]): boolean {
+  const exams = getExams(section);
+  if (exams.length === 0) return false;
+  return others.some(other => getExams(other).some(otherExam => exams.some(exam => examsClash(exam, otherExam))));
+}
@@ -0,0 +1,201 @@
+import { Schedule, Section } from '@/types/Section';
+import { SemesterCalendar, SemesterExclusion } from '@/lib/semester-calendar';
+
+// iCalendar (RFC 5545) export for the planner
+// every weekly meeting becomes a recurring VEVENT and every exam becomes a single event
+// holidays and reading break days are left out with EXDATE
+
+const DAY_CODES: { [key: string]: { ics: string; jsDay: number } } = {
+  'M': { ics: 'MO', jsDay: 1 },
+  'T': { ics: 'TU', jsDay: 2 },
+  'W': { ics: 'WE', jsDay: 3 },
+  'R': { ics: 'TH', jsDay: 4 },
+  'F': { ics: 'FR', jsDay: 5 },
+  'S': { ics: 'SA', jsDay: 6 },
+  'U': { ics: 'SU', jsDay: 0 },
+};
+
+const TIMEZONE = 'America/Vancouver';
+
+// minimal timezone definition so that calendar apps don't guess
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0800',
+  'TZOFFSETTO:-0700',
+  'TZNAME:PDT',
+  'DTSTART:19700308T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0700',
+  'TZOFFSETTO:-0800',
+  'TZNAME:PST',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+// escape text values (commas, semicolons, backslashes and newlines)
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// lines longer than 75 characters must be folded
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+
+  const parts: string[] = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(' ' + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// dates from the api are date-only ISO strings, which javascript parses as UTC midnight
+// so we always read the UTC components to get the intended calendar day
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+function formatTimestamp(date: Date): string {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+// "1030-1220" -> ["103000", "122000"]
+function parseTimes(time: string): [string, string] | null {
+  const times = time.split('-');
+  if (times.length !== 2 || !/^\d{4}$/.test(times[0]) || !/^\d{4}$/.test(times[1])) return null;
+  return [`${times[0]}00`, `${times[1]}00`];
+}
+
+function describeSection(section: Section, schedule: Schedule): string {
+  const lines = [
+    section.title || section.abbreviated_title || '',
+    `CRN: ${section.crn}`,
+    `Section: ${section.section}`,
+  ];
+  if (schedule.instructor) lines.push(`Instructor: ${schedule.instructor}`);
+  if (schedule.room) lines.push(`Room: ${schedule.room}`);
+  return lines.filter(Boolean).join('\n');
+}
+
+function buildEvent(
+  section: Section,
+  schedule: Schedule,
+  year: number,
+  term: number,
+  timing: string[]
+): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${section.crn}-${schedule.id}-${year}${term}@langaracourses.ca`,
+    `DTSTAMP:${formatTimestamp(new Date())}`,
+    ...timing,
+    `SUMMARY:${escapeText(`${section.subject} ${section.course_code} ${section.section} ${schedule.type}`)}`,
+    `LOCATION:${escapeText(schedule.room || '')}`,
+    `DESCRIPTION:${escapeText(describeSection(section, schedule))}`,
+    'END:VEVENT',
+  ];
+}
+
+function buildWeeklyEvent(
+  section: Section,
+  schedule: Schedule,
+  year: number,
+  term: number,
+  semesterStart: Date,
+  semesterEnd: Date,
+  exclusions: SemesterExclusion[]
+): string[] | null {
+  const days = schedule.days.split('').filter(day => DAY_CODES[day]);
+  if (days.length === 0) return null;
+
+  const times = parseTimes(schedule.time);
+  if (!times) return null;
+
+  const rangeStart = schedule.start ? new Date(schedule.start) : semesterStart;
+  const rangeEnd = schedule.end ? new Date(schedule.end) : semesterEnd;
+
+  // DTSTART has to be the first real meeting, otherwise some clients add an extra occurrence
+  const firstMeeting = new Date(rangeStart);
+  const meetingDays = days.map(day => DAY_CODES[day].jsDay);
+  for (let i = 0; i < 7 && !meetingDays.includes(firstMeeting.getUTCDay()); i++) {
+    firstMeeting.setUTCDate(firstMeeting.getUTCDate() + 1);
+  }
+  if (firstMeeting > rangeEnd) return null;
+
+  // UNTIL must be in UTC, so use the morning after the last day (still the last day in Vancouver)
+  const until = new Date(rangeEnd);
+  until.setUTCDate(until.getUTCDate() + 1);
+
+  const skipped = exclusions
+    .map(exclusion => new Date(exclusion.date))
+    .filter(day => day >= firstMeeting && day <= rangeEnd && meetingDays.includes(day.getUTCDay()))
+    .map(day => `${formatDate(day)}T${times[0]}`);
+
+  const date = formatDate(firstMeeting);
+  return buildEvent(section, schedule, year, term, [
+    `DTSTART;TZID=${TIMEZONE}:${date}T${times[0]}`,
+    `DTEND;TZID=${TIMEZONE}:${date}T${times[1]}`,
+    `RRULE:FREQ=WEEKLY;BYDAY=${days.map(day => DAY_CODES[day].ics).join(',')};UNTIL=${formatDate(until)}T075959Z`,
+    ...(skipped.length > 0 ? [`EXDATE;TZID=${TIMEZONE}:${skipped.join(',')}`] : []),
+  ]);
+}
+
+function buildExamEvent(section: Section, schedule: Schedule, year: number, term: number): string[] | null {
+  if (!schedule.start) return null;
+
+  const date = formatDate(new Date(schedule.start));
+  const times = parseTimes(schedule.time);
+
+  // exams without a time yet are still worth having on the calendar as all-day events
+  if (!times) {
+    return buildEvent(section, schedule, year, term, [`DTSTART;VALUE=DATE:${date}`]);
+  }
+
+  return buildEvent(section, schedule, year, term, [
+    `DTSTART;TZID=${TIMEZONE}:${date}T${times[0]}`,
+    `DTEND;TZID=${TIMEZONE}:${date}T${times[1]}`,
+  ]);
+}
+
+export function generateICS(
+  sections: Section[],
+  year: number,
+  term: number,
+  calendar: SemesterCalendar
+): string {
+  const semesterStart = new Date(calendar.firstDay);
+  const semesterEnd = new Date(calendar.lastDay);
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Langara Course Planner//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...VTIMEZONE,
+  ];
+
+  sections.forEach(section => {
+    section.schedule.forEach(schedule => {
+      const event = schedule.type === 'Exam'
+        ? buildExamEvent(section, schedule, year, term)
+        : buildWeeklyEvent(section, schedule, year, term, semesterStart, semesterEnd, calendar.exclusions);
+
+      if (event) lines.push(...event);
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { diagnoseTimetables } from './timetableDiagnostics';
+import { DEFAULT_CONSTRAINTS } from './timetableGenerator';
+import { CourseInternal } from '../types/Course';
+import { SectionInternal } from '../types/Section';
+
+const section = (subject: string, code: string, crn: number, days: string, time: string, exam: string): SectionInternal => ({
+  id: `SECT-${subject}-${code}-${crn}`, crn, RP: null, seats: '10', waitlist: ' ', section: '001', credits: 3,
+  abbreviated_title: null, rpt_limit: null, subject, course_code: code, year: 2025, term: 30,
+  schedule: [
+    { id: `${crn}-lecture`, type: 'Lecture', days, time, start: null, end: null, room: 'A130', instructor: 'Jane Smith' },
+    { id: `${crn}-exam`, type: 'Exam', days: '-------', time: exam, start: '2025-12-08', end: '2025-12-08', room: 'A130', instructor: 'Jane Smith' },
+  ],
+  hidden: false, pinned: false, hidden_by_pin: false,
+});
+
+const course = (subject: string, code: string, sections: SectionInternal[]): CourseInternal => ({
+  subject, course_code: code, id: `CRS-${subject}-${code}`,
+  attributes: {} as CourseInternal['attributes'],
+  sections, sections_enhanced: sections, transfers: [], outlines: [],
+  hidden: false, ui_hidden: false,
+});
+
+describe('diagnoseTimetables', () => {
+  it('suggests allowing exam clashes when they are the reason', () => {
+    const courses = [
+      course('CPSC', '1150', [section('CPSC', '1150', 30001, 'M-W----', '0830-1020', '0900-1200')]),
+      course('MATH', '1171', [section('MATH', '1171', 30002, '-T-R---', '0830-1020', '1000-1300')]),
+    ];
+    const diagnosis = diagnoseTimetables(courses, { ...DEFAULT_CONSTRAINTS, noExamClashes: true });
+    expect(diagnosis.clashingPairs).toEqual([['CPSC 1150', 'MATH 1171']]);
+    expect(diagnosis.suggestions).toEqual(['Turn off "No final exams at the same time", the exams of these courses clash.']);
+  });
+
+  it('explains when every course is hidden', () => {
+    const hidden = { ...course('CPSC', '1150', []), hidden: true };
+    const diagnosis = diagnoseTimetables([hidden], DEFAULT_CONSTRAINTS);
+    expect(diagnosis.noVisibleCourses).toBe(true);
+    expect(diagnosis.suggestions).toEqual(['Show at least one of your courses again.']);
+  });
+});
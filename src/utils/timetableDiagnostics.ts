@@ -0,0 +1,264 @@
+// Works out why no timetable could be generated, and what the user could change to get one
+//
+// Whether two sections can be taken together is worked out once and reused by every check below,
+// and all the searches share one budget so that a big course list can't keep the worker busy for long.
+// A search that runs out of budget counts as "don't know", it is never reported as a conflict
+
+import { CourseInternal } from '../types/Course';
+import { SectionInternal } from '../types/Section';
+import { DEFAULT_CONSTRAINTS, fitsTimetable, getMeetings, sectionConflicts, sectionFitsConstraints, TimetableConstraints } from './timetableGenerator';
+
+export interface TimetableDiagnosis {
+  // every course is hidden, so there was nothing to search
+  noVisibleCourses: boolean;
+  // smallest group of courses that can't be scheduled together
+  minimalConflict: string[];
+  // courses that have no usable sections at all
+  emptyCourses: { course: string; reason: string }[];
+  // pairs of courses whose sections always clash
+  clashingPairs: [string, string][];
+  suggestions: string[];
+}
+
+// course combinations of 3 or more to try before giving up on finding the smallest conflict
+const MAX_SUBSET_CHECKS = 500;
+// sections tried across every search of one diagnosis
+const MAX_SEARCH_STEPS = 200_000;
+
+interface SearchContext {
+  constraints: TimetableConstraints;
+  // "id|id" -> whether the two sections can be in the same timetable
+  compatible: Map<string, boolean>;
+  // section id -> days it meets on, for the campus days constraint
+  days: Map<string, Set<number>>;
+  budget: { steps: number };
+}
+
+const courseLabel = (course: CourseInternal) => `${course.subject} ${course.course_code}`;
+const sectionLabel = (section: SectionInternal) => `${section.section} (${section.crn})`;
+
+const createContext = (constraints: TimetableConstraints, budget: { steps: number }): SearchContext =>
+  ({ constraints, compatible: new Map(), days: new Map(), budget });
+
+// The sections the search would pick from
+const usableSections = (sections: SectionInternal[], constraints: TimetableConstraints): SectionInternal[] =>
+  sections.filter(section =>
+    !section.hidden && !section.hidden_by_pin && section.seats !== "Cancel" &&
+    sectionFitsConstraints(section, constraints) && fitsTimetable(section, [], constraints)
+  );
+
+function isCompatible(context: SearchContext, first: SectionInternal, second: SectionInternal): boolean {
+  const key = first.id < second.id ? `${first.id}|${second.id}` : `${second.id}|${first.id}`;
+  let compatible = context.compatible.get(key);
+  if (compatible === undefined) {
+    compatible = !sectionConflicts(first, [second]) && fitsTimetable(first, [second], context.constraints);
+    context.compatible.set(key, compatible);
+  }
+  return compatible;
+}
+
+function sectionDays(context: SearchContext, section: SectionInternal): Set<number> {
+  let days = context.days.get(section.id);
+  if (!days) {
+    days = new Set(getMeetings(section).map(meeting => meeting.day));
+    context.days.set(section.id, days);
+  }
+  return days;
+}
+
+function fitsCampusDays(context: SearchContext, section: SectionInternal, current: SectionInternal[]): boolean {
+  const { maxCampusDays } = context.constraints;
+  if (maxCampusDays === null) return true;
+
+  const days = new Set([section, ...current].flatMap(s => [...sectionDays(context, s)]));
+  return days.size <= maxCampusDays;
+}
+
+// Whether one section of each course can be taken together, or null if that couldn't be worked out in the budget
+function hasTimetable(context: SearchContext, options: SectionInternal[][]): boolean | null {
+  if (options.some(sections => sections.length === 0)) return false;
+
+  // the courses with the fewest sections first, so that dead ends are found early
+  const sorted = [...options].sort((a, b) => a.length - b.length);
+  const current: SectionInternal[] = [];
+
+  const search = (index: number): boolean | null => {
+    if (index === sorted.length) return true;
+
+    for (const section of sorted[index]) {
+      if (--context.budget.steps < 0) return null;
+      if (!current.every(other => isCompatible(context, section, other))) continue;
+      if (!fitsCampusDays(context, section, current)) continue;
+
+      current.push(section);
+      const found = search(index + 1);
+      current.pop();
+      if (found !== false) return found;
+    }
+    return false;
+  };
+
+  return search(0);
+}
+
+// Explain why a course has no sections left to choose from, or null if it has some
+function emptyCourseReason(course: CourseInternal, constraints: TimetableConstraints): string | null {
+  const notCancelled = course.sections_enhanced.filter(section => section.seats !== "Cancel");
+  if (notCancelled.length === 0) return "every section is cancelled";
+
+  const visible = notCancelled.filter(section => !section.hidden && !section.hidden_by_pin);
+  if (visible.length === 0) {
+    const pinned = course.sections_enhanced.find(section => section.pinned);
+    if (pinned) {
+      return pinned.seats === "Cancel"
+        ? `the pinned section ${sectionLabel(pinned)} is cancelled`
+        : `the pinned section ${sectionLabel(pinned)} is hidden`;
+    }
+    return "every section is hidden";
+  }
+
+  if (usableSections(visible, constraints).length === 0) return "no section fits your constraints";
+
+  return null;
+}
+
+// Every combination of k items, in order
+function* combinations<T>(items: T[], k: number, start: number = 0, current: T[] = []): Generator<T[]> {
+  if (current.length === k) {
+    yield [...current];
+    return;
+  }
+  for (let i = start; i < items.length; i++) {
+    current.push(items[i]);
+    yield* combinations(items, k, i + 1, current);
+    current.pop();
+  }
+}
+
+// Find the smallest set of courses with no possible timetable
+// Single courses and pairs were already checked, so this starts at 3
+function findMinimalConflict(
+  context: SearchContext,
+  courses: CourseInternal[],
+  options: Map<string, SectionInternal[]>
+): CourseInternal[] {
+  let checks = 0;
+  for (let k = 3; k < courses.length; k++) {
+    for (const subset of combinations(courses, k)) {
+      if (++checks > MAX_SUBSET_CHECKS || context.budget.steps <= 0) return courses;
+      if (hasTimetable(context, subset.map(course => options.get(course.id)!)) === false) return subset;
+    }
+  }
+  return courses;
+}
+
+// Try undoing each pin and hide (and the constraints) to see which ones would fix the problem
+function findSuggestions(
+  context: SearchContext,
+  courses: CourseInternal[],
+  options: Map<string, SectionInternal[]>
+): string[] {
+  const suggestions: string[] = [];
+  const { constraints } = context;
+  const optionsWith = (course: CourseInternal, sections: SectionInternal[]) =>
+    courses.map(other => other.id === course.id ? sections : options.get(other.id)!);
+
+  courses.forEach(course => {
+    const pinned = course.sections_enhanced.find(section => section.pinned);
+    if (pinned) {
+      const unpinned = usableSections(
+        course.sections_enhanced.map(section => ({ ...section, pinned: false, hidden_by_pin: false })),
+        constraints
+      );
+      if (hasTimetable(context, optionsWith(course, unpinned))) {
+        suggestions.push(`Unpin section ${sectionLabel(pinned)} of ${courseLabel(course)}.`);
+      }
+    }
+
+    const others = courses.filter(other => other.id !== course.id);
+    course.sections_enhanced
+      .filter(section => section.hidden && !section.hidden_by_pin && section.seats !== "Cancel")
+      .map(section => ({ ...section, hidden: false }))
+      .filter(section => usableSections([section], constraints).length > 0)
+      // it can only help if it fits with some section of every other course
+      .filter(section => others.every(other =>
+        options.get(other.id)!.some(candidate => isCompatible(context, section, candidate))
+      ))
+      .forEach(section => {
+        if (hasTimetable(context, optionsWith(course, [...options.get(course.id)!, section]))) {
+          suggestions.push(`Show section ${sectionLabel(section)} of ${courseLabel(course)} again.`);
+        }
+      });
+  });
+
+  // exam clashes aren't visible in the week view, so they get their own suggestion
+  let examClashesOnly = false;
+  if (constraints.noExamClashes) {
+    const allowClashes = { ...constraints, noExamClashes: false };
+    const allowed = createContext(allowClashes, context.budget);
+    examClashesOnly = hasTimetable(allowed, courses.map(course => usableSections(course.sections_enhanced, allowClashes))) === true;
+    if (examClashesOnly) {
+      suggestions.push('Turn off "No final exams at the same time", the exams of these courses clash.');
+    }
+  }
+
+  const hasConstraints = JSON.stringify(constraints) !== JSON.stringify(DEFAULT_CONSTRAINTS);
+  if (hasConstraints && !examClashesOnly) {
+    const unconstrained = createContext(DEFAULT_CONSTRAINTS, context.budget);
+    const unconstrainedOptions = courses.map(course => usableSections(course.sections_enhanced, DEFAULT_CONSTRAINTS));
+    if (hasTimetable(unconstrained, unconstrainedOptions)) {
+      suggestions.push("Relax or clear your constraints.");
+    }
+  }
+
+  if (suggestions.length === 0 && courses.length > 1) {
+    suggestions.push(`Remove one of ${courses.map(courseLabel).join(', ')}.`);
+  }
+
+  return suggestions;
+}
+
+export function diagnoseTimetables(courses: CourseInternal[], constraints: TimetableConstraints): TimetableDiagnosis {
+  const visibleCourses = courses.filter(course => !course.hidden);
+  if (visibleCourses.length === 0) {
+    return {
+      noVisibleCourses: true,
+      minimalConflict: [],
+      emptyCourses: [],
+      clashingPairs: [],
+      suggestions: courses.length > 0 ? ["Show at least one of your courses again."] : []
+    };
+  }
+
+  const context = createContext(constraints, { steps: MAX_SEARCH_STEPS });
+  const options = new Map(visibleCourses.map(course => [course.id, usableSections(course.sections_enhanced, constraints)]));
+
+  const emptyCourses: TimetableDiagnosis['emptyCourses'] = [];
+  visibleCourses.forEach(course => {
+    const reason = emptyCourseReason(course, constraints);
+    if (reason) emptyCourses.push({ course: courseLabel(course), reason });
+  });
+
+  // courses that can't even be scheduled alone are already explained above
+  const schedulable = visibleCourses.filter(course => options.get(course.id)!.length > 0);
+  const clashingPairs: [CourseInternal, CourseInternal][] = [];
+  for (const [first, second] of combinations(schedulable, 2)) {
+    const fits = options.get(first.id)!.some(a =>
+      options.get(second.id)!.some(b => isCompatible(context, a, b))
+    );
+    if (!fits) clashingPairs.push([first, second]);
+  }
+
+  const emptyCourse = visibleCourses.find(course => options.get(course.id)!.length === 0);
+  const minimalConflict = emptyCourse ? [emptyCourse]
+    : clashingPairs.length > 0 ? clashingPairs[0]
+      : findMinimalConflict(context, visibleCourses, options);
+
+  return {
+    noVisibleCourses: false,
+    minimalConflict: minimalConflict.map(courseLabel),
+    emptyCourses,
+    clashingPairs: clashingPairs.map(([first, second]) => [courseLabel(first), courseLabel(second)]),
+    suggestions: findSuggestions(context, minimalConflict, options)
+  };
+}
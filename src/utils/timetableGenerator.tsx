@@ -1,5 +1,17 @@
 import { CourseInternal } from '../types/Course';
-import { Section, Schedule } from '../types/Section';
+import { Section } from '../types/Section';
+import { sectionHasExamClash } from './examConflicts';
+
+// The parts of a schedule entry needed to check for conflicts
+// (the planner and the generator use different Section types, but both have these)
+export interface MeetingTime {
+  type: string;
+  days: string;
+  time: string;
+  // only set when the meeting doesn't run for the whole semester
+  start?: string | null;
+  end?: string | null;
+}
 
 // Convert day string (M------) to array of day numbers (0 = Monday)
 function getDays(dayStr: string): number[] {
@@ -22,29 +34,59 @@ function timeToMinutes(time: string): { start: number; end: number } {
   };
 }
 
-// Check if two schedules conflict
-function hasConflict(schedule1: Schedule, schedule2: Schedule): boolean {
-  // If either schedule is an exam, there is no conflict
+// Whether two schedules run in the same part of the semester, e.g. not one in the first half and one in the second
+function datesOverlap(schedule1: MeetingTime, schedule2: MeetingTime): boolean {
+  // dates look like "2025-04-10" (sometimes with a time after) so they compare as strings
+  const start1 = schedule1.start?.slice(0, 10);
+  const end1 = schedule1.end?.slice(0, 10);
+  const start2 = schedule2.start?.slice(0, 10);
+  const end2 = schedule2.end?.slice(0, 10);
+
+  // a missing date means the schedule runs from the start or to the end of the semester
+  if (start1 && end2 && start1 > end2) return false;
+  if (start2 && end1 && start2 > end1) return false;
+  return true;
+}
+
+// Get the days and time range where two schedules overlap, or null if they don't
+export function getOverlap(schedule1: MeetingTime, schedule2: MeetingTime): { days: number[]; start: number; end: number } | null {
+  // Exams are only on one date, see examConflicts.ts for exam clashes
   if (schedule1.type === "Exam" || schedule2.type === "Exam") {
-    return false;
+    return null;
   }
 
   const days1 = getDays(schedule1.days);
   const days2 = getDays(schedule2.days);
-  
-  const time1 = timeToMinutes(schedule1.time);
-  const time2 = timeToMinutes(schedule2.time);
 
   // Check if schedules share any days
   const commonDays = days1.filter(day => days2.includes(day));
-  if (commonDays.length === 0) return false;
+  if (commonDays.length === 0) return null;
+
+  if (!datesOverlap(schedule1, schedule2)) return null;
+
+  const time1 = timeToMinutes(schedule1.time);
+  const time2 = timeToMinutes(schedule2.time);
+
+  // some schedules don't have a time yet
+  if ([time1.start, time1.end, time2.start, time2.end].some(isNaN)) return null;
 
   // Check if times overlap
-  return !(time1.end <= time2.start || time2.end <= time1.start);
+  if (time1.end <= time2.start || time2.end <= time1.start) return null;
+
+  return {
+    days: commonDays,
+    start: Math.max(time1.start, time2.start),
+    end: Math.min(time1.end, time2.end)
+  };
+}
+
+// Check if two schedules conflict
+export function hasConflict(schedule1: MeetingTime, schedule2: MeetingTime): boolean {
+  return getOverlap(schedule1, schedule2) !== null;
 }
 
 // Check if a section conflicts with selected sections
-function sectionConflicts(section: Section, selectedSections: Section[]): boolean {
+export function sectionConflicts(section: { schedule: MeetingTime[] }, selectedSections: { schedule: MeetingTime[] }[]): boolean {
   for (const selected of selectedSections) {
     for (const schedule1 of section.schedule) {
       for (const schedule2 of selected.schedule) {
@@ -57,36 +99,134 @@ function sectionConflicts(section: Section, selectedSections: Section[]): boolea
   return false;
 }
 
-export function generateTimetables(courses: CourseInternal[], maxTimetables: number = 999): Section[][] {
-  const timetables: Section[][] = [];
-  // Filter out hidden courses and sections
-  const visibleCourses: CourseInternal[] = JSON.parse(JSON.stringify(courses.filter(course => !course.hidden)));
-  visibleCourses.forEach(course => {
-    course.sections_enhanced = course.sections_enhanced.filter(
-      section => !section.hidden && !section.hidden_by_pin && !(section.seats === "Cancel")
-    );
+// User constraints for generated timetables
+export interface TimetableConstraints {
+  freeDays: number[]; // days that must stay free (0 = Monday)
+  earliestStart: number | null; // minutes from midnight
+  latestEnd: number | null; // minutes from midnight
+  maxCampusDays: number | null;
+  minGap: number; // minimum minutes between two classes on the same day
+  noExamClashes: boolean; // reject timetables with two final exams at the same time
+}
+
+export const DEFAULT_CONSTRAINTS: TimetableConstraints = {
+  freeDays: [],
+  earliestStart: null,
+  latestEnd: null,
+  maxCampusDays: null,
+  minGap: 0,
+  noExamClashes: false
+};
+
+// Get every in-person meeting of a section as day + minutes
+export function getMeetings(section: { schedule: MeetingTime[] }): { day: number; start: number; end: number }[] {
+  const meetings: { day: number; start: number; end: number }[] = [];
+  section.schedule.forEach(schedule => {
+    if (schedule.type === "Exam") return;
+
+    const time = timeToMinutes(schedule.time);
+    if (isNaN(time.start) || isNaN(time.end)) return;
+
+    getDays(schedule.days).forEach(day => meetings.push({ day, ...time }));
   });
-  // Remove the filtering here (leave this empty)
-  
-  if (visibleCourses.length === 0) return timetables;
-  
-  function backtrack(courseIndex: number, currentTimetable: Section[]) {
-    if (timetables.length >= maxTimetables) return;
+  return meetings;
+}
+
+// Check the constraints that only depend on the section itself
+export function sectionFitsConstraints(section: Section, constraints: TimetableConstraints): boolean {
+  return getMeetings(section).every(meeting =>
+    !constraints.freeDays.includes(meeting.day) &&
+    (constraints.earliestStart === null || meeting.start >= constraints.earliestStart) &&
+    (constraints.latestEnd === null || meeting.end <= constraints.latestEnd)
+  );
+}
+
+// Check the constraints that depend on the rest of the timetable
+export function fitsTimetable(section: Section, currentTimetable: Section[], constraints: TimetableConstraints): boolean {
+  if (constraints.noExamClashes && sectionHasExamClash(section, currentTimetable)) return false;
+
+  const meetings = getMeetings(section);
+  const otherMeetings = currentTimetable.flatMap(getMeetings);
+
+  if (constraints.maxCampusDays !== null) {
+    const days = new Set([...meetings, ...otherMeetings].map(meeting => meeting.day));
+    if (days.size > constraints.maxCampusDays) return false;
+  }
+
+  if (constraints.minGap > 0) {
+    for (const meeting of meetings) {
+      for (const other of otherMeetings) {
+        if (meeting.day !== other.day) continue;
+        const gap = Math.max(meeting.start, other.start) - Math.min(meeting.end, other.end);
+        if (gap >= 0 && gap < constraints.minGap) return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+// Walk through every valid timetable, one at a time
+// Yields null every so often while searching, so that callers can pause, report progress or stop
+// progress.value goes from 0 to 1 as the search space is covered
+export function* searchTimetables(
+  courses: CourseInternal[],
+  constraints: TimetableConstraints = DEFAULT_CONSTRAINTS,
+  progress: { value: number } = { value: 0 }
+): Generator<Section[] | null> {
+  // Filter out hidden courses and sections
+  // Sections that can never satisfy the constraints are dropped before searching
+  const visibleCourses: Section[][] = courses
+    .filter(course => !course.hidden)
+    .map(course => course.sections_enhanced.filter(
+      section => !section.hidden && !section.hidden_by_pin && !(section.seats === "Cancel") &&
+        sectionFitsConstraints(section, constraints)
+    ));
+
+  if (visibleCourses.length === 0) return;
+
+  const currentTimetable: Section[] = [];
+  let visited = 0;
+
+  // weight is the share of the search space below this point, offset is how much came before it
+  function* backtrack(courseIndex: number, weight: number, offset: number): Generator<Section[] | null> {
     if (courseIndex === visibleCourses.length) {
-      timetables.push([...currentTimetable]);
+      yield [...currentTimetable];
       return;
     }
 
-    const course = visibleCourses[courseIndex];
-    for (const section of course.sections_enhanced) {
-      if (!sectionConflicts(section, currentTimetable)) {
+    const sections = visibleCourses[courseIndex];
+    const childWeight = weight / sections.length;
+
+    for (let i = 0; i < sections.length; i++) {
+      const section = sections[i];
+      progress.value = offset + i * childWeight;
+
+      if (++visited % 500 === 0) yield null;
+
+      if (!sectionConflicts(section, currentTimetable) && fitsTimetable(section, currentTimetable, constraints)) {
         currentTimetable.push(section);
-        backtrack(courseIndex + 1, currentTimetable);
+        yield* backtrack(courseIndex + 1, childWeight, offset + i * childWeight);
         currentTimetable.pop();
       }
     }
   }
 
-  backtrack(0, []);
+  yield* backtrack(0, 1, 0);
+  progress.value = 1;
+}
+
+export function generateTimetables(
+  courses: CourseInternal[],
+  maxTimetables: number = 999,
+  constraints: TimetableConstraints = DEFAULT_CONSTRAINTS
+): Section[][] {
+  const timetables: Section[][] = [];
+
+  for (const timetable of searchTimetables(courses, constraints)) {
+    if (timetables.length >= maxTimetables) break;
+    if (timetable) timetables.push(timetable);
+  }
+
   return timetables;
-}
\ No newline at end of file
+}
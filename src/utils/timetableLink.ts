@@ -0,0 +1,93 @@
+// Shareable links for the timetable generator
+// The link stores the selected courses, pins, hides and constraints so that whoever opens it gets the same results
+// e.g. /timetable?year=2025&term=10&courses=CPSC-1150,MATH-1171&pin=10234&hide=10240,10241&off=4&noexamclash=1
+
+import { Course, CourseInternal } from '../types/Course';
+import { DEFAULT_CONSTRAINTS, TimetableConstraints } from './timetableGenerator';
+
+const courseKey = (course: Course) => `${course.subject}-${course.course_code}`;
+
+const toNumbers = (value: string | null): number[] =>
+  value ? value.split(',').map(Number).filter(n => !isNaN(n)) : [];
+
+const toNumberOrNull = (value: string | null): number | null =>
+  value && !isNaN(Number(value)) ? Number(value) : null;
+
+export function encodeTimetableLink(
+  year: string,
+  term: string,
+  selectedCourses: CourseInternal[],
+  constraints: TimetableConstraints
+): string {
+  const params = new URLSearchParams({ year, term });
+
+  if (selectedCourses.length > 0) {
+    params.set('courses', selectedCourses.map(courseKey).join(','));
+  }
+
+  const hiddenCourses = selectedCourses.filter(course => course.hidden);
+  if (hiddenCourses.length > 0) {
+    params.set('hidecourses', hiddenCourses.map(courseKey).join(','));
+  }
+
+  const sections = selectedCourses.flatMap(course => course.sections_enhanced);
+  const pinned = sections.filter(section => section.pinned);
+  const hidden = sections.filter(section => section.hidden);
+  if (pinned.length > 0) params.set('pin', pinned.map(section => section.crn).join(','));
+  if (hidden.length > 0) params.set('hide', hidden.map(section => section.crn).join(','));
+
+  if (constraints.freeDays.length > 0) params.set('off', constraints.freeDays.join(','));
+  if (constraints.earliestStart !== null) params.set('from', String(constraints.earliestStart));
+  if (constraints.latestEnd !== null) params.set('to', String(constraints.latestEnd));
+  if (constraints.maxCampusDays !== null) params.set('maxdays', String(constraints.maxCampusDays));
+  if (constraints.minGap > 0) params.set('gap', String(constraints.minGap));
+  if (constraints.noExamClashes) params.set('noexamclash', '1');
+
+  // URLSearchParams escapes the commas, which makes the link harder to read
+  return `/timetable?${params.toString().replace(/%2C/g, ',')}`;
+}
+
+// Returns null if the link doesn't contain a timetable
+export function decodeTimetableLink(
+  params: URLSearchParams,
+  courses: Course[]
+): { selectedCourses: CourseInternal[]; constraints: TimetableConstraints } | null {
+  const courseKeys = params.get('courses')?.split(',').filter(Boolean) ?? [];
+  if (courseKeys.length === 0) return null;
+
+  const hiddenCourses = params.get('hidecourses')?.split(',') ?? [];
+  const pinned = toNumbers(params.get('pin'));
+  const hidden = toNumbers(params.get('hide'));
+
+  const selectedCourses: CourseInternal[] = [];
+  courseKeys.forEach(key => {
+    const course = courses.find(c => courseKey(c) === key);
+    if (!course) return;
+
+    const pinnedSection = course.sections.find(section => pinned.includes(section.crn));
+
+    selectedCourses.push({
+      ...course,
+      hidden: hiddenCourses.includes(key),
+      ui_hidden: true,
+      sections_enhanced: course.sections.map(section => ({
+        ...section,
+        hidden: hidden.includes(section.crn),
+        pinned: section === pinnedSection,
+        hidden_by_pin: pinnedSection !== undefined && section !== pinnedSection
+      }))
+    });
+  });
+
+  return {
+    selectedCourses,
+    constraints: {
+      freeDays: toNumbers(params.get('off')),
+      earliestStart: toNumberOrNull(params.get('from')),
+      latestEnd: toNumberOrNull(params.get('to')),
+      maxCampusDays: toNumberOrNull(params.get('maxdays')),
+      minGap: toNumberOrNull(params.get('gap')) ?? DEFAULT_CONSTRAINTS.minGap,
+      noExamClashes: params.get('noexamclash') === '1'
+    }
+  };
+}
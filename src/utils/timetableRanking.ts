@@ -0,0 +1,108 @@
+import { isOnlineSection } from '@/lib/section-search';
+import { Section } from '../types/Section';
+import { getMeetings } from './timetableGenerator';
+
+// How much each criterion matters when ranking timetables (0 = ignore)
+export interface RankingWeights {
+  idleTime: number; // less time waiting between classes
+  campusDays: number; // fewer days on campus
+  lateStart: number; // later first class
+  openSeats: number; // sections with open seats instead of a waitlist
+  online: number; // more online sections
+}
+
+export const DEFAULT_WEIGHTS: RankingWeights = {
+  idleTime: 5,
+  campusDays: 5,
+  lateStart: 3,
+  openSeats: 3,
+  online: 0
+};
+
+export const MAX_WEIGHT = 10;
+
+// Every criterion from 0 (worst) to 1 (best)
+// The scales are fixed instead of relative to the other timetables,
+// so a timetable keeps its score no matter what else the search finds
+type TimetableMetrics = { [key in keyof RankingWeights]: number };
+
+// anything past these scores 0 for the criterion
+const MAX_IDLE_MINUTES = 10 * 60; // per week
+const MAX_CAMPUS_DAYS = 6;
+// a first class at 8:00 scores 0 for lateStart, at 12:00 or later it scores 1
+const EARLY_START = 8 * 60;
+const LATE_START = 12 * 60;
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+// 1 if there are open seats, less the longer the waitlist is, 0 if cancelled or full
+const seatAvailability = (section: Section): number => {
+  if (section.seats === 'Cancel' || section.waitlist === 'Full') return 0;
+
+  const seats = parseInt(section.seats) || 0;
+  if (seats > 0) return 1;
+
+  const waitlist = parseInt(section.waitlist ?? '') || 0;
+  return Math.max(0, 0.5 - waitlist / 20);
+};
+
+function getMetrics(timetable: Section[]): TimetableMetrics {
+  const meetings = timetable.flatMap(getMeetings);
+
+  // idle time is the gaps between classes on the same day
+  let idleMinutes = 0;
+  const days = new Set(meetings.map(meeting => meeting.day));
+  days.forEach(day => {
+    const dayMeetings = meetings.filter(m => m.day === day).sort((a, b) => a.start - b.start);
+    let lastEnd = dayMeetings[0].end;
+    dayMeetings.slice(1).forEach(meeting => {
+      idleMinutes += Math.max(0, meeting.start - lastEnd);
+      lastEnd = Math.max(lastEnd, meeting.end);
+    });
+  });
+
+  const earliestStart = meetings.length > 0 ? Math.min(...meetings.map(m => m.start)) : LATE_START;
+
+  return {
+    idleTime: 1 - clamp(idleMinutes / MAX_IDLE_MINUTES),
+    campusDays: 1 - clamp(days.size / MAX_CAMPUS_DAYS),
+    lateStart: clamp((earliestStart - EARLY_START) / (LATE_START - EARLY_START)),
+    openSeats: timetable.length > 0 ? timetable.reduce((sum, s) => sum + seatAvailability(s), 0) / timetable.length : 0,
+    online: timetable.length > 0 ? timetable.filter(isOnlineSection).length / timetable.length : 0
+  };
+}
+
+// Score a timetable from 0 to 100 (not rounded, so that close timetables still sort in the right order)
+export function scoreTimetable(timetable: Section[], weights: RankingWeights): number {
+  const metrics = getMetrics(timetable);
+  const keys = Object.keys(weights) as (keyof RankingWeights)[];
+  const totalWeight = keys.reduce((sum, key) => sum + weights[key], 0);
+
+  if (totalWeight === 0) return 0;
+
+  const weighted = keys.reduce((sum, key) => sum + metrics[key] * weights[key], 0);
+  return (weighted / totalWeight) * 100;
+}
+
+export interface RankedTimetable {
+  timetable: Section[];
+  score: number;
+}
+
+// Add a timetable to a best-first list that keeps at most `limit` timetables
+// Timetables with the same score stay in the order they were found
+// Returns whether the list changed
+export function insertRanked(ranked: RankedTimetable[], entry: RankedTimetable, limit: number): boolean {
+  let low = 0;
+  let high = ranked.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (ranked[middle].score >= entry.score) low = middle + 1;
+    else high = middle;
+  }
+
+  if (low >= limit) return false;
+  ranked.splice(low, 0, entry);
+  if (ranked.length > limit) ranked.pop();
+  return true;
+}
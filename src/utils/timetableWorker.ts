@@ -0,0 +1,146 @@
+// Runs the timetable search off the main thread
+// Results are sent back in small batches, and the search pauses after every page until more are requested
+//
+// When ranking, the whole search space is covered instead and only the best timetables are kept,
+// otherwise the best timetable could be behind "load more"
+
+import { CourseInternal } from '../types/Course';
+import { Section } from '../types/Section';
+import { diagnoseTimetables, TimetableDiagnosis } from './timetableDiagnostics';
+import { searchTimetables, TimetableConstraints } from './timetableGenerator';
+import { insertRanked, RankedTimetable, RankingWeights, scoreTimetable } from './timetableRanking';
+
+export type TimetableWorkerRequest =
+  // weights is null to get the timetables in the order they are found, a page at a time
+  // otherwise pageSize is how many of the best timetables to keep
+  | { type: 'start'; id: number; courses: CourseInternal[]; constraints: TimetableConstraints; pageSize: number; weights: RankingWeights | null }
+  | { type: 'more'; id: number; pageSize: number }
+  | { type: 'cancel'; id: number };
+
+export interface TimetableWorkerResponse {
+  id: number;
+  timetables: Section[][]; // found since the last response
+  // when ranking, the best timetables so far, best first (replaces the ones sent before)
+  // only sent when it changed
+  best?: Section[][];
+  found: number; // how many timetables were found in total
+  progress: number; // 0 to 1
+  status: 'searching' | 'paused' | 'done';
+  diagnosis?: TimetableDiagnosis; // only sent when the search finished without finding anything
+}
+
+const BATCH_SIZE = 25;
+const TIME_SLICE_MS = 30;
+// how often the best timetables are sent while ranking, sending them after every slice would be a lot of copying
+const RANKED_UPDATE_MS = 250;
+
+let job: {
+  id: number;
+  courses: CourseInternal[];
+  constraints: TimetableConstraints;
+  found: number;
+  search: Generator<Section[] | null>;
+  progress: { value: number };
+  remaining: number; // timetables left before pausing
+  ranking: {
+    weights: RankingWeights;
+    best: RankedTimetable[];
+    limit: number;
+    changed: boolean; // since the best timetables were last sent
+    sentAt: number;
+  } | null;
+} | null = null;
+
+const respond = (response: TimetableWorkerResponse) => self.postMessage(response);
+
+// Search for a little while, send what was found, then give the message queue a chance
+// so that a cancel or a new search can get through
+function run(id: number) {
+  if (!job || job.id !== id) return;
+
+  const started = performance.now();
+  const batch: Section[][] = [];
+  const { ranking } = job;
+  const bestTimetables = () => ranking!.best.map(({ timetable }) => timetable);
+
+  while ((ranking || (job.remaining > 0 && batch.length < BATCH_SIZE)) && performance.now() - started < TIME_SLICE_MS) {
+    const next = job.search.next();
+
+    if (next.done) {
+      const diagnosis = job.found === 0 ? diagnoseTimetables(job.courses, job.constraints) : undefined;
+      respond({
+        id,
+        timetables: batch,
+        best: ranking ? bestTimetables() : undefined,
+        found: job.found,
+        progress: 1,
+        status: 'done',
+        diagnosis
+      });
+      job = null;
+      return;
+    }
+
+    if (next.value) {
+      job.found++;
+      if (ranking) {
+        const entry = { timetable: next.value, score: scoreTimetable(next.value, ranking.weights) };
+        if (insertRanked(ranking.best, entry, ranking.limit)) ranking.changed = true;
+      } else {
+        batch.push(next.value);
+        job.remaining--;
+      }
+    }
+  }
+
+  let best: Section[][] | undefined;
+  if (ranking?.changed && performance.now() - ranking.sentAt >= RANKED_UPDATE_MS) {
+    best = bestTimetables();
+    ranking.changed = false;
+    ranking.sentAt = performance.now();
+  }
+
+  const status = ranking || job.remaining > 0 ? 'searching' : 'paused';
+  respond({ id, timetables: batch, best, found: job.found, progress: job.progress.value, status });
+
+  if (status === 'searching') {
+    setTimeout(() => run(id), 0);
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<TimetableWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'start': {
+      // starting a new search replaces (cancels) the old one
+      const progress = { value: 0 };
+      job = {
+        id: request.id,
+        courses: request.courses,
+        constraints: request.constraints,
+        found: 0,
+        search: searchTimetables(request.courses, request.constraints, progress),
+        progress,
+        remaining: request.pageSize,
+        ranking: request.weights
+          ? { weights: request.weights, best: [], limit: request.pageSize, changed: false, sentAt: 0 }
+          : null
+      };
+      run(request.id);
+      break;
+    }
+    case 'more':
+      if (job && job.id === request.id && job.remaining === 0) {
+        job.remaining = request.pageSize;
+        run(request.id);
+      }
+      break;
+    case 'cancel':
+      // also cancels anything older, in case a message was missed
+      if (job && job.id <= request.id) {
+        job = null;
+      }
+      break;
+  }
+});